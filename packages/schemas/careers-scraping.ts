@@ -67,10 +67,34 @@ export const LinkWithContextSchema = z.object({
     headings: z.array(z.string()).describe('Array of headings (h1-h6) found in the containing card/section'),
     cardText: z.string().describe('Text content from the card/section containing this link'),
     ariaLabel: z.string().describe('The aria-label attribute if present'),
+    location: z.string().nullable().optional().describe('Location text shown on the card, if any'),
+    deadline: z.string().nullable().optional().describe('Deadline / closing date text shown on the card, if any (unparsed)'),
+    department: z.string().nullable().optional().describe('Department, team or division text shown on the card, if any'),
+    structure: z.object({
+        cardSignature: z.string().describe('Tag and sorted classes of the card container, e.g. "li.job-card"'),
+        cardRepeatCount: z.number().int().describe('Links on the page whose card has the same signature'),
+        similarSiblingCount: z.number().int().describe('Siblings of the card with the same signature'),
+        inPageChrome: z.boolean().describe('Link sits inside nav, header or footer'),
+    }).optional().describe('DOM hints for the heuristic link scorer (not sent to the LLM)'),
 });
 
 export type LinkWithContext = z.infer<typeof LinkWithContextSchema>;
 
+/**
+ * What the listing page showed for a role. Carried from the LIST phase into
+ * DETAIL extraction as corroborating context - detail pages often leave out
+ * the location, deadline or programme type their listing card shows.
+ */
+export const ListingMetadataSchema = z.object({
+    location: z.string().nullable(),
+    deadline: z.string().nullable().describe('As shown on the card - unparsed'),
+    department: z.string().nullable(),
+    programType: ScrapedRoleSchema.shape.program_type.describe('Inferred from the card wording'),
+    cardText: z.string().nullable(),
+});
+
+export type ListingMetadata = z.infer<typeof ListingMetadataSchema>;
+
 /**
  * Schema for the LLM response when classifying job links.
  */
@@ -96,22 +120,90 @@ export const ExpectedProgrammeSchema = z.object({
 export type ExpectedProgramme = z.infer<typeof ExpectedProgrammeSchema>;
 
 /**
- * Schema for scraper configuration in scrape_urls
+ * ATS platforms with a dedicated adapter (see utils/scraping/ats)
+ */
+export const AtsProviderSchema = z.enum(['workday', 'greenhouse', 'lever', 'oracle-hcm', 'smartrecruiters']);
+
+export type AtsProvider = z.infer<typeof AtsProviderSchema>;
+
+/**
+ * How the LIST phase moves between listing pages (see utils/scraping/pagination)
+ */
+export const PaginationStrategySchema = z.enum(['auto', 'click', 'url-template', 'load-more', 'infinite-scroll', 'none']);
+
+export type PaginationStrategy = z.infer<typeof PaginationStrategySchema>;
+
+/**
+ * Schema for scraper configuration in scrape_urls.
+ * Single source of truth for every knob - parse once per run, defaults applied here.
+ * Strict at every level, so a misspelled key fails the parse instead of being ignored.
  */
 export const ScraperConfigSchema = z.object({
     filters: z.object({
         includeKeywords: z.array(z.string()).optional(),
         excludeKeywords: z.array(z.string()).optional(),
-    }).optional(),
+    }).strict().optional(),
     selectors: z.object({
         listContainer: z.string().optional(),
         jobLinks: z.string().optional(),
-    }).optional(),
+    }).strict().optional(),
     notes: z.string().optional(),
-});
+
+    // LIST phase
+    maxPages: z.number().int().positive().default(10),
+    maxScrolls: z.number().int().nonnegative().default(5),
+    pagination: z.object({
+        strategy: PaginationStrategySchema.default('auto'),
+        urlTemplate: z.string().optional().describe('url-template: listing URL with {page} or {offset}, e.g. "https://acme.com/jobs?page={page}"'),
+        firstPage: z.number().int().nonnegative().default(1).describe('url-template: {page} value of the first listing page'),
+        pageSize: z.number().int().positive().optional().describe('url-template: {offset} step between pages'),
+        selector: z.string().optional().describe('click / load-more: element to click instead of the built-in selectors'),
+    }).strict().optional().describe('How to move past the first listing page (auto-detected from the first page when omitted, see utils/scraping/pagination)'),
+    maxRoles: z.number().int().positive().nullable().default(null).describe('Cap on roles sent to the DETAIL phase (null = unlimited)'),
+    linkScoring: z.object({
+        acceptAt: z.number().default(7),
+        rejectBelow: z.number().default(0),
+    }).strict().optional().describe('Score links heuristically - accept high scorers without the LLM, drop low scorers (disabled when omitted, see utils/scraping/link-scorer)'),
+    ats: z.union([AtsProviderSchema, z.literal('none')]).optional().describe('Force an ATS adapter, or "none" to disable detection'),
+    jsonJobs: z.object({
+        path: z.string().optional(),
+        titleField: z.string().optional(),
+        urlField: z.string().optional(),
+        urlTemplate: z.string().optional(),
+    }).strict().optional(),
+
+    // LLM models - "provider:model" or a bare model ID (see utils/scraping/llm-registry).
+    // Unset means the LLM_<TASK>_MODEL env var or the registry default.
+    classificationModel: z.string().min(1).optional(),
+    extractionModel: z.string().min(1).optional(),
+    suggestionModel: z.string().min(1).optional(),
+
+    // Scheduling and lifecycle
+    scrapeIntervalHours: z.number().positive().default(24),
+    missedRunsBeforeClosed: z.number().int().positive().default(3),
+    refresh: z.object({
+        intervalHours: z.number().positive().default(168),
+        maxRolesPerRun: z.number().int().positive().default(20),
+    }).strict().optional().describe('Re-extract already-tracked open roles and draft UPDATED changes (disabled when omitted)'),
+
+    // LLM spend caps in USD - override the LLM_BUDGET_USD_* env defaults (see utils/scraping/budget-guard)
+    budget: z.object({
+        maxUsdPerRun: z.number().positive().optional(),
+        maxUsdPerFirmPerDay: z.number().positive().optional(),
+        maxUsdPerFirmPerMonth: z.number().positive().optional(),
+    }).strict().optional(),
+
+    // Save pages, links, LLM calls and extracted roles under SCRAPE_CAPTURE_DIR (see utils/scraping/snapshot-capture)
+    capture: z.boolean().default(false),
+}).strict();
 
 export type ScraperConfig = z.infer<typeof ScraperConfigSchema>;
 
+/**
+ * Config with every default applied (used when a scrape_url has no scraper_config)
+ */
+export const DEFAULT_SCRAPER_CONFIG: ScraperConfig = ScraperConfigSchema.parse({});
+
 /**
  * Schema for programme suggestion output from LLM
  */
@@ -155,11 +247,23 @@ export const SuggestProgrammeInputsSchema = z.object({
 export type SuggestProgrammeInputs = z.infer<typeof SuggestProgrammeInputsSchema>;
 
 /**
- * Schema for role action classification (skip, new, update, reopen)
+ * Schema for role action classification (skip, new, update, reopen, close)
  */
-export const RoleActionSchema = z.enum(['SKIP', 'NEW_ROLE', 'URL_CHANGED', 'REOPENING']);
+export const RoleActionSchema = z.enum(['SKIP', 'NEW_ROLE', 'URL_CHANGED', 'REOPENING', 'CLOSED', 'UPDATED']);
 export type RoleAction = z.infer<typeof RoleActionSchema>;
 
+/**
+ * A single field change detected when refreshing an already-tracked role.
+ * `field` is the program_roles column; values are as stored / as scraped.
+ */
+export const RoleFieldChangeSchema = z.object({
+    field: z.string(),
+    previous: z.unknown(),
+    current: z.unknown(),
+});
+
+export type RoleFieldChange = z.infer<typeof RoleFieldChangeSchema>;
+
 /**
  * Schema for a classified role link during exploration
  */
@@ -173,6 +277,45 @@ export const ClassifiedRoleLinkSchema = z.object({
 
 export type ClassifiedRoleLink = z.infer<typeof ClassifiedRoleLinkSchema>;
 
+/**
+ * LLM pricing for one model from an effective date (USD per million tokens).
+ * Loaded from utils/scraping/llm-pricing.json or the llm_pricing table.
+ */
+export const ModelPricingEntrySchema = z.object({
+    provider: z.enum(['openai', 'anthropic']),
+    model: z.string().min(1), // Bare model ID - dated snapshots (gpt-4o-mini-2024-07-18) match their base
+    input_per_million: z.number().nonnegative(),
+    output_per_million: z.number().nonnegative(), // Reasoning tokens are billed as output
+    cached_input_per_million: z.number().nonnegative(),
+    effective_from: z.string().regex(/^\d{4}-\d{2}-\d{2}/), // Applies to usage on or after this date
+});
+
+export type ModelPricingEntry = z.infer<typeof ModelPricingEntrySchema>;
+
+/**
+ * LLM usage and cost for one (task, model) pair in a scrape run
+ */
+export const LlmUsageEntrySchema = z.object({
+    task: z.string().nullable(),
+    model: z.string(), // "provider:model"
+    calls: z.number(),
+    prompt_tokens: z.number(),
+    completion_tokens: z.number(),
+    cached_input_tokens: z.number(),
+    reasoning_tokens: z.number(),
+    total_tokens: z.number(),
+    cost_usd: z.number().nullable(), // null when the model has no pricing entry
+});
+
+export type LlmUsageEntry = z.infer<typeof LlmUsageEntrySchema>;
+
+/**
+ * Why a run stopped before processing everything it found
+ */
+export const ScrapeStopReasonSchema = z.enum(['budget_exceeded']);
+
+export type ScrapeStopReason = z.infer<typeof ScrapeStopReasonSchema>;
+
 /**
  * Schema for metrics tracked per scrape job
  */
@@ -182,10 +325,17 @@ export const ScrapeMetricsSchema = z.object({
     roles_new: z.number(),
     roles_url_changed: z.number(),
     roles_reopened: z.number(),
+    roles_closed: z.number().optional(),
+    roles_refreshed: z.number().optional(),
+    roles_updated: z.number().optional(),
+    cache_hits: z.number().optional(),
     total_tokens_used: z.number(),
     total_cost_usd: z.number(),
     duration_seconds: z.number(),
     success_rate: z.number().optional(),
+    stop_reason: ScrapeStopReasonSchema.optional(), // Set when the run stopped early - metrics are partial
+    unpriced_models: z.array(z.string()).optional(), // Models whose usage is excluded from total_cost_usd
+    llm_usage: z.array(LlmUsageEntrySchema).optional(),
 });
 
 export type ScrapeMetrics = z.infer<typeof ScrapeMetricsSchema>;
@@ -0,0 +1,30 @@
+import path from "path";
+import { buildFixtureFromCapture } from "../utils/scraping/replay/capture-fixture";
+
+// Turns a LIST snapshot capture (scraper_config.capture) into a replay fixture.
+// Usage: npx tsx src/capture-to-fixture.ts <list-capture-dir> <fixture-name>
+// The fixture is written to utils/scraping/replay/fixtures/<fixture-name> - run it with `npm run test:replay`.
+const FIXTURES_ROOT = path.join(__dirname, "../utils/scraping/replay/fixtures");
+
+async function main() {
+    const [captureDir, fixtureName] = process.argv.slice(2);
+
+    if (!captureDir || !fixtureName) {
+        console.error("Usage: npx tsx src/capture-to-fixture.ts <list-capture-dir> <fixture-name>");
+        process.exitCode = 1;
+        return;
+    }
+
+    const result = await buildFixtureFromCapture(captureDir, path.join(FIXTURES_ROOT, fixtureName), fixtureName);
+
+    console.log(`✓ Wrote ${result.dir} (${result.roles} roles)`);
+    if (result.missingDetails.length > 0) {
+        console.log(`    no DETAIL capture for: ${result.missingDetails.join(", ")}`);
+    }
+    console.log("    tables start empty - seed program_roles if the live run skipped roles the firm already tracks");
+}
+
+main().catch(error => {
+    console.error(error);
+    process.exitCode = 1;
+});
@@ -0,0 +1,325 @@
+#!/usr/bin/env node
+import * as dotenv from "dotenv";
+dotenv.config({ quiet: true });
+dotenv.config({ path: ".env.local", override: true, quiet: true });
+
+import { readFile } from "fs/promises";
+import { parseArgs } from "util";
+import { createClient } from "@supabase/supabase-js";
+import { runListPhase, type ListPhaseResult } from "../utils/scraping/list-phase";
+import { runDetailPhase, runDetailPhaseBatch, type DetailPhaseInput, type DetailPhaseResult } from "../utils/scraping/detail-phase";
+import { mergeUsageBreakdowns, type UsageBreakdownEntry } from "../utils/scraping/cost-calculator";
+import { loadPricing } from "../utils/scraping/pricing-registry";
+import { resolveLlmBudget, resolveRunBudget } from "../utils/scraping/budget-guard";
+import { ScraperConfigSchema, RoleActionSchema, type ScraperConfig } from "../packages/schemas/careers-scraping";
+
+// Runs the LIST/DETAIL phases locally against a live URL - no Trigger.dev.
+// Phase logs go to stderr, results to stdout (so --format json can be piped).
+const USAGE = `Usage: commence-worker <command> [options]
+
+Commands:
+  list <url>                Scan a listing page and classify its job links
+  detail <url>              Extract one role page and suggest its programme
+  explore <scrapeUrlId>     LIST + DETAIL for a configured scrape URL (no ledger or scrape_urls metrics)
+
+Options:
+  --firm <id|slug>          Firm to run as (required for list/detail)
+  --config <file.json>      scraper_config JSON (merged over the scrape URL's config for explore)
+  --model <spec>            Model for every LLM task, e.g. anthropic:claude-haiku-4-5
+  --title <title>           detail: role title as shown on the listing
+  --action <action>         detail: NEW_ROLE (default), UPDATED, ...
+  --dry-run                 Read the database but write nothing - would-be drafts are printed instead
+  --format <table|json>     Output format (default: table)
+  -h, --help                Show this help`;
+
+interface Firm {
+    id: string;
+    name: string;
+    slug: string;
+}
+
+interface ExistingProgramme {
+    id: string;
+    name: string;
+    normalized_name: string | null;
+    program_type: string;
+}
+
+interface CliReport {
+    command: string;
+    list?: ListPhaseResult;
+    dryRun: boolean;
+    details: DetailPhaseResult[];
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function getSupabase() {
+    return createClient(
+        process.env.NEXT_PUBLIC_SUPABASE_URL!,
+        process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+}
+
+async function loadFirm(idOrSlug: string): Promise<Firm> {
+    const { data, error } = await getSupabase()
+        .from("firms")
+        .select("id, name, slug")
+        .eq(UUID_PATTERN.test(idOrSlug) ? "id" : "slug", idOrSlug)
+        .single();
+
+    if (error || !data) {
+        throw new Error(`Firm "${idOrSlug}" not found: ${error?.message}`);
+    }
+    return data;
+}
+
+async function loadExistingProgrammes(firmId: string): Promise<ExistingProgramme[]> {
+    const { data } = await getSupabase()
+        .from("programs")
+        .select("id, name, normalized_name, program_type")
+        .eq("firm_id", firmId);
+
+    return data || [];
+}
+
+/**
+ * Parse scraper_config from the base config, the --config file and --model
+ */
+async function buildScraperConfig(base: Record<string, unknown> | null, configFile?: string, model?: string): Promise<ScraperConfig> {
+    const fileConfig = configFile ? JSON.parse(await readFile(configFile, "utf8")) : {};
+    const modelConfig = model ? { classificationModel: model, extractionModel: model, suggestionModel: model } : {};
+
+    const parsed = ScraperConfigSchema.safeParse({ ...(base ?? {}), ...fileConfig, ...modelConfig });
+    if (!parsed.success) {
+        const issues = parsed.error.issues.map(issue => `${issue.path.join(".") || "(root)"}: ${issue.message}`).join("; ");
+        throw new Error(`Invalid scraper_config: ${issues}`);
+    }
+    return parsed.data;
+}
+
+async function runBudgetFor(firmId: string, scraperConfig: ScraperConfig): Promise<number | null> {
+    const runBudget = await resolveRunBudget(firmId, resolveLlmBudget(scraperConfig.budget));
+    if (runBudget.limitUsd !== null) {
+        console.error(`LLM budget for run: $${runBudget.limitUsd.toFixed(4)} (limited by ${runBudget.limitedBy})`);
+    }
+    return runBudget.limitUsd;
+}
+
+function truncate(value: string, length: number): string {
+    return value.length > length ? `${value.slice(0, length - 1)}…` : value;
+}
+
+function printTable(rows: Array<Record<string, string>>): void {
+    if (rows.length === 0) {
+        console.log("(none)");
+        return;
+    }
+
+    const columns = Object.keys(rows[0]);
+    const widths = columns.map(column => Math.max(column.length, ...rows.map(row => row[column].length)));
+    const formatRow = (cells: string[]) => cells.map((cell, index) => cell.padEnd(widths[index])).join("  ").trimEnd();
+
+    console.log(formatRow(columns));
+    console.log(formatRow(widths.map(width => "-".repeat(width))));
+    rows.forEach(row => console.log(formatRow(columns.map(column => row[column]))));
+}
+
+function printReport(report: CliReport): void {
+    if (report.list) {
+        const { metrics } = report.list;
+        console.log(`\nLIST: ${report.list.success ? "ok" : `failed - ${report.list.error}`}${report.list.stopReason ? ` (stopped: ${report.list.stopReason})` : ""}`);
+        console.log(`${metrics.pagesProcessed} page(s), ${metrics.rolesFound} roles found, ${metrics.rolesSkipped} skipped, ${report.list.collectedLinks.length} collected\n`);
+        printTable(report.list.collectedLinks.map(link => ({
+            action: link.action,
+            title: truncate(link.title, 50),
+            url: truncate(link.url, 80),
+        })));
+    }
+
+    if (report.details.length > 0) {
+        console.log(`\nDETAIL: ${report.details.filter(result => result.success).length}/${report.details.length} succeeded\n`);
+        printTable(report.details.map(result => ({
+            status: result.success ? "ok" : result.stopReason ?? "failed",
+            title: truncate(result.scrapedRole?.title ?? result.title ?? "", 40),
+            type: result.scrapedRole?.program_type ?? "",
+            role: result.scrapedRole?.role_type ?? "",
+            location: truncate(result.scrapedRole?.location ?? "", 20),
+            deadline: result.scrapedRole?.deadline ?? "",
+            open: result.scrapedRole?.is_open === null || result.scrapedRole?.is_open === undefined ? "" : String(result.scrapedRole.is_open),
+            programme: truncate(result.programmeName ?? result.error ?? "", 40),
+        })));
+    }
+
+    if (report.dryRun) {
+        const programmeDrafts = report.details.flatMap(result => result.drafts?.programme ? [result.drafts.programme] : []);
+        const roleDrafts = report.details.flatMap(result => result.drafts ? [result.drafts.role] : []);
+        console.log(`\nDRY RUN - nothing written. Would have saved ${programmeDrafts.length} programme draft(s), ${roleDrafts.length} role draft(s):\n`);
+        printTable([
+            ...programmeDrafts.map(draft => ({ draft: "programme", name: String(draft.suggested_name), type: String(draft.program_type ?? ""), url: "" })),
+            ...roleDrafts.map(draft => ({
+                draft: `role (${draft.update_type ?? "-"})`,
+                name: truncate(String((draft.scraped_data as { title?: string } | null)?.title ?? ""), 50),
+                type: String((draft.scraped_data as { program_type?: string } | null)?.program_type ?? ""),
+                url: truncate(String(draft.url), 80),
+            })),
+        ]);
+    }
+
+    const usage: UsageBreakdownEntry[] = mergeUsageBreakdowns(
+        report.list?.metrics.llmUsage ?? [],
+        ...report.details.map(result => result.metrics.llmUsage ?? [])
+    );
+    const totalCost = (report.list?.metrics.totalCostUsd ?? 0) + report.details.reduce((sum, result) => sum + result.metrics.totalCostUsd, 0);
+
+    console.log(`\nCOST: $${totalCost.toFixed(4)}\n`);
+    printTable(usage.map(entry => ({
+        task: entry.task ?? "unknown",
+        model: entry.model,
+        calls: String(entry.calls),
+        tokens: entry.totalTokens.toLocaleString(),
+        cost: entry.costUsd === null ? "unpriced" : `$${entry.costUsd.toFixed(4)}`,
+    })));
+}
+
+async function main() {
+    const { values, positionals } = parseArgs({
+        allowPositionals: true,
+        options: {
+            firm: { type: "string" },
+            config: { type: "string" },
+            model: { type: "string" },
+            title: { type: "string" },
+            action: { type: "string" },
+            "dry-run": { type: "boolean", default: false },
+            format: { type: "string", default: "table" },
+            help: { type: "boolean", short: "h", default: false },
+        },
+    });
+
+    const [command, target] = positionals;
+    if (values.help || !command || !target || !["list", "detail", "explore"].includes(command)) {
+        console.log(USAGE);
+        process.exitCode = values.help ? 0 : 1;
+        return;
+    }
+    if (values.format !== "table" && values.format !== "json") {
+        throw new Error(`--format must be table or json, got "${values.format}"`);
+    }
+    if (command !== "explore" && !values.firm) {
+        throw new Error(`${command} needs --firm <id|slug>`);
+    }
+
+    await loadPricing();
+
+    // Phase logs → stderr so stdout carries only the report
+    const originalLog = console.log;
+    console.log = (...args: unknown[]) => console.error(...args);
+
+    const dryRun = values["dry-run"];
+    const report: CliReport = { command, dryRun, details: [] };
+
+    try {
+        if (command === "explore") {
+            const { data: scrapeUrl, error } = await getSupabase()
+                .from("scrape_urls")
+                .select("id, url, firm_id, expected_programmes, scraper_config")
+                .eq("id", target)
+                .single();
+
+            if (error || !scrapeUrl) {
+                throw new Error(`Failed to fetch scrape URL ${target}: ${error?.message}`);
+            }
+
+            const firm = await loadFirm(values.firm ?? scrapeUrl.firm_id);
+            const scraperConfig = await buildScraperConfig(scrapeUrl.scraper_config, values.config, values.model);
+            const budgetUsd = await runBudgetFor(firm.id, scraperConfig);
+
+            report.list = await runListPhase({
+                scrapeUrlId: scrapeUrl.id,
+                url: scrapeUrl.url,
+                firmId: firm.id,
+                firmName: firm.name,
+                firmSlug: firm.slug,
+                scraperConfig,
+                budgetUsd,
+                dryRun,
+            });
+
+            if (report.list.success && !report.list.stopReason && report.list.collectedLinks.length > 0) {
+                const existingProgrammes = await loadExistingProgrammes(firm.id);
+                const allRolesInScan = report.list.allRolesInScan;
+                report.details = await runDetailPhaseBatch(report.list.collectedLinks.map(link => ({
+                    url: link.url,
+                    title: link.title,
+                    action: link.action,
+                    existingRoleId: link.existingRoleId,
+                    firmId: firm.id,
+                    firmName: firm.name,
+                    firmSlug: firm.slug,
+                    scrapeUrlId: scrapeUrl.id,
+                    expectedProgrammes: scrapeUrl.expected_programmes || [],
+                    existingProgrammes,
+                    allRolesInScan,
+                    scraperConfig,
+                    ats: link.ats,
+                    listing: link.listing,
+                })), {
+                    budgetUsd: budgetUsd === null ? null : Math.max(budgetUsd - report.list.metrics.totalCostUsd, 0),
+                    dryRun,
+                });
+            }
+        } else {
+            const firm = await loadFirm(values.firm!);
+            const scraperConfig = await buildScraperConfig({}, values.config, values.model);
+            const budgetUsd = await runBudgetFor(firm.id, scraperConfig);
+
+            if (command === "list") {
+                report.list = await runListPhase({
+                    scrapeUrlId: "manual-test",
+                    url: target,
+                    firmId: firm.id,
+                    firmName: firm.name,
+                    firmSlug: firm.slug,
+                    scraperConfig,
+                    budgetUsd,
+                    dryRun,
+                });
+            } else {
+                const input: DetailPhaseInput = {
+                    url: target,
+                    title: values.title ?? "",
+                    action: RoleActionSchema.parse(values.action ?? "NEW_ROLE"),
+                    firmId: firm.id,
+                    firmName: firm.name,
+                    firmSlug: firm.slug,
+                    scrapeUrlId: "manual-test",
+                    expectedProgrammes: [],
+                    existingProgrammes: await loadExistingProgrammes(firm.id),
+                    allRolesInScan: values.title ? [{ title: values.title, url: target }] : [],
+                    scraperConfig,
+                };
+                report.details = [await runDetailPhase(input, { budgetUsd, dryRun })];
+            }
+        }
+    } finally {
+        console.log = originalLog;
+    }
+
+    if (values.format === "json") {
+        // Logs already went to stderr
+        console.log(JSON.stringify(report, (key, value) => key === "logs" ? undefined : value, 2));
+    } else {
+        printReport(report);
+    }
+
+    const failed = (report.list && !report.list.success) || report.details.some(result => !result.success && !result.stopReason);
+    if (failed) {
+        process.exitCode = 1;
+    }
+}
+
+main().catch(error => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+});
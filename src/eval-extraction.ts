@@ -0,0 +1,51 @@
+import * as dotenv from 'dotenv';
+dotenv.config();
+dotenv.config({ path: '.env.local', override: true });
+
+import { writeFile } from "fs/promises";
+import { loadPricing } from "../utils/scraping/pricing-registry";
+import { loadEvalDataset } from "../utils/scraping/eval/dataset";
+import { loadEvalConfig, runEval } from "../utils/scraping/eval/runner";
+import { compareEvalRuns, formatComparisonReport, formatEvalRun } from "../utils/scraping/eval/report";
+
+// Scores extraction + programme suggestion against a golden dataset (live LLM calls, no database).
+// Usage: npx tsx src/eval-extraction.ts <dataset-dir> <config-a> [config-b] [--out report.md]
+// A config is a JSON file (see utils/scraping/eval/runner) or a bare model spec like "openai:gpt-4o-mini".
+async function main() {
+    const args = process.argv.slice(2);
+    const outIndex = args.indexOf("--out");
+    const outFile = outIndex >= 0 ? args[outIndex + 1] : undefined;
+    const [datasetDir, ...configSources] = args.filter((_, index) => outIndex < 0 || (index !== outIndex && index !== outIndex + 1));
+
+    if (!datasetDir || configSources.length === 0 || configSources.length > 2) {
+        console.error("Usage: npx tsx src/eval-extraction.ts <dataset-dir> <config-a> [config-b] [--out report.md]");
+        process.exitCode = 1;
+        return;
+    }
+
+    await loadPricing();
+    const dataset = await loadEvalDataset(datasetDir);
+    const configs = await Promise.all(configSources.map(loadEvalConfig));
+
+    const runs = [];
+    for (const config of configs) {
+        runs.push(await runEval(dataset, config));
+    }
+
+    const report = runs.length === 2
+        ? formatComparisonReport(compareEvalRuns(runs[0], runs[1]))
+        : formatEvalRun(runs[0]);
+
+    console.log(`\n${report}`);
+
+    if (outFile) {
+        await writeFile(outFile, `${report}\n`, "utf8");
+        await writeFile(outFile.replace(/\.md$/, "") + ".json", JSON.stringify(runs, null, 2), "utf8");
+        console.log(`\nReport written to ${outFile}`);
+    }
+}
+
+main().catch(error => {
+    console.error(error);
+    process.exitCode = 1;
+});
@@ -1,7 +1,9 @@
 import "dotenv/config";
 import { discoveryFlowTask } from "./trigger/discovery-flow";
+import { scheduledDiscoveryTask } from "./trigger/scheduled-discovery";
 
 // Entry point - registers tasks with Trigger.dev
 console.log("Worker initialized with tasks:", {
     discoveryFlow: discoveryFlowTask.id,
+    scheduledDiscovery: scheduledDiscoveryTask.id,
 });
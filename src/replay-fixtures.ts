@@ -0,0 +1,53 @@
+import { existsSync } from "fs";
+import path from "path";
+import { chromium } from "playwright";
+import { loadReplayFixture, listReplayFixtures } from "../utils/scraping/replay/fixtures";
+import { runReplay, checkReplayExpectations } from "../utils/scraping/replay/harness";
+
+// Replays recorded fixtures offline (no network, LLM or Supabase).
+// Usage: npx tsx src/replay-fixtures.ts [fixture-dir ...]
+const FIXTURES_ROOT = path.join(__dirname, "../utils/scraping/replay/fixtures");
+
+async function main() {
+    // Replays drive a real (local) Chromium - say so instead of failing on the first launch
+    if (!existsSync(chromium.executablePath())) {
+        console.error(`✗ Chromium is not installed (${chromium.executablePath()})`);
+        console.error("    Replay fixtures run the real list/detail phases in a local browser - install it with `npx playwright install chromium`");
+        process.exitCode = 1;
+        return;
+    }
+
+    const dirs = process.argv.length > 2
+        ? process.argv.slice(2)
+        : await listReplayFixtures(FIXTURES_ROOT);
+
+    let failed = 0;
+
+    for (const dir of dirs) {
+        const fixture = await loadReplayFixture(dir);
+        const run = await runReplay(fixture);
+        const mismatches = checkReplayExpectations(run);
+
+        if (mismatches.length === 0) {
+            console.log(`✓ ${fixture.name} (${run.llmCalls.length} LLM calls)`);
+        } else {
+            failed++;
+            console.log(`✗ ${fixture.name}`);
+            mismatches.forEach(mismatch => console.log(`    ${mismatch}`));
+        }
+
+        if (run.blockedRequests.length > 0) {
+            console.log(`    blocked (not recorded): ${run.blockedRequests.join(", ")}`);
+        }
+    }
+
+    console.log(`\n${dirs.length - failed}/${dirs.length} fixtures passed`);
+    if (failed > 0) {
+        process.exitCode = 1;
+    }
+}
+
+main().catch(error => {
+    console.error(error);
+    process.exitCode = 1;
+});
@@ -1,11 +1,74 @@
 import { task, logger } from "@trigger.dev/sdk/v3";
 import { createClient } from "@supabase/supabase-js";
-import { runListPhase } from "../../utils/scraping/list-phase";
-import { runDetailPhase, runDetailPhaseBatch, DetailPhaseInput } from "../../utils/scraping/detail-phase";
+import { runListPhase, type ListPhaseResult } from "../../utils/scraping/list-phase";
+import { runDetailPhase, runDetailPhaseBatch, DetailPhaseInput, DetailPhaseResult } from "../../utils/scraping/detail-phase";
 import { updateScrapeUrlMetrics } from "../../utils/scraping/save-discoveries";
+import { loadExistingRoles } from "../../utils/scraping/existing-role-checker";
+import { runClosedRolePass, ClosedRoleDraft } from "../../utils/scraping/closed-role-detector";
+import { aggregateScrapeMetrics } from "../../utils/scraping/metrics-aggregator";
+import { createScrapeRun, completeScrapeRun, saveScrapeRunItems } from "../../utils/scraping/run-ledger";
+import { loadPricing } from "../../utils/scraping/pricing-registry";
+import { resolveLlmBudget, resolveRunBudget } from "../../utils/scraping/budget-guard";
+import { ScraperConfigSchema } from "../../packages/schemas/careers-scraping";
+
+/**
+ * Gather a dry run's would-be drafts from the detail results and the closed-role pass
+ */
+function collectDryRunDrafts(detailResults: DetailPhaseResult[], closedDrafts: ClosedRoleDraft[]) {
+    return {
+        programmes: detailResults.flatMap(result => result.drafts?.programme ? [result.drafts.programme] : []),
+        roles: [
+            ...detailResults.flatMap(result => result.drafts ? [result.drafts.role] : []),
+            ...closedDrafts.flatMap(draft => draft.draft ? [draft.draft] : []),
+        ],
+    };
+}
+
+/**
+ * Record a run that failed without writing its outcome to scrape_urls (crawler crash,
+ * timeout, unexpected throw) so last_scraped_at moves on and the scheduler backs off.
+ * Failures the run recorded itself (invalid config, LIST failure) aren't counted twice.
+ */
+async function recordUnrecordedFailure(scrapeUrlId: string, runStartedAt: Date, error: unknown) {
+    const supabase = createClient(
+        process.env.NEXT_PUBLIC_SUPABASE_URL!,
+        process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+
+    const { data: scrapeUrl } = await supabase
+        .from("scrape_urls")
+        .select("last_scraped_at")
+        .eq("id", scrapeUrlId)
+        .single();
+
+    if (scrapeUrl?.last_scraped_at && new Date(scrapeUrl.last_scraped_at).getTime() >= runStartedAt.getTime()) {
+        return;
+    }
+
+    await updateScrapeUrlMetrics({
+        scrapeUrlId,
+        metrics: {
+            roles_found: 0,
+            roles_skipped: 0,
+            roles_new: 0,
+            roles_url_changed: 0,
+            roles_reopened: 0,
+            total_tokens_used: 0,
+            total_cost_usd: 0,
+            duration_seconds: (Date.now() - runStartedAt.getTime()) / 1000,
+            success_rate: 0,
+        },
+        error: error instanceof Error ? error.message : String(error),
+    });
+}
 
 // ============================================================
-// Task 1: Discovery Flow - scans listing pages, fans out to detail tasks
+// Task 1: Discovery Flow - scans listing pages, fans out to detail tasks,
+//         then writes the aggregated run metrics back to scrape_urls.
+//         With dryRun nothing is written (no ledger, metrics or drafts) -
+//         the would-be drafts come back in the output instead.
+//         A run that fails without recording its outcome is recorded
+//         in onFailure, once retries are exhausted.
 // ============================================================
 export const discoveryFlowTask = task({
     id: "discovery-flow",
@@ -14,8 +77,13 @@ export const discoveryFlowTask = task({
         name: "scraping-queue",
         concurrencyLimit: 3,
     },
-    run: async (payload: { scrapeUrlId: string }) => {
-        const { scrapeUrlId } = payload;
+    run: async (payload: { scrapeUrlId: string; dryRun?: boolean }, { ctx }) => {
+        const { scrapeUrlId, dryRun = false } = payload;
+        const startTime = Date.now();
+
+        const recordScrapeUrlMetrics = async (data: Parameters<typeof updateScrapeUrlMetrics>[0]) => {
+            if (!dryRun) await updateScrapeUrlMetrics(data);
+        };
 
         const supabase = createClient(
             process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -33,6 +101,34 @@ export const discoveryFlowTask = task({
             throw new Error(`Failed to fetch scrape URL ${scrapeUrlId}: ${scrapeUrlError?.message}`);
         }
 
+        // Parse scraper_config once - everything downstream gets the typed config with defaults applied
+        const parsedConfig = ScraperConfigSchema.safeParse(scrapeUrl.scraper_config ?? {});
+        if (!parsedConfig.success) {
+            const issues = parsedConfig.error.issues
+                .map(issue => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+                .join("; ");
+            const error = `Invalid scraper_config for scrape_url ${scrapeUrl.id} (${scrapeUrl.url}): ${issues}`;
+
+            // Record the failure so the scheduler backs off until the config is fixed
+            await recordScrapeUrlMetrics({
+                scrapeUrlId: scrapeUrl.id,
+                metrics: {
+                    roles_found: 0,
+                    roles_skipped: 0,
+                    roles_new: 0,
+                    roles_url_changed: 0,
+                    roles_reopened: 0,
+                    total_tokens_used: 0,
+                    total_cost_usd: 0,
+                    duration_seconds: (Date.now() - startTime) / 1000,
+                    success_rate: 0,
+                },
+                error,
+            });
+            throw new Error(error);
+        }
+        const scraperConfig = parsedConfig.data;
+
         const { data: firm, error: firmError } = await supabase
             .from("firms")
             .select("id, name, slug")
@@ -49,60 +145,232 @@ export const discoveryFlowTask = task({
             .eq("firm_id", scrapeUrl.firm_id);
 
 
-        // Phase 1: Scan listing pages, collect role links
-        logger.info(`Starting discovery for ${firm.name}`, { url: scrapeUrl.url });
+        await loadPricing();
 
-        const listResult = await runListPhase({
+        // LLM allowance for the whole run - the tightest of the per-run, firm day/month and global budgets
+        const runBudget = await resolveRunBudget(scrapeUrl.firm_id, resolveLlmBudget(scraperConfig.budget));
+        if (runBudget.limitUsd !== null) {
+            logger.info(`LLM budget for run: $${runBudget.limitUsd.toFixed(4)} (limited by ${runBudget.limitedBy})`);
+        }
+
+        // Open a ledger entry - every exit path below closes it (dry runs aren't recorded).
+        // Its budget_usd reserves a bounded share of the allowance against the firm/global budgets while in flight.
+        const scrapeRun = dryRun ? null : await createScrapeRun({
             scrapeUrlId: scrapeUrl.id,
-            url: scrapeUrl.url,
             firmId: scrapeUrl.firm_id,
-            firmName: firm.name,
-            scraperConfig: scrapeUrl.scraper_config || {},
+            triggerRunId: ctx.run.id,
+            attempt: ctx.attempt.number,
+            budgetUsd: runBudget.reservedUsd,
         });
+        const runLogs: string[] = [];
+
+        // What the run has produced so far - a failed run still records the spend it incurred
+        let listResultSoFar: ListPhaseResult | null = null;
+        let detailResultsSoFar: DetailPhaseResult[] = [];
+
+        try {
+
+            // Phase 1: Scan listing pages, collect role links
+            logger.info(`Starting discovery for ${firm.name}${dryRun ? " (dry run)" : ""}`, { url: scrapeUrl.url });
+
+            const listResult = await runListPhase({
+                scrapeUrlId: scrapeUrl.id,
+                url: scrapeUrl.url,
+                firmId: scrapeUrl.firm_id,
+                firmName: firm.name,
+                firmSlug: firm.slug,
+                scraperConfig,
+                budgetUsd: runBudget.limitUsd,
+                dryRun,
+            });
+            runLogs.push(...listResult.logs);
+            listResultSoFar = listResult;
+
+            if (!listResult.success) {
+                // Record the failure so the scheduler backs off this URL
+                await recordScrapeUrlMetrics({
+                    scrapeUrlId: scrapeUrl.id,
+                    metrics: {
+                        ...aggregateScrapeMetrics({
+                            listResult,
+                            detailResults: [],
+                            durationSeconds: (Date.now() - startTime) / 1000,
+                        }),
+                        success_rate: 0,
+                    },
+                    error: listResult.error,
+                });
+                throw new Error(`LIST phase failed: ${listResult.error}`);
+            }
+
+            // Budget ran out mid-scan: the listing is partial, so skip the closed-role pass and extraction
+            if (listResult.stopReason === "budget_exceeded") {
+                logger.warn(`LLM budget exceeded during LIST phase - saving partial result`);
+                const metrics = aggregateScrapeMetrics({
+                    listResult,
+                    detailResults: [],
+                    durationSeconds: (Date.now() - startTime) / 1000,
+                });
+
+                await recordScrapeUrlMetrics({ scrapeUrlId: scrapeUrl.id, metrics });
+                if (scrapeRun) {
+                    await completeScrapeRun({ scrapeRunId: scrapeRun.id, status: "succeeded", metrics, logs: runLogs });
+                }
+                return { firmName: firm.name, rolesFound: listResult.collectedLinks.length, stopReason: listResult.stopReason, metrics };
+            }
+
+            // Phase 1b: Flag roles that have disappeared from the listing
+            const existingRoles = await loadExistingRoles(scrapeUrl.firm_id);
+            const closedPass = await runClosedRolePass({
+                listingUrl: scrapeUrl.url,
+                firmId: scrapeUrl.firm_id,
+                existingRoles,
+                allRolesInScan: listResult.allRolesInScan,
+                scanTruncatedBy: listResult.scanTruncatedBy,
+                missedRunsBeforeClosed: scraperConfig.missedRunsBeforeClosed,
+                dryRun,
+            });
+            runLogs.push(...closedPass.logs);
+
+            if (closedPass.closedDrafts.length > 0) {
+                logger.info(`${dryRun ? "Would queue" : "Queued"} ${closedPass.closedDrafts.length} CLOSED drafts`, {
+                    roles: closedPass.closedDrafts.map(d => ({ title: d.title, url: d.url })),
+                });
+            }
+
+            if (listResult.collectedLinks.length === 0) {
+                logger.info("No new roles found");
+                const metrics = aggregateScrapeMetrics({
+                    listResult,
+                    detailResults: [],
+                    rolesClosed: closedPass.closedDrafts.length,
+                    durationSeconds: (Date.now() - startTime) / 1000,
+                });
+
+                await recordScrapeUrlMetrics({ scrapeUrlId: scrapeUrl.id, metrics });
+                if (scrapeRun) {
+                    await completeScrapeRun({ scrapeRunId: scrapeRun.id, status: "succeeded", metrics, logs: runLogs });
+                }
+                return {
+                    firmName: firm.name,
+                    rolesFound: 0,
+                    rolesClosed: closedPass.closedDrafts.length,
+                    drafts: dryRun ? collectDryRunDrafts([], closedPass.closedDrafts) : undefined,
+                };
+            }
+
+            // Phase 2: Chunk URLs into batches and fan out — one Chromium per chunk
+            const CHUNK_SIZE = 10;
+            const chunks: (typeof listResult.collectedLinks)[] = [];
+            for (let i = 0; i < listResult.collectedLinks.length; i += CHUNK_SIZE) {
+                chunks.push(listResult.collectedLinks.slice(i, i + CHUNK_SIZE));
+            }
+
+            // Chunks run concurrently, so each gets an equal share of what's left of the run budget
+            const remainingBudgetUsd = runBudget.limitUsd === null
+                ? null
+                : Math.max(runBudget.limitUsd - listResult.metrics.totalCostUsd, 0);
+            const chunkBudgetUsd = remainingBudgetUsd === null ? null : remainingBudgetUsd / chunks.length;
+
+            // Wait for every chunk so the run's metrics can be written back to scrape_urls
+            const batch = await roleExtractionBatchTask.batchTriggerAndWait(
+                chunks.map(chunk => ({
+                    payload: {
+                        budgetUsd: chunkBudgetUsd,
+                        dryRun,
+                        roles: chunk.map(link => ({
+                            url: link.url,
+                            title: link.title,
+                            action: link.action,
+                            existingRoleId: link.existingRoleId,
+                            firmId: scrapeUrl.firm_id,
+                            firmName: firm.name,
+                            firmSlug: firm.slug,
+                            scrapeUrlId: scrapeUrl.id,
+                            expectedProgrammes: scrapeUrl.expected_programmes || [],
+                            existingProgrammes: existingProgrammes || [],
+                            allRolesInScan: listResult.allRolesInScan,
+                            scraperConfig,
+                            ats: link.ats,
+                            listing: link.listing,
+                        })),
+                    },
+                }))
+            );
+
+            // Phase 3: Aggregate chunk results - a failed chunk counts every role in it as failed
+            const detailResults: DetailPhaseResult[] = batch.runs.flatMap((run, index) => {
+                if (run.ok) {
+                    return run.output;
+                }
+
+                const errorMessage = run.error instanceof Error ? run.error.message : String(run.error);
+                return chunks[index].map(link => ({
+                    success: false,
+                    url: link.url,
+                    metrics: { totalTokensUsed: 0, totalCostUsd: 0, durationSeconds: 0 },
+                    error: `Batch run ${run.id} failed: ${errorMessage}`,
+                    logs: [],
+                }));
+            });
 
-        if (!listResult.success) {
-            throw new Error(`LIST phase failed: ${listResult.error}`);
-        }
-
-        if (listResult.collectedLinks.length === 0) {
-            logger.info("No new roles found");
-            return { firmName: firm.name, rolesFound: 0 };
-        }
+            detailResultsSoFar = detailResults;
 
-        // Phase 2: Chunk URLs into batches and fan out — one Chromium per chunk
-        const CHUNK_SIZE = 10;
-        const chunks: (typeof listResult.collectedLinks)[] = [];
-        for (let i = 0; i < listResult.collectedLinks.length; i += CHUNK_SIZE) {
-            chunks.push(listResult.collectedLinks.slice(i, i + CHUNK_SIZE));
-        }
+            const metrics = aggregateScrapeMetrics({
+                listResult,
+                detailResults,
+                rolesClosed: closedPass.closedDrafts.length,
+                durationSeconds: (Date.now() - startTime) / 1000,
+            });
 
-        const batch = await roleExtractionBatchTask.batchTrigger(
-            chunks.map(chunk => ({
-                payload: {
-                    roles: chunk.map(link => ({
-                        url: link.url,
-                        title: link.title,
-                        action: link.action,
-                        existingRoleId: link.existingRoleId,
-                        firmId: scrapeUrl.firm_id,
-                        firmName: firm.name,
-                        firmSlug: firm.slug,
-                        scrapeUrlId: scrapeUrl.id,
-                        expectedProgrammes: scrapeUrl.expected_programmes || [],
-                        existingProgrammes: existingProgrammes || [],
-                        allRolesInScan: listResult.allRolesInScan,
-                        scraperConfig: scrapeUrl.scraper_config || {},
-                    })),
-                },
-            }))
-        );
+            await recordScrapeUrlMetrics({
+                scrapeUrlId: scrapeUrl.id,
+                metrics,
+            });
 
-        return {
-            firmName: firm.name,
-            rolesFound: listResult.collectedLinks.length,
-            chunks: chunks.length,
-            batchId: batch.batchId,
-        };
+            if (scrapeRun) {
+                await saveScrapeRunItems({
+                    scrapeRunId: scrapeRun.id,
+                    collectedLinks: listResult.collectedLinks,
+                    detailResults,
+                });
+                await completeScrapeRun({ scrapeRunId: scrapeRun.id, status: "succeeded", metrics, logs: runLogs });
+            }
+
+            logger.info(`✅ Discovery complete for ${firm.name}`, { metrics });
+
+            return {
+                firmName: firm.name,
+                rolesFound: listResult.collectedLinks.length,
+                rolesClosed: closedPass.closedDrafts.length,
+                chunks: chunks.length,
+                batchId: batch.id,
+                scrapeRunId: scrapeRun?.id,
+                metrics,
+                drafts: dryRun ? collectDryRunDrafts(detailResults, closedPass.closedDrafts) : undefined,
+            };
+        } catch (error) {
+            if (scrapeRun) {
+                await completeScrapeRun({
+                    scrapeRunId: scrapeRun.id,
+                    status: "failed",
+                    metrics: listResultSoFar
+                        ? aggregateScrapeMetrics({
+                            listResult: listResultSoFar,
+                            detailResults: detailResultsSoFar,
+                            durationSeconds: (Date.now() - startTime) / 1000,
+                        })
+                        : null,
+                    error: error instanceof Error ? error.message : String(error),
+                    logs: runLogs,
+                });
+            }
+            throw error;
+        }
+    },
+    onFailure: async ({ payload, error, ctx }) => {
+        if (payload.dryRun) return;
+        await recordUnrecordedFailure(payload.scrapeUrlId, ctx.run.startedAt, error);
     },
 });
 
@@ -117,12 +385,18 @@ export const roleExtractionBatchTask = task({
         name: "extraction-queue",
         concurrencyLimit: 3, // 3 batch tasks × 3 tabs each = 9 concurrent pages max
     },
-    run: async (payload: { roles: DetailPhaseInput[] }) => {
-        logger.info(`Extracting batch of ${payload.roles.length} roles`);
+    run: async (payload: { roles: DetailPhaseInput[]; budgetUsd?: number | null; dryRun?: boolean }) => {
+        logger.info(`Extracting batch of ${payload.roles.length} roles${payload.dryRun ? " (dry run)" : ""}`);
+        await loadPricing();
+
+        const results = await runDetailPhaseBatch(payload.roles, { budgetUsd: payload.budgetUsd, dryRun: payload.dryRun });
 
-        const results = await runDetailPhaseBatch(payload.roles);
+        const budgetSkipped = results.filter(r => r.stopReason === "budget_exceeded");
+        if (budgetSkipped.length > 0) {
+            logger.warn(`${budgetSkipped.length}/${results.length} roles stopped by the LLM budget`);
+        }
 
-        const failed = results.filter(r => !r.success);
+        const failed = results.filter(r => !r.success && r.stopReason !== "budget_exceeded");
         if (failed.length > 0) {
             logger.warn(`${failed.length}/${results.length} roles failed in batch`, {
                 failed: failed.map(r => ({ url: r.url, error: r.error })),
@@ -0,0 +1,57 @@
+import { schedules, logger } from "@trigger.dev/sdk/v3";
+import { discoveryFlowTask } from "./discovery-flow";
+import { loadDueScrapeUrls, getScheduleSlotKey } from "../../utils/scraping/scrape-scheduler";
+
+// Trigger.dev caps the number of items in a single batchTrigger call
+const MAX_BATCH_SIZE = 500;
+
+// ============================================================
+// Scheduled Discovery - fans out discovery-flow over every due scrape_url
+// ============================================================
+export const scheduledDiscoveryTask = schedules.task({
+    id: "scheduled-discovery",
+    cron: "0 * * * *", // Hourly - per-URL cadence is decided by the scheduler
+    maxDuration: 300,
+    run: async (payload) => {
+        const dueScrapeUrls = await loadDueScrapeUrls(payload.timestamp);
+
+        if (dueScrapeUrls.length === 0) {
+            logger.info("No scrape URLs due");
+            return { urlsTriggered: 0, batchIds: [] };
+        }
+
+        logger.info(`${dueScrapeUrls.length} scrape URLs due`, {
+            scrapeUrls: dueScrapeUrls.map(u => ({
+                id: u.id,
+                status: u.status,
+                lastScrapedAt: u.last_scraped_at,
+                errorCount: u.error_count,
+            })),
+        });
+
+        const batchIds: string[] = [];
+        for (let i = 0; i < dueScrapeUrls.length; i += MAX_BATCH_SIZE) {
+            const chunk = dueScrapeUrls.slice(i, i + MAX_BATCH_SIZE);
+
+            const batch = await discoveryFlowTask.batchTrigger(
+                chunk.map(scrapeUrl => ({
+                    payload: { scrapeUrlId: scrapeUrl.id },
+                    options: {
+                        // A discovery run can outlive one tick - every tick until it records last_scraped_at
+                        // sees the same schedule slot, so they all dedupe to the first trigger. The TTL only
+                        // matters for a run that dies without recording anything: it's retried a day later.
+                        idempotencyKey: `discovery-flow-${scrapeUrl.id}-${getScheduleSlotKey(scrapeUrl)}`,
+                        idempotencyKeyTTL: "1d",
+                    },
+                }))
+            );
+
+            batchIds.push(batch.batchId);
+        }
+
+        return {
+            urlsTriggered: dueScrapeUrls.length,
+            batchIds,
+        };
+    },
+});
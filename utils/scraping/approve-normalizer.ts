@@ -7,7 +7,7 @@
 import { createClient } from '@supabase/supabase-js';
 import { extractCanonicalName } from './canonical-name';
 import { mapRoleTypeToRoleId } from './role-type-mapper';
-import type { ScrapedRole } from '@/packages/schemas/careers-scraping';
+import type { ScrapedRole, RoleFieldChange } from '@/packages/schemas/careers-scraping';
 
 /**
  * Approve a programme discovery draft
@@ -110,6 +110,8 @@ export async function approveProgrammeDraft(draftId: string): Promise<{
  * - NEW_ROLE: Create new program_roles entry
  * - URL_CHANGED: Update existing program_roles with new URL
  * - REOPENING: Update existing program_roles (set is_open=true, update metadata)
+ * - CLOSED: Mark existing program_roles as closed (is_open=false, closed_date set)
+ * - UPDATED: Write only the draft's changed_fields to the existing program_roles
  */
 export async function approveRoleDraft(
     draftId: string,
@@ -211,6 +213,7 @@ export async function approveRoleDraft(
         if (updateType === 'REOPENING') {
             updateData.is_open = true;
             updateData.closed_date = null;
+            updateData.consecutive_missed_runs = 0;
         }
 
         // Use the program_role id directly (not composite anymore)
@@ -224,6 +227,78 @@ export async function approveRoleDraft(
             return { success: false, error: 'Failed to update role' };
         }
 
+        // Update draft status
+        await supabase
+            .from('role_discovery_drafts')
+            .update({ status: 'approved', reviewed_at: new Date().toISOString() })
+            .eq('id', draftId);
+
+        return { success: true, roleId: existingRoleId };
+    } else if (updateType === 'CLOSED') {
+        // Close existing role - only status fields change, scraped metadata is left untouched
+        if (!existingRoleId) {
+            return { success: false, error: 'No existing role ID for update' };
+        }
+
+        const now = new Date().toISOString();
+        const { error: updateError } = await supabase
+            .from('program_roles')
+            .update({
+                is_open: false,
+                closed_date: now,
+                last_status_change_at: now,
+            })
+            .eq('id', existingRoleId);
+
+        if (updateError) {
+            console.error('Error closing role:', updateError);
+            return { success: false, error: 'Failed to close role' };
+        }
+
+        // Update draft status
+        await supabase
+            .from('role_discovery_drafts')
+            .update({ status: 'approved', reviewed_at: new Date().toISOString() })
+            .eq('id', draftId);
+
+        return { success: true, roleId: existingRoleId };
+    } else if (updateType === 'UPDATED') {
+        // Refresh diff - only the changed columns are written, everything else is left as stored
+        if (!existingRoleId) {
+            return { success: false, error: 'No existing role ID for update' };
+        }
+
+        const changes = (draft.changed_fields as RoleFieldChange[] | null) || [];
+        if (changes.length === 0) {
+            return { success: false, error: 'UPDATED draft has no changed fields' };
+        }
+
+        const now = new Date().toISOString();
+        const updateData: any = { last_seen_at: now };
+        for (const change of changes) {
+            updateData[change.field] = change.current;
+        }
+
+        if (updateData.title) {
+            updateData.canonical_name = extractCanonicalName(updateData.title);
+        }
+
+        // Status flips keep the same bookkeeping as REOPENING / CLOSED
+        if ('is_open' in updateData) {
+            updateData.last_status_change_at = now;
+            updateData.closed_date = updateData.is_open ? null : now;
+        }
+
+        const { error: updateError } = await supabase
+            .from('program_roles')
+            .update(updateData)
+            .eq('id', existingRoleId);
+
+        if (updateError) {
+            console.error('Error updating role:', updateError);
+            return { success: false, error: 'Failed to update role' };
+        }
+
         // Update draft status
         await supabase
             .from('role_discovery_drafts')
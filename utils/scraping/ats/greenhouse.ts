@@ -0,0 +1,82 @@
+/**
+ * Greenhouse adapter
+ *
+ * Listing URLs: boards.greenhouse.io/{token}, job-boards.greenhouse.io/{token},
+ *               boards.greenhouse.io/embed/job_board?for={token}
+ * API: https://boards-api.greenhouse.io/v1/boards/{token}/jobs
+ */
+
+import { AtsAdapter, AtsJob, AtsJobDetail } from './types';
+import { fetchJson, decodeHtmlEntities, buildPostingHtml, firstPathSegment } from './http';
+
+const API_BASE = 'https://boards-api.greenhouse.io/v1/boards';
+
+interface GreenhouseJob {
+    id: number;
+    title: string;
+    absolute_url: string;
+    updated_at?: string;
+    first_published?: string;
+    location?: { name?: string };
+    departments?: Array<{ name: string }>;
+    content?: string;
+}
+
+function parseBoardToken(listingUrl: string): string {
+    const url = new URL(listingUrl);
+    const token = url.searchParams.get('for') || firstPathSegment(url);
+
+    if (!token || token === 'embed') {
+        throw new Error(`Could not determine Greenhouse board token from ${listingUrl}`);
+    }
+
+    return token;
+}
+
+export const greenhouseAdapter: AtsAdapter = {
+    provider: 'greenhouse',
+
+    matches(url: string): boolean {
+        try {
+            return /(^|\.)greenhouse\.io$/i.test(new URL(url).hostname);
+        } catch {
+            return false;
+        }
+    },
+
+    async listJobs(listingUrl: string): Promise<AtsJob[]> {
+        const token = parseBoardToken(listingUrl);
+        const { jobs } = await fetchJson<{ jobs: GreenhouseJob[] }>(`${API_BASE}/${encodeURIComponent(token)}/jobs`);
+
+        return jobs.map(job => ({
+            externalId: String(job.id),
+            url: job.absolute_url,
+            title: job.title,
+            location: job.location?.name || null,
+            department: job.departments?.[0]?.name || null,
+            postedDate: job.first_published || job.updated_at || null,
+            detailApiUrl: `${API_BASE}/${encodeURIComponent(token)}/jobs/${job.id}`,
+        }));
+    },
+
+    async fetchJobDetail(detailApiUrl: string): Promise<AtsJobDetail | null> {
+        const job = await fetchJson<GreenhouseJob>(detailApiUrl);
+        if (!job?.title) return null;
+
+        const postedDate = job.first_published || job.updated_at || null;
+        const location = job.location?.name || null;
+
+        return {
+            title: job.title,
+            location,
+            postedDate,
+            closingDate: null,
+            html: buildPostingHtml({
+                title: job.title,
+                location,
+                postedDate,
+                sections: [{ html: job.content ? decodeHtmlEntities(job.content) : null }],
+            }),
+        };
+    },
+};
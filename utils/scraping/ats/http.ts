@@ -0,0 +1,99 @@
+/**
+ * HTTP helpers shared by the ATS adapters
+ */
+
+import { recordCapturedResponse } from '../snapshot-capture';
+
+const REQUEST_TIMEOUT_MS = 30000;
+
+/**
+ * Hard cap on postings fetched from a single board (protects against runaway pagination).
+ * A board that reaches it is reported as a truncated scan by the LIST phase.
+ */
+export const MAX_ATS_JOBS = 2000;
+
+/**
+ * Fetch a JSON document, throwing on non-2xx responses - recorded on the active snapshot capture
+ */
+export async function fetchJson<T>(url: string, init: RequestInit = {}): Promise<T> {
+    const response = await fetch(url, {
+        ...init,
+        headers: {
+            Accept: 'application/json',
+            ...(init.body ? { 'Content-Type': 'application/json' } : {}),
+            ...(init.headers as Record<string, string> | undefined),
+        },
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+        throw new Error(`ATS request failed (${response.status} ${response.statusText}) for ${url}`);
+    }
+
+    const body = await response.text();
+    recordCapturedResponse({
+        url,
+        status: response.status,
+        contentType: response.headers.get('content-type') || 'application/json',
+        body,
+    });
+
+    return JSON.parse(body) as T;
+}
+
+/**
+ * Escape text for safe inclusion in the HTML we assemble for the extractor
+ */
+export function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+/**
+ * Decode HTML entities in ATS payloads that ship their markup entity-encoded (e.g. Greenhouse)
+ */
+export function decodeHtmlEntities(text: string): string {
+    return text
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&#39;/g, "'")
+        .replace(/&nbsp;/g, ' ')
+        .replace(/&amp;/g, '&');
+}
+
+/**
+ * Assemble a minimal HTML document from structured posting fields.
+ * Section bodies are trusted ATS HTML; headings and metadata are escaped.
+ */
+export function buildPostingHtml(data: {
+    title: string;
+    location?: string | null;
+    postedDate?: string | null;
+    closingDate?: string | null;
+    sections: Array<{ heading?: string | null; html: string | null | undefined }>;
+}): string {
+    const meta = [
+        data.location ? `<p>Location: ${escapeHtml(data.location)}</p>` : '',
+        data.postedDate ? `<p>Posted: ${escapeHtml(data.postedDate)}</p>` : '',
+        data.closingDate ? `<p>Closing date: ${escapeHtml(data.closingDate)}</p>` : '',
+    ].join('');
+
+    const sections = data.sections
+        .filter(section => section.html)
+        .map(section => `<section>${section.heading ? `<h2>${escapeHtml(section.heading)}</h2>` : ''}${section.html}</section>`)
+        .join('');
+
+    return `<html><body><main><h1>${escapeHtml(data.title)}</h1>${meta}${sections}</main></body></html>`;
+}
+
+/**
+ * First non-empty path segment of a URL (board token / company slug on most ATSs)
+ */
+export function firstPathSegment(url: URL): string | null {
+    const [first] = url.pathname.split('/').filter(Boolean);
+    return first || null;
+}
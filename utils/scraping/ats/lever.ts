@@ -0,0 +1,111 @@
+/**
+ * Lever adapter
+ *
+ * Listing URLs: jobs.lever.co/{company}, jobs.eu.lever.co/{company}
+ * API: https://api.lever.co/v0/postings/{company}?mode=json (api.eu.lever.co for EU boards)
+ */
+
+import { AtsAdapter, AtsJob, AtsJobDetail } from './types';
+import { fetchJson, buildPostingHtml, firstPathSegment, escapeHtml, MAX_ATS_JOBS } from './http';
+
+const PAGE_SIZE = 100;
+
+interface LeverPosting {
+    id: string;
+    text: string;
+    hostedUrl: string;
+    createdAt?: number;
+    categories?: {
+        location?: string;
+        team?: string;
+        department?: string;
+        commitment?: string;
+    };
+    description?: string;
+    lists?: Array<{ text: string; content: string }>;
+    additional?: string;
+}
+
+function parseBoard(listingUrl: string): { apiBase: string; company: string } {
+    const url = new URL(listingUrl);
+    const company = firstPathSegment(url);
+
+    if (!company) {
+        throw new Error(`Could not determine Lever company from ${listingUrl}`);
+    }
+
+    const isEu = /\.eu\.lever\.co$/i.test(url.hostname);
+    return {
+        apiBase: `https://${isEu ? 'api.eu.lever.co' : 'api.lever.co'}/v0/postings`,
+        company,
+    };
+}
+
+function toIsoDate(timestamp?: number): string | null {
+    return timestamp ? new Date(timestamp).toISOString().split('T')[0] : null;
+}
+
+export const leverAdapter: AtsAdapter = {
+    provider: 'lever',
+
+    matches(url: string): boolean {
+        try {
+            return /^jobs\.(eu\.)?lever\.co$/i.test(new URL(url).hostname);
+        } catch {
+            return false;
+        }
+    },
+
+    async listJobs(listingUrl: string): Promise<AtsJob[]> {
+        const { apiBase, company } = parseBoard(listingUrl);
+        const jobs: AtsJob[] = [];
+
+        for (let skip = 0; skip < MAX_ATS_JOBS; skip += PAGE_SIZE) {
+            const postings = await fetchJson<LeverPosting[]>(
+                `${apiBase}/${encodeURIComponent(company)}?mode=json&skip=${skip}&limit=${PAGE_SIZE}`
+            );
+
+            for (const posting of postings) {
+                jobs.push({
+                    externalId: posting.id,
+                    url: posting.hostedUrl,
+                    title: posting.text,
+                    location: posting.categories?.location || null,
+                    department: posting.categories?.department || posting.categories?.team || null,
+                    postedDate: toIsoDate(posting.createdAt),
+                    detailApiUrl: `${apiBase}/${encodeURIComponent(company)}/${posting.id}`,
+                });
+            }
+
+            if (postings.length < PAGE_SIZE) break;
+        }
+
+        return jobs;
+    },
+
+    async fetchJobDetail(detailApiUrl: string): Promise<AtsJobDetail | null> {
+        const posting = await fetchJson<LeverPosting>(detailApiUrl);
+        if (!posting?.text) return null;
+
+        const location = posting.categories?.location || null;
+        const postedDate = toIsoDate(posting.createdAt);
+
+        return {
+            title: posting.text,
+            location,
+            postedDate,
+            closingDate: null,
+            html: buildPostingHtml({
+                title: posting.text,
+                location,
+                postedDate,
+                sections: [
+                    { html: posting.categories?.commitment ? `<p>Commitment: ${escapeHtml(posting.categories.commitment)}</p>` : null },
+                    { html: posting.description },
+                    ...(posting.lists || []).map(list => ({ heading: list.text, html: `<ul>${list.content}</ul>` })),
+                    { html: posting.additional },
+                ],
+            }),
+        };
+    },
+};
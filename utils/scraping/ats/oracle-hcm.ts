@@ -0,0 +1,143 @@
+/**
+ * Oracle HCM (Oracle Cloud Candidate Experience) adapter
+ *
+ * Listing URLs: {pod}.fa.{region}.oraclecloud.com/hcmUI/CandidateExperience/{lang}/sites/{site}/jobs[?keyword=...]
+ * API: https://{host}/hcmRestApi/resources/latest/recruitingCEJobRequisitions (finder=findReqs)
+ *
+ * A `keyword` query param on the listing URL is forwarded to the finder, so
+ * filtered listings (e.g. keyword="graduate programme") return the same subset.
+ */
+
+import { AtsAdapter, AtsJob, AtsJobDetail } from './types';
+import { fetchJson, buildPostingHtml, MAX_ATS_JOBS } from './http';
+
+const PAGE_SIZE = 25;
+
+interface OracleRequisition {
+    Id: string;
+    Title: string;
+    PostedDate?: string;
+    PrimaryLocation?: string;
+    Organization?: string;
+    JobFamily?: string;
+}
+
+interface OracleRequisitionDetail {
+    Title: string;
+    PrimaryLocation?: string;
+    ExternalPostedStartDate?: string;
+    ExternalPostedEndDate?: string;
+    ExternalDescriptionStr?: string;
+    ExternalResponsibilitiesStr?: string;
+    ExternalQualificationsStr?: string;
+    CorporateDescriptionStr?: string;
+}
+
+interface OracleSite {
+    origin: string;
+    lang: string;
+    siteNumber: string;
+    keyword: string | null;
+}
+
+function parseSite(listingUrl: string): OracleSite {
+    const url = new URL(listingUrl);
+    const match = url.pathname.match(/\/CandidateExperience\/([^/]+)\/sites\/([^/]+)/);
+
+    if (!match) {
+        throw new Error(`Could not determine Oracle HCM site from ${listingUrl}`);
+    }
+
+    const keyword = url.searchParams.get('keyword');
+    return {
+        origin: url.origin,
+        lang: match[1],
+        siteNumber: match[2],
+        keyword: keyword ? keyword.replace(/^"|"$/g, '') : null,
+    };
+}
+
+function toIsoDate(date?: string): string | null {
+    return date ? date.split('T')[0] : null;
+}
+
+export const oracleHcmAdapter: AtsAdapter = {
+    provider: 'oracle-hcm',
+
+    matches(url: string): boolean {
+        try {
+            const parsed = new URL(url);
+            return /\.oraclecloud\.com$/i.test(parsed.hostname)
+                && parsed.pathname.includes('/hcmUI/CandidateExperience/');
+        } catch {
+            return false;
+        }
+    },
+
+    async listJobs(listingUrl: string): Promise<AtsJob[]> {
+        const { origin, lang, siteNumber, keyword } = parseSite(listingUrl);
+        const apiBase = `${origin}/hcmRestApi/resources/latest`;
+        const jobs: AtsJob[] = [];
+
+        for (let offset = 0; offset < MAX_ATS_JOBS; offset += PAGE_SIZE) {
+            const finder = [
+                `findReqs;siteNumber=${siteNumber}`,
+                `limit=${PAGE_SIZE}`,
+                `offset=${offset}`,
+                ...(keyword ? [`keyword="${keyword}"`] : []),
+            ].join(',');
+
+            const page = await fetchJson<{ items: Array<{ TotalJobsCount: number; requisitionList: OracleRequisition[] }> }>(
+                `${apiBase}/recruitingCEJobRequisitions?onlyData=true&expand=requisitionList&finder=${encodeURIComponent(finder)}`
+            );
+
+            const result = page.items[0];
+            const requisitions = result?.requisitionList || [];
+
+            for (const req of requisitions) {
+                const detailFinder = `ById;Id="${req.Id}",siteNumber=${siteNumber}`;
+                jobs.push({
+                    externalId: req.Id,
+                    url: `${origin}/hcmUI/CandidateExperience/${lang}/sites/${siteNumber}/job/${req.Id}`,
+                    title: req.Title,
+                    location: req.PrimaryLocation || null,
+                    department: req.Organization || req.JobFamily || null,
+                    postedDate: toIsoDate(req.PostedDate),
+                    detailApiUrl: `${apiBase}/recruitingCEJobRequisitionDetails?expand=all&onlyData=true&finder=${encodeURIComponent(detailFinder)}`,
+                });
+            }
+
+            if (requisitions.length < PAGE_SIZE || jobs.length >= (result?.TotalJobsCount ?? 0)) break;
+        }
+
+        return jobs;
+    },
+
+    async fetchJobDetail(detailApiUrl: string): Promise<AtsJobDetail | null> {
+        const { items } = await fetchJson<{ items: OracleRequisitionDetail[] }>(detailApiUrl);
+        const detail = items?.[0];
+        if (!detail?.Title) return null;
+
+        const postedDate = toIsoDate(detail.ExternalPostedStartDate);
+        const closingDate = toIsoDate(detail.ExternalPostedEndDate);
+
+        return {
+            title: detail.Title,
+            location: detail.PrimaryLocation || null,
+            postedDate,
+            closingDate,
+            html: buildPostingHtml({
+                title: detail.Title,
+                location: detail.PrimaryLocation,
+                postedDate,
+                closingDate,
+                sections: [
+                    { html: detail.ExternalDescriptionStr },
+                    { heading: 'Responsibilities', html: detail.ExternalResponsibilitiesStr },
+                    { heading: 'Qualifications', html: detail.ExternalQualificationsStr },
+                    { heading: 'About us', html: detail.CorporateDescriptionStr },
+                ],
+            }),
+        };
+    },
+};
@@ -0,0 +1,58 @@
+/**
+ * ATS Adapter Registry
+ *
+ * Resolves which adapter (if any) handles a listing URL.
+ *
+ * Resolution order:
+ * 1. scraper_config.ats hint ('none' disables ATS handling entirely)
+ * 2. URL pattern match against each registered adapter
+ */
+
+import { AtsAdapter, AtsProvider, ATS_PROVIDERS } from './types';
+import { workdayAdapter } from './workday';
+import { greenhouseAdapter } from './greenhouse';
+import { leverAdapter } from './lever';
+import { oracleHcmAdapter } from './oracle-hcm';
+import { smartRecruitersAdapter } from './smartrecruiters';
+
+const ADAPTERS: Record<AtsProvider, AtsAdapter> = {
+    'workday': workdayAdapter,
+    'greenhouse': greenhouseAdapter,
+    'lever': leverAdapter,
+    'oracle-hcm': oracleHcmAdapter,
+    'smartrecruiters': smartRecruitersAdapter,
+};
+
+export function isAtsProvider(value: unknown): value is AtsProvider {
+    return typeof value === 'string' && (ATS_PROVIDERS as readonly string[]).includes(value);
+}
+
+/**
+ * Get the adapter for a provider
+ */
+export function getAtsAdapter(provider: AtsProvider): AtsAdapter {
+    return ADAPTERS[provider];
+}
+
+/**
+ * Resolve the adapter for a listing URL, honouring an explicit config hint
+ *
+ * @example
+ * resolveAtsAdapter("https://jobs.lever.co/acme")
+ * // => leverAdapter
+ *
+ * @example
+ * resolveAtsAdapter("https://careers.acme.com", "greenhouse")
+ * // => greenhouseAdapter (hint wins even when the URL doesn't match)
+ */
+export function resolveAtsAdapter(url: string, hint?: string | null): AtsAdapter | null {
+    if (hint === 'none') {
+        return null;
+    }
+
+    if (isAtsProvider(hint)) {
+        return ADAPTERS[hint];
+    }
+
+    return Object.values(ADAPTERS).find(adapter => adapter.matches(url)) || null;
+}
@@ -0,0 +1,112 @@
+/**
+ * SmartRecruiters adapter
+ *
+ * Listing URLs: jobs.smartrecruiters.com/{company}, careers.smartrecruiters.com/{company}
+ * API: https://api.smartrecruiters.com/v1/companies/{company}/postings
+ */
+
+import { AtsAdapter, AtsJob, AtsJobDetail } from './types';
+import { fetchJson, buildPostingHtml, firstPathSegment, MAX_ATS_JOBS } from './http';
+
+const API_BASE = 'https://api.smartrecruiters.com/v1/companies';
+const PAGE_SIZE = 100;
+
+interface SmartRecruitersLocation {
+    city?: string;
+    region?: string;
+    country?: string;
+    remote?: boolean;
+}
+
+interface SmartRecruitersPosting {
+    id: string;
+    name: string;
+    releasedDate?: string;
+    location?: SmartRecruitersLocation;
+    department?: { label?: string };
+}
+
+interface SmartRecruitersPostingDetail extends SmartRecruitersPosting {
+    jobAd?: {
+        sections?: Record<string, { title?: string; text?: string } | undefined>;
+    };
+}
+
+function parseCompany(listingUrl: string): string {
+    const company = firstPathSegment(new URL(listingUrl));
+    if (!company) {
+        throw new Error(`Could not determine SmartRecruiters company from ${listingUrl}`);
+    }
+    return company;
+}
+
+function formatLocation(location?: SmartRecruitersLocation): string | null {
+    if (!location) return null;
+    const parts = [location.city, location.region, location.country].filter(Boolean);
+    if (location.remote) parts.push('Remote');
+    return parts.length > 0 ? parts.join(', ') : null;
+}
+
+export const smartRecruitersAdapter: AtsAdapter = {
+    provider: 'smartrecruiters',
+
+    matches(url: string): boolean {
+        try {
+            return /^(jobs|careers)\.smartrecruiters\.com$/i.test(new URL(url).hostname);
+        } catch {
+            return false;
+        }
+    },
+
+    async listJobs(listingUrl: string): Promise<AtsJob[]> {
+        const company = parseCompany(listingUrl);
+        const jobs: AtsJob[] = [];
+
+        for (let offset = 0; offset < MAX_ATS_JOBS; offset += PAGE_SIZE) {
+            const page = await fetchJson<{ totalFound: number; content: SmartRecruitersPosting[] }>(
+                `${API_BASE}/${encodeURIComponent(company)}/postings?limit=${PAGE_SIZE}&offset=${offset}`
+            );
+
+            for (const posting of page.content) {
+                jobs.push({
+                    externalId: posting.id,
+                    url: `https://jobs.smartrecruiters.com/${company}/${posting.id}`,
+                    title: posting.name,
+                    location: formatLocation(posting.location),
+                    department: posting.department?.label || null,
+                    postedDate: posting.releasedDate || null,
+                    detailApiUrl: `${API_BASE}/${encodeURIComponent(company)}/postings/${posting.id}`,
+                });
+            }
+
+            if (page.content.length < PAGE_SIZE || jobs.length >= page.totalFound) break;
+        }
+
+        return jobs;
+    },
+
+    async fetchJobDetail(detailApiUrl: string): Promise<AtsJobDetail | null> {
+        const posting = await fetchJson<SmartRecruitersPostingDetail>(detailApiUrl);
+        if (!posting?.name) return null;
+
+        const location = formatLocation(posting.location);
+        const postedDate = posting.releasedDate || null;
+        const sections = posting.jobAd?.sections || {};
+
+        return {
+            title: posting.name,
+            location,
+            postedDate,
+            closingDate: null,
+            html: buildPostingHtml({
+                title: posting.name,
+                location,
+                postedDate,
+                sections: ['jobDescription', 'qualifications', 'additionalInformation', 'companyDescription']
+                    .map(key => sections[key])
+                    .filter(section => section !== undefined)
+                    .map(section => ({ heading: section!.title, html: section!.text })),
+            }),
+        };
+    },
+};
@@ -0,0 +1,59 @@
+/**
+ * ATS Adapter Types
+ *
+ * Shared contract for applicant tracking system (ATS) adapters.
+ * Adapters talk to the ATS's structured JSON endpoints instead of rendering
+ * the listing in Chromium and asking the LLM which anchors are jobs.
+ */
+
+import { AtsProviderSchema } from '@/packages/schemas/careers-scraping';
+import type { AtsProvider } from '@/packages/schemas/careers-scraping';
+
+export type { AtsProvider };
+export const ATS_PROVIDERS = AtsProviderSchema.options;
+
+/**
+ * A job posting as listed by an ATS
+ */
+export interface AtsJob {
+    externalId: string;
+    url: string; // Public, human-facing posting URL
+    title: string;
+    location: string | null;
+    department: string | null;
+    postedDate: string | null;
+    detailApiUrl: string | null; // JSON endpoint for the full posting (used by the DETAIL phase)
+}
+
+/**
+ * Structured detail for a single posting.
+ * `html` is assembled from the ATS fields so it can go straight into extractRoleFromHtml.
+ */
+export interface AtsJobDetail {
+    title: string;
+    html: string;
+    location: string | null;
+    postedDate: string | null;
+    closingDate: string | null;
+}
+
+/**
+ * Reference carried from the LIST phase to the DETAIL phase for ATS-backed roles
+ */
+export interface AtsJobRef {
+    provider: AtsProvider;
+    detailApiUrl: string;
+}
+
+export interface AtsAdapter {
+    provider: AtsProvider;
+
+    /** True if the URL is hosted on this ATS */
+    matches(url: string): boolean;
+
+    /** List every posting on the board behind this listing URL */
+    listJobs(listingUrl: string): Promise<AtsJob[]>;
+
+    /** Fetch the full posting from its JSON endpoint (null if not found) */
+    fetchJobDetail?(detailApiUrl: string): Promise<AtsJobDetail | null>;
+}
@@ -0,0 +1,123 @@
+/**
+ * Workday adapter
+ *
+ * Listing URLs: {tenant}.wd{N}.myworkdayjobs.com/[{locale}/]{site}
+ * API: POST https://{host}/wday/cxs/{tenant}/{site}/jobs (paged, max 20 per request)
+ */
+
+import { AtsAdapter, AtsJob, AtsJobDetail } from './types';
+import { fetchJson, buildPostingHtml, escapeHtml, MAX_ATS_JOBS } from './http';
+
+const PAGE_SIZE = 20; // Workday rejects larger pages
+
+interface WorkdayJobPosting {
+    title: string;
+    externalPath: string;
+    locationsText?: string;
+    postedOn?: string;
+    bulletFields?: string[];
+}
+
+interface WorkdayJobDetail {
+    jobPostingInfo?: {
+        title: string;
+        jobDescription?: string;
+        location?: string;
+        startDate?: string;
+        endDate?: string;
+        timeType?: string;
+        jobReqId?: string;
+    };
+}
+
+interface WorkdaySite {
+    origin: string;
+    tenant: string;
+    site: string;
+    locale: string | null;
+}
+
+function parseSite(listingUrl: string): WorkdaySite {
+    const url = new URL(listingUrl);
+    const tenant = url.hostname.split('.')[0];
+    const segments = url.pathname.split('/').filter(Boolean);
+
+    const locale = segments[0] && /^[a-z]{2}-[A-Z]{2}$/.test(segments[0]) ? segments.shift()! : null;
+    const site = segments[0];
+
+    if (!tenant || !site) {
+        throw new Error(`Could not determine Workday tenant/site from ${listingUrl}`);
+    }
+
+    return { origin: url.origin, tenant, site, locale };
+}
+
+export const workdayAdapter: AtsAdapter = {
+    provider: 'workday',
+
+    matches(url: string): boolean {
+        try {
+            return /\.myworkday(jobs|site)\.com$/i.test(new URL(url).hostname);
+        } catch {
+            return false;
+        }
+    },
+
+    async listJobs(listingUrl: string): Promise<AtsJob[]> {
+        const { origin, tenant, site, locale } = parseSite(listingUrl);
+        const apiBase = `${origin}/wday/cxs/${tenant}/${site}`;
+        const publicBase = `${origin}${locale ? `/${locale}` : ''}/${site}`;
+        const searchText = new URL(listingUrl).searchParams.get('q') || '';
+
+        const jobs: AtsJob[] = [];
+        let total: number | null = null;
+
+        for (let offset = 0; offset < MAX_ATS_JOBS; offset += PAGE_SIZE) {
+            const page = await fetchJson<{ total: number; jobPostings: WorkdayJobPosting[] }>(`${apiBase}/jobs`, {
+                method: 'POST',
+                body: JSON.stringify({ appliedFacets: {}, limit: PAGE_SIZE, offset, searchText }),
+            });
+
+            // Workday only reports the real total on the first page
+            if (total === null) total = page.total;
+
+            for (const posting of page.jobPostings) {
+                jobs.push({
+                    externalId: posting.bulletFields?.[0] || posting.externalPath,
+                    url: `${publicBase}${posting.externalPath}`,
+                    title: posting.title,
+                    location: posting.locationsText || null,
+                    department: null,
+                    postedDate: posting.postedOn || null, // Relative, e.g. "Posted 3 Days Ago"
+                    detailApiUrl: `${apiBase}${posting.externalPath}`,
+                });
+            }
+
+            if (page.jobPostings.length < PAGE_SIZE || jobs.length >= total) break;
+        }
+
+        return jobs;
+    },
+
+    async fetchJobDetail(detailApiUrl: string): Promise<AtsJobDetail | null> {
+        const { jobPostingInfo: info } = await fetchJson<WorkdayJobDetail>(detailApiUrl);
+        if (!info?.title) return null;
+
+        return {
+            title: info.title,
+            location: info.location || null,
+            postedDate: info.startDate || null,
+            closingDate: info.endDate || null,
+            html: buildPostingHtml({
+                title: info.title,
+                location: info.location,
+                postedDate: info.startDate,
+                closingDate: info.endDate,
+                sections: [
+                    { html: info.timeType ? `<p>Time type: ${escapeHtml(info.timeType)}</p>` : null },
+                    { html: info.jobDescription },
+                ],
+            }),
+        };
+    },
+};
@@ -0,0 +1,201 @@
+/**
+ * LLM Budget Guard
+ *
+ * Caps LLM spend so a runaway listing (hundreds of pages of links) can't burn
+ * unbounded tokens. Limits in USD, from scraper_config.budget or the env
+ * defaults:
+ *
+ * - maxUsdPerRun           LLM_BUDGET_USD_PER_RUN
+ * - maxUsdPerFirmPerDay    LLM_BUDGET_USD_PER_FIRM_PER_DAY
+ * - maxUsdPerFirmPerMonth  LLM_BUDGET_USD_PER_FIRM_PER_MONTH
+ * - (global, env only)     LLM_BUDGET_USD_GLOBAL_PER_DAY
+ *
+ * At the start of a run the tightest remaining limit becomes the run's
+ * allowance. Phases wrap their UsageTrackers in an LlmBudgetGuard and check
+ * it before every LLM call; once spent >= allowance they stop and return a
+ * partial result with stopReason 'budget_exceeded'. A single call can
+ * overshoot by its own cost - the check can't know it in advance. Usage from
+ * a model with no pricing entry can't be counted, so under a budget it
+ * counts as exceeded rather than free.
+ *
+ * Day/month spend (UTC calendar periods) is summed in SQL by the
+ * llm_spend_since RPC: finished runs (failed ones included) count their
+ * metrics.total_cost_usd, runs still in flight count what they reserved
+ * (scrape_runs.budget_usd) until they finish. A run reserves its per-run
+ * limit, or DEFAULT_RUN_RESERVATION_USD without one - never the whole
+ * remaining day/month, which would leave a concurrent run for the same firm
+ * an allowance of 0. A 'running' row older than two hours is a crashed run
+ * and isn't counted.
+ *
+ *   create function llm_spend_since(since timestamptz, firm uuid default null)
+ *   returns table (spent_usd numeric, unpriced_runs bigint) language sql stable as $$
+ *     select
+ *       coalesce(sum(case when status = 'running' then coalesce(budget_usd, 0)
+ *                         else coalesce((metrics->>'total_cost_usd')::numeric, 0) end), 0),
+ *       count(*) filter (where jsonb_array_length(coalesce(metrics->'unpriced_models', '[]')) > 0)
+ *     from scrape_runs
+ *     where started_at >= since
+ *       and (firm is null or firm_id = firm)
+ *       and not (status = 'running' and started_at < now() - interval '2 hours');
+ *   $$;
+ *
+ * If that lookup fails the spend is treated as 0 - a ledger outage shouldn't
+ * stop every scrape.
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import type { ScraperConfig } from '@/packages/schemas/careers-scraping';
+import type { UsageTracker } from './cost-calculator';
+
+export interface LlmBudget {
+    maxUsdPerRun: number | null;
+    maxUsdPerFirmPerDay: number | null;
+    maxUsdPerFirmPerMonth: number | null;
+    maxUsdGlobalPerDay: number | null;
+}
+
+/**
+ * What an in-flight run reserves against the day/month budgets when it has no per-run limit
+ */
+export const DEFAULT_RUN_RESERVATION_USD = 1;
+
+/**
+ * A run's allowance, which limit set it (null = unlimited) and the share of it
+ * reserved in the ledger while the run is in flight
+ */
+export interface RunBudget {
+    limitUsd: number | null;
+    limitedBy: keyof LlmBudget | null;
+    reservedUsd: number | null;
+}
+
+function envUsd(name: string): number | null {
+    const value = Number(process.env[name]);
+    return process.env[name] && Number.isFinite(value) && value > 0 ? value : null;
+}
+
+/**
+ * Merge scraper_config.budget over the env defaults
+ */
+export function resolveLlmBudget(config?: ScraperConfig['budget']): LlmBudget {
+    return {
+        maxUsdPerRun: config?.maxUsdPerRun ?? envUsd('LLM_BUDGET_USD_PER_RUN'),
+        maxUsdPerFirmPerDay: config?.maxUsdPerFirmPerDay ?? envUsd('LLM_BUDGET_USD_PER_FIRM_PER_DAY'),
+        maxUsdPerFirmPerMonth: config?.maxUsdPerFirmPerMonth ?? envUsd('LLM_BUDGET_USD_PER_FIRM_PER_MONTH'),
+        maxUsdGlobalPerDay: envUsd('LLM_BUDGET_USD_GLOBAL_PER_DAY'),
+    };
+}
+
+/**
+ * Sum scrape_runs spend since a point in time, optionally for one firm (see llm_spend_since above)
+ */
+async function sumRunCostSince(since: Date, firmId?: string): Promise<number> {
+    const supabase = createClient(
+        process.env.NEXT_PUBLIC_SUPABASE_URL!,
+        process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+
+    const { data, error } = await supabase
+        .rpc('llm_spend_since', { since: since.toISOString(), firm: firmId ?? null })
+        .maybeSingle();
+
+    if (error) {
+        console.error('Error loading LLM spend from scrape_runs:', error);
+        return 0;
+    }
+
+    const spend = data as { spent_usd: number | string | null; unpriced_runs: number | string | null } | null;
+    const unpricedRuns = Number(spend?.unpriced_runs) || 0;
+    if (unpricedRuns > 0) {
+        console.warn(`[budget] ${unpricedRuns} run(s) since ${since.toISOString()}${firmId ? ` for firm ${firmId}` : ''} used unpriced models - their spend is undercounted`);
+    }
+
+    return Number(spend?.spent_usd) || 0;
+}
+
+/**
+ * Work out how much a run may spend: the tightest of the per-run limit and
+ * whatever is left of the firm's day/month and the global day budgets
+ *
+ * @example
+ * await resolveRunBudget('firm-uuid', { maxUsdPerRun: 2, maxUsdPerFirmPerDay: 5, ... })
+ * // firm already spent $4.20 today => { limitUsd: 0.8, limitedBy: 'maxUsdPerFirmPerDay', reservedUsd: 0.8 }
+ */
+export async function resolveRunBudget(firmId: string, budget: LlmBudget, now: Date = new Date()): Promise<RunBudget> {
+    const startOfDay = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+    const startOfMonth = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+
+    const candidates: Array<{ limitUsd: number; limitedBy: keyof LlmBudget }> = [];
+
+    if (budget.maxUsdPerRun !== null) {
+        candidates.push({ limitUsd: budget.maxUsdPerRun, limitedBy: 'maxUsdPerRun' });
+    }
+    if (budget.maxUsdPerFirmPerDay !== null) {
+        const spent = await sumRunCostSince(startOfDay, firmId);
+        candidates.push({ limitUsd: budget.maxUsdPerFirmPerDay - spent, limitedBy: 'maxUsdPerFirmPerDay' });
+    }
+    if (budget.maxUsdPerFirmPerMonth !== null) {
+        const spent = await sumRunCostSince(startOfMonth, firmId);
+        candidates.push({ limitUsd: budget.maxUsdPerFirmPerMonth - spent, limitedBy: 'maxUsdPerFirmPerMonth' });
+    }
+    if (budget.maxUsdGlobalPerDay !== null) {
+        const spent = await sumRunCostSince(startOfDay);
+        candidates.push({ limitUsd: budget.maxUsdGlobalPerDay - spent, limitedBy: 'maxUsdGlobalPerDay' });
+    }
+
+    if (candidates.length === 0) {
+        return { limitUsd: null, limitedBy: null, reservedUsd: null };
+    }
+
+    const tightest = candidates.reduce((min, candidate) => candidate.limitUsd < min.limitUsd ? candidate : min);
+    const limitUsd = Math.max(tightest.limitUsd, 0);
+    return {
+        limitUsd,
+        limitedBy: tightest.limitedBy,
+        reservedUsd: Math.min(limitUsd, budget.maxUsdPerRun ?? DEFAULT_RUN_RESERVATION_USD),
+    };
+}
+
+/**
+ * Checks tracked LLM spend against an allowance before each call
+ */
+export class LlmBudgetGuard {
+    private trackers: UsageTracker[] = [];
+
+    constructor(private limitUsd: number | null) {}
+
+    /**
+     * Count a tracker's spend against this allowance
+     */
+    track(...trackers: UsageTracker[]): void {
+        this.trackers.push(...trackers);
+    }
+
+    spentUsd(): number {
+        return this.trackers.reduce((sum, tracker) => sum + tracker.getCost().totalCost, 0);
+    }
+
+    /**
+     * Models whose usage couldn't be priced - their spend is missing from spentUsd()
+     */
+    unpricedModels(): string[] {
+        return Array.from(new Set(this.trackers.flatMap(tracker => tracker.getCost().unpricedModels)));
+    }
+
+    /**
+     * True once the allowance is used up - check before making another LLM call.
+     * Unpriced usage under a budget counts as exceeded: its cost is unknown, not zero.
+     */
+    isExceeded(): boolean {
+        if (this.limitUsd === null) return false;
+        return this.spentUsd() >= this.limitUsd || this.unpricedModels().length > 0;
+    }
+
+    describe(): string {
+        const unpriced = this.unpricedModels();
+        const unpricedNote = unpriced.length > 0 ? ` + unpriced usage from ${unpriced.join(', ')}` : '';
+        return this.limitUsd === null
+            ? `$${this.spentUsd().toFixed(4)}${unpricedNote} spent (no budget)`
+            : `$${this.spentUsd().toFixed(4)}${unpricedNote} of $${this.limitUsd.toFixed(4)} budget spent`;
+    }
+}
@@ -0,0 +1,82 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { runClosedRolePass, type ClosedRolePassInput } from './closed-role-detector';
+import type { ExistingRole } from './existing-role-checker';
+import { MemorySupabase, installMemorySupabase, type Row } from './replay/memory-supabase';
+
+const FIRM_ID = 'firm-1';
+const LISTING_URL = 'https://careers.acme.com/jobs';
+
+function role(overrides: Partial<ExistingRole> = {}): ExistingRole {
+    return {
+        id: 'role-1',
+        program_id: 'program-1',
+        role_id: 'analyst',
+        url: 'https://careers.acme.com/jobs/summer-analyst',
+        canonical_name: 'summer analyst',
+        is_open: true,
+        title: 'Summer Analyst',
+        consecutive_missed_runs: 0,
+        last_refreshed_at: null,
+        last_seen_at: '2026-09-01T00:00:00.000Z',
+        ...overrides,
+    };
+}
+
+function passInput(existing: ExistingRole): ClosedRolePassInput {
+    return {
+        listingUrl: LISTING_URL,
+        firmId: FIRM_ID,
+        existingRoles: { byUrl: new Map([[existing.url!, existing]]), byName: new Map() },
+        allRolesInScan: [{ title: 'Spring Insight', url: 'https://careers.acme.com/jobs/spring-insight' }],
+        missedRunsBeforeClosed: 3,
+    };
+}
+
+async function runAgainst(tables: Record<string, Row[]>, existing: ExistingRole) {
+    const db = new MemorySupabase(tables);
+    const restore = installMemorySupabase(db);
+    try {
+        return { result: await runClosedRolePass(passInput(existing)), db };
+    } finally {
+        restore();
+    }
+}
+
+function closedDraft(status: string, createdAt: string): Row {
+    return { id: `draft-${status}`, firm_id: FIRM_ID, existing_role_id: 'role-1', update_type: 'CLOSED', status, created_at: createdAt };
+}
+
+test('drafts CLOSED once the miss counter reaches the threshold', async () => {
+    const existing = role({ consecutive_missed_runs: 1 });
+    const below = await runAgainst({ program_roles: [{ ...existing }], role_discovery_drafts: [] }, existing);
+    assert.equal(below.result.closedDrafts.length, 0);
+
+    const atThreshold = role({ consecutive_missed_runs: 2 });
+    const { result, db } = await runAgainst({ program_roles: [{ ...atThreshold }], role_discovery_drafts: [] }, atThreshold);
+    assert.equal(result.closedDrafts.length, 1);
+    assert.equal(db.tables.role_discovery_drafts.length, 1);
+    assert.equal(db.tables.program_roles[0].consecutive_missed_runs, 3);
+});
+
+test('a dismissed CLOSED draft is not re-queued while the role stays missing', async () => {
+    const existing = role({ consecutive_missed_runs: 5 });
+    const { result, db } = await runAgainst({
+        program_roles: [{ ...existing }],
+        role_discovery_drafts: [closedDraft('dismissed', '2026-09-20T00:00:00.000Z')],
+    }, existing);
+
+    assert.equal(result.closedDrafts.length, 0);
+    assert.equal(db.tables.role_discovery_drafts.length, 1);
+    assert.equal(db.tables.program_roles[0].consecutive_missed_runs, 6);
+});
+
+test('a role listed again after a dismissed closure can be drafted again', async () => {
+    const existing = role({ consecutive_missed_runs: 2, last_seen_at: '2026-10-01T00:00:00.000Z' });
+    const { result } = await runAgainst({
+        program_roles: [{ ...existing }],
+        role_discovery_drafts: [closedDraft('dismissed', '2026-09-20T00:00:00.000Z')],
+    }, existing);
+
+    assert.equal(result.closedDrafts.length, 1);
+});
@@ -0,0 +1,287 @@
+/**
+ * Closed Role Detector
+ *
+ * Runs after the LIST phase. Compares the firm's open roles against every
+ * role seen in this scan and flags the ones that have vanished from the listing.
+ *
+ * A role only counts as gone after it has been missing for N consecutive runs
+ * (a single flaky render shouldn't close half a firm). When the threshold is
+ * crossed, a CLOSED draft is queued for admin review. Once a reviewer has
+ * approved or dismissed that draft, the same absence isn't drafted again -
+ * only a role that is listed again (last_seen_at moves) and then vanishes is.
+ *
+ * In a dry run the counters are read but never written, and the CLOSED
+ * drafts are built and returned instead of queued.
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import { extractCanonicalName } from './canonical-name';
+import { normalizeUrl } from './url-normalizer';
+import { saveClosedRoleDraft, buildClosedRoleDraft, type DiscoveryDrafts } from './save-discoveries';
+import type { ExistingRole, ExistingRolesByUrl, ExistingRolesByName } from './existing-role-checker';
+import type { ScanTruncation } from './list-phase';
+import { DEFAULT_SCRAPER_CONFIG } from '@/packages/schemas/careers-scraping';
+
+export interface ClosedRolePassInput {
+    listingUrl: string;
+    firmId: string;
+    existingRoles: {
+        byUrl: ExistingRolesByUrl;
+        byName: ExistingRolesByName;
+    };
+    allRolesInScan: Array<{ title: string; url: string }>;
+    scanTruncatedBy?: ScanTruncation; // Set when the LIST phase didn't reach every role - the pass is skipped
+    missedRunsBeforeClosed?: number;
+    dryRun?: boolean;
+}
+
+export interface ClosedRoleDraft {
+    existingRoleId: string;
+    title: string;
+    url: string;
+    missedRuns: number;
+    roleDraftId?: string;
+    draft?: DiscoveryDrafts['role']; // Dry run only - the draft that would have been queued
+}
+
+export interface ClosedRolePassResult {
+    rolesChecked: number;
+    rolesSeen: number;
+    rolesMissing: number;
+    closedDrafts: ClosedRoleDraft[];
+    logs: string[];
+}
+
+function getHostname(url: string): string | null {
+    try {
+        return new URL(url).hostname.toLowerCase();
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Pick the open, URL-backed roles that this listing is responsible for.
+ *
+ * A firm can have several scrape_urls, so only roles hosted on the same
+ * domain as the listing (or as a role found in this scan) are considered.
+ * Trackr-sourced roles without a URL are never closed automatically.
+ */
+function selectTrackedRoles(
+    existingByUrl: ExistingRolesByUrl,
+    listingUrl: string,
+    allRolesInScan: Array<{ title: string; url: string }>
+): ExistingRole[] {
+    const hosts = new Set<string>();
+    for (const url of [listingUrl, ...allRolesInScan.map(r => r.url)]) {
+        const host = getHostname(url);
+        if (host) hosts.add(host);
+    }
+
+    const tracked = new Map<string, ExistingRole>();
+    for (const role of existingByUrl.values()) {
+        if (role.is_open !== true || !role.url) continue;
+
+        const host = getHostname(role.url);
+        if (!host || !hosts.has(host)) continue;
+
+        tracked.set(role.id, role);
+    }
+
+    return Array.from(tracked.values());
+}
+
+/**
+ * Latest approved or dismissed CLOSED draft per role, by creation time
+ */
+async function loadReviewedClosures(firmId: string, roleIds: string[]): Promise<Map<string, number>> {
+    const reviewed = new Map<string, number>();
+    if (roleIds.length === 0) return reviewed;
+
+    const supabase = createClient(
+        process.env.NEXT_PUBLIC_SUPABASE_URL!,
+        process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+
+    const { data, error } = await supabase
+        .from('role_discovery_drafts')
+        .select('existing_role_id, created_at')
+        .eq('firm_id', firmId)
+        .eq('update_type', 'CLOSED')
+        .in('status', ['approved', 'dismissed'])
+        .in('existing_role_id', roleIds);
+
+    if (error) {
+        console.error('Error loading reviewed CLOSED drafts:', error);
+        return reviewed;
+    }
+
+    for (const draft of data ?? []) {
+        const createdAt = Date.parse(draft.created_at);
+        if (createdAt > (reviewed.get(draft.existing_role_id) ?? -Infinity)) {
+            reviewed.set(draft.existing_role_id, createdAt);
+        }
+    }
+
+    return reviewed;
+}
+
+/**
+ * Run the disappeared-roles pass for a single listing scan.
+ *
+ * - Roles present in the scan (by URL or canonical name) have their miss counter reset
+ * - Roles absent from the scan have their miss counter incremented
+ * - Roles whose counter reaches the threshold get a CLOSED draft, unless a reviewer already
+ *   approved or dismissed one since the role was last listed
+ * - A truncated scan (maxPages, maxRoles or the ATS job cap hit, an empty first page) skips the pass entirely
+ * - With dryRun, nothing is written and the CLOSED drafts are returned on closedDrafts
+ */
+export async function runClosedRolePass(input: ClosedRolePassInput): Promise<ClosedRolePassResult> {
+    const logs: string[] = [];
+
+    const log = (msg: string) => {
+        const timestamp = new Date().toISOString();
+        console.log(`[${timestamp}] ${msg}`);
+        logs.push(`[${timestamp}] ${msg}`);
+    };
+
+    const threshold = input.missedRunsBeforeClosed ?? DEFAULT_SCRAPER_CONFIG.missedRunsBeforeClosed;
+    const result: ClosedRolePassResult = {
+        rolesChecked: 0,
+        rolesSeen: 0,
+        rolesMissing: 0,
+        closedDrafts: [],
+        logs,
+    };
+
+    // An empty scan almost always means a rendering failure, not a firm closing every role
+    if (input.allRolesInScan.length === 0) {
+        log('[CLOSED] ⚠️ No roles in scan - skipping disappeared-roles pass');
+        return result;
+    }
+
+    // Roles the scan never reached aren't missing - counting them would close them by attrition
+    if (input.scanTruncatedBy) {
+        log(`[CLOSED] ⚠️ Scan truncated (${input.scanTruncatedBy}) - skipping disappeared-roles pass`);
+        return result;
+    }
+
+    const trackedRoles = selectTrackedRoles(input.existingRoles.byUrl, input.listingUrl, input.allRolesInScan);
+    result.rolesChecked = trackedRoles.length;
+    log(`[CLOSED] Checking ${trackedRoles.length} open roles against ${input.allRolesInScan.length} roles in scan (threshold: ${threshold} runs)`);
+
+    if (trackedRoles.length === 0) {
+        return result;
+    }
+
+    const scannedUrls = new Set(input.allRolesInScan.map(r => normalizeUrl(r.url)));
+    const scannedNames = new Set(input.allRolesInScan.map(r => extractCanonicalName(r.title)));
+
+    const seen: ExistingRole[] = [];
+    const missing: ExistingRole[] = [];
+
+    for (const role of trackedRoles) {
+        const urlMatch = role.url ? scannedUrls.has(normalizeUrl(role.url)) : false;
+        const nameMatch = role.canonical_name ? scannedNames.has(role.canonical_name) : false;
+
+        if (urlMatch || nameMatch) {
+            seen.push(role);
+        } else {
+            missing.push(role);
+        }
+    }
+
+    result.rolesSeen = seen.length;
+    result.rolesMissing = missing.length;
+
+    const supabase = createClient(
+        process.env.NEXT_PUBLIC_SUPABASE_URL!,
+        process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+
+    // Reset counters for roles that are still listed
+    const now = new Date().toISOString();
+    if (seen.length > 0 && !input.dryRun) {
+        const { error } = await supabase
+            .from('program_roles')
+            .update({ consecutive_missed_runs: 0, last_seen_at: now })
+            .in('id', seen.map(r => r.id));
+
+        if (error) {
+            log(`[CLOSED] ⚠️ Failed to reset miss counters: ${error.message}`);
+        }
+    }
+
+    const reviewedClosures = await loadReviewedClosures(
+        input.firmId,
+        missing.filter(role => role.consecutive_missed_runs + 1 >= threshold).map(role => role.id)
+    );
+
+    // Increment counters for missing roles (per-row, each role has its own count)
+    for (const role of missing) {
+        const missedRuns = role.consecutive_missed_runs + 1;
+
+        if (!input.dryRun) {
+            const { error } = await supabase
+                .from('program_roles')
+                .update({ consecutive_missed_runs: missedRuns })
+                .eq('id', role.id);
+
+            if (error) {
+                log(`[CLOSED] ⚠️ Failed to update miss counter for ${role.id}: ${error.message}`);
+                continue;
+            }
+        }
+
+        log(`[CLOSED]   - "${(role.title || role.url || role.id).substring(0, 50)}" missing (${missedRuns}/${threshold})`);
+
+        // Draft at or past the threshold - a failed save or a lowered threshold still gets its CLOSED draft,
+        // and saveClosedRoleDraft keeps a pending one rather than duplicating it
+        if (missedRuns < threshold) continue;
+
+        // The counter keeps climbing after review - a decided closure isn't re-queued on every run
+        const reviewedAt = reviewedClosures.get(role.id);
+        if (reviewedAt !== undefined && (!role.last_seen_at || reviewedAt > Date.parse(role.last_seen_at))) {
+            log(`[CLOSED]   ↳ CLOSED draft already reviewed for "${(role.title || role.url || role.id).substring(0, 50)}" - not re-queuing`);
+            continue;
+        }
+
+        const draft: ClosedRoleDraft = {
+            existingRoleId: role.id,
+            title: role.title || role.url!,
+            url: role.url!,
+            missedRuns,
+        };
+
+        const draftData = {
+            firmId: input.firmId,
+            existingRoleId: role.id,
+            programId: role.program_id,
+            title: draft.title,
+            url: draft.url,
+            missedRuns,
+        };
+
+        if (input.dryRun) {
+            draft.draft = buildClosedRoleDraft(draftData);
+            log(`[CLOSED] 🧪 Dry run - would queue CLOSED draft for "${draft.title}"`);
+            result.closedDrafts.push(draft);
+            continue;
+        }
+
+        const saved = await saveClosedRoleDraft(draftData);
+
+        if (saved) {
+            draft.roleDraftId = saved.id;
+            log(`[CLOSED] 🔒 Queued CLOSED draft ${saved.id} for "${draft.title}"`);
+        } else {
+            log(`[CLOSED] ⚠️ Failed to save CLOSED draft for ${role.id}`);
+        }
+
+        result.closedDrafts.push(draft);
+    }
+
+    log(`[CLOSED] ✓ ${seen.length} still listed, ${missing.length} missing, ${result.closedDrafts.length} CLOSED drafts`);
+
+    return result;
+}
@@ -1,27 +1,15 @@
-/**
- * Pricing for GPT-4o (as of Dec 2024)
- * Source: https://openai.com/api/pricing/
- */
-const GPT4O_INPUT_COST_PER_MILLION = 2.50;
-const GPT4O_OUTPUT_COST_PER_MILLION = 10.00;
-
-/**
- * Pricing for GPT-4o-mini
- */
-const GPT4O_MINI_INPUT_COST_PER_MILLION = 0.15;
-const GPT4O_MINI_OUTPUT_COST_PER_MILLION = 0.60;
-
-/**
- * Pricing for GPT-5 mini
- * Optimized for reasoning/chat tasks with 400k context
- */
-const GPT5_MINI_INPUT_COST_PER_MILLION = 0.25;
-const GPT5_MINI_OUTPUT_COST_PER_MILLION = 2.00;
+import type { LlmTask } from './llm-registry';
+import type { LlmUsageEntry } from '@/packages/schemas/careers-scraping';
+import { getModelPricing } from './pricing-registry';
 
 export interface TokenUsage {
-    promptTokens: number;
-    completionTokens: number;
+    promptTokens: number;        // Includes cachedInputTokens
+    completionTokens: number;    // Includes reasoningTokens
     totalTokens: number;
+    cachedInputTokens?: number;
+    reasoningTokens?: number;
+    model?: string;              // "provider:model" that produced this usage
+    task?: LlmTask;
 }
 
 export interface CostBreakdown {
@@ -31,82 +19,235 @@ export interface CostBreakdown {
     totalTokens: number;
     promptTokens: number;
     completionTokens: number;
+    cachedInputTokens: number;
+    reasoningTokens: number;
+    unpricedModels: string[]; // Usage from these models is excluded from the costs
+}
+
+/**
+ * Usage and cost for one (task, model) pair
+ */
+export interface UsageBreakdownEntry {
+    task: LlmTask | null;
+    model: string;
+    calls: number;
+    promptTokens: number;
+    completionTokens: number;
+    cachedInputTokens: number;
+    reasoningTokens: number;
+    totalTokens: number;
+    costUsd: number | null; // null when the model has no pricing entry
 }
 
-export type ExtractionModel = 'gpt-4o-mini' | 'gpt-5-mini';
-export type ClassificationModel = 'gpt-4o-mini';
-export type LLMModel = ExtractionModel | ClassificationModel;
+/**
+ * Normalise provider usage into TokenUsage.
+ * Accepts AI SDK (inputTokens/outputTokens), legacy (promptTokens/completionTokens)
+ * and raw OpenAI (prompt_tokens/completion_tokens) field names.
+ *
+ * If only a total is reported, the prompt/completion split is estimated with promptShare.
+ *
+ * @example
+ * normalizeUsage({ inputTokens: 1200, outputTokens: 300, cachedInputTokens: 1024 }, { model: 'openai:gpt-4o-mini' })
+ * // => { promptTokens: 1200, completionTokens: 300, totalTokens: 1500, cachedInputTokens: 1024, reasoningTokens: 0, model: 'openai:gpt-4o-mini' }
+ */
+export function normalizeUsage(
+    raw: unknown,
+    options: { model?: string; task?: LlmTask; promptShare?: number } = {}
+): TokenUsage {
+    const usage = (raw ?? {}) as Record<string, any>;
+
+    let promptTokens: number = usage.promptTokens ?? usage.prompt_tokens ?? usage.inputTokens ?? 0;
+    let completionTokens: number = usage.completionTokens ?? usage.completion_tokens ?? usage.outputTokens ?? 0;
+    const totalTokens: number = usage.totalTokens ?? usage.total_tokens ?? promptTokens + completionTokens;
+    const cachedInputTokens: number = usage.cachedInputTokens
+        ?? usage.prompt_tokens_details?.cached_tokens
+        ?? usage.inputTokenDetails?.cacheReadTokens
+        ?? 0;
+    const reasoningTokens: number = usage.reasoningTokens
+        ?? usage.completion_tokens_details?.reasoning_tokens
+        ?? usage.outputTokenDetails?.reasoningTokens
+        ?? 0;
+
+    // Fallback: breakdown not available but total is
+    if (promptTokens === 0 && completionTokens === 0 && totalTokens > 0) {
+        const promptShare = options.promptShare ?? 0.8;
+        console.warn(`Token breakdown not available, estimating ${Math.round(promptShare * 100)}% prompt`);
+        promptTokens = Math.floor(totalTokens * promptShare);
+        completionTokens = totalTokens - promptTokens;
+    }
+
+    return {
+        promptTokens,
+        completionTokens,
+        totalTokens,
+        cachedInputTokens,
+        reasoningTokens,
+        model: options.model,
+        task: options.task,
+    };
+}
 
 /**
  * Calculates the cost of an API call based on token usage.
- * @param usage Token usage from the AI SDK
- * @param model Model used
+ * Cached input tokens are billed at the model's cached-input rate.
+ * Unpriced models cost 0 and are listed in unpricedModels - never guessed.
+ * @param usage Token usage (normalised)
+ * @param model Model spec - defaults to usage.model
+ * @param at When the usage happened - selects the pricing in effect (defaults to now)
  * @returns Cost breakdown in USD
  */
-export function calculateCost(
-    usage: TokenUsage,
-    model: LLMModel = 'gpt-4o-mini'
-): CostBreakdown {
-    let inputCostPerMillion: number;
-    let outputCostPerMillion: number;
-
-    switch (model) {
-        case 'gpt-4o':
-            inputCostPerMillion = GPT4O_INPUT_COST_PER_MILLION;
-            outputCostPerMillion = GPT4O_OUTPUT_COST_PER_MILLION;
-            break;
-        case 'gpt-4o-mini':
-            inputCostPerMillion = GPT4O_MINI_INPUT_COST_PER_MILLION;
-            outputCostPerMillion = GPT4O_MINI_OUTPUT_COST_PER_MILLION;
-            break;
-        default:
-            inputCostPerMillion = GPT5_MINI_INPUT_COST_PER_MILLION;
-            outputCostPerMillion = GPT5_MINI_OUTPUT_COST_PER_MILLION;
-    }
+export function calculateCost(usage: TokenUsage, model?: string, at: Date = new Date()): CostBreakdown {
+    const modelSpec = model ?? usage.model ?? 'unknown';
+    const pricing = getModelPricing(modelSpec, at);
+    const cachedInputTokens = usage.cachedInputTokens ?? 0;
+    const uncachedInputTokens = Math.max(usage.promptTokens - cachedInputTokens, 0);
 
-    const inputCost = (usage.promptTokens / 1_000_000) * inputCostPerMillion;
-    const outputCost = (usage.completionTokens / 1_000_000) * outputCostPerMillion;
-    const totalCost = inputCost + outputCost;
+    const inputCost = pricing
+        ? (uncachedInputTokens / 1_000_000) * pricing.input_per_million
+            + (cachedInputTokens / 1_000_000) * pricing.cached_input_per_million
+        : 0;
+    const outputCost = pricing ? (usage.completionTokens / 1_000_000) * pricing.output_per_million : 0;
 
     return {
         inputCost,
         outputCost,
-        totalCost,
+        totalCost: inputCost + outputCost,
         totalTokens: usage.totalTokens,
         promptTokens: usage.promptTokens,
         completionTokens: usage.completionTokens,
+        cachedInputTokens,
+        reasoningTokens: usage.reasoningTokens ?? 0,
+        unpricedModels: pricing ? [] : [modelSpec],
     };
 }
 
 /**
- * Accumulates usage across multiple API calls.
+ * Re-price stored usage (ScrapeMetrics.llm_usage) with the pricing in effect at a given time
+ *
+ * @example
+ * repriceUsage(run.metrics.llm_usage, new Date(run.started_at))
+ * // => same entries with cost_usd recomputed from the current pricing table
+ */
+export function repriceUsage(entries: LlmUsageEntry[], at: Date): LlmUsageEntry[] {
+    return entries.map(entry => {
+        const cost = calculateCost({
+            promptTokens: entry.prompt_tokens,
+            completionTokens: entry.completion_tokens,
+            totalTokens: entry.total_tokens,
+            cachedInputTokens: entry.cached_input_tokens,
+            reasoningTokens: entry.reasoning_tokens,
+        }, entry.model, at);
+
+        return { ...entry, cost_usd: cost.unpricedModels.length > 0 ? null : cost.totalCost };
+    });
+}
+
+function breakdownKey(task: LlmTask | null, model: string): string {
+    return `${task ?? ''}|${model}`;
+}
+
+/**
+ * Merge breakdowns from several trackers/phases, summing entries for the same (task, model)
+ */
+export function mergeUsageBreakdowns(...breakdowns: UsageBreakdownEntry[][]): UsageBreakdownEntry[] {
+    const merged = new Map<string, UsageBreakdownEntry>();
+
+    for (const entry of breakdowns.flat()) {
+        const key = breakdownKey(entry.task, entry.model);
+        const existing = merged.get(key);
+        if (!existing) {
+            merged.set(key, { ...entry });
+            continue;
+        }
+        existing.calls += entry.calls;
+        existing.promptTokens += entry.promptTokens;
+        existing.completionTokens += entry.completionTokens;
+        existing.cachedInputTokens += entry.cachedInputTokens;
+        existing.reasoningTokens += entry.reasoningTokens;
+        existing.totalTokens += entry.totalTokens;
+        existing.costUsd = existing.costUsd === null || entry.costUsd === null
+            ? null
+            : existing.costUsd + entry.costUsd;
+    }
+
+    return Array.from(merged.values());
+}
+
+type UsageTotals = Required<Pick<TokenUsage, 'promptTokens' | 'completionTokens' | 'totalTokens' | 'cachedInputTokens' | 'reasoningTokens'>>;
+
+function emptyTotals(): UsageTotals {
+    return { promptTokens: 0, completionTokens: 0, totalTokens: 0, cachedInputTokens: 0, reasoningTokens: 0 };
+}
+
+function addToTotals(totals: UsageTotals, usage: TokenUsage): void {
+    totals.promptTokens += usage.promptTokens;
+    totals.completionTokens += usage.completionTokens;
+    totals.totalTokens += usage.totalTokens;
+    totals.cachedInputTokens += usage.cachedInputTokens ?? 0;
+    totals.reasoningTokens += usage.reasoningTokens ?? 0;
+}
+
+/**
+ * Accumulates usage across multiple API calls, per (task, model),
+ * so each call is priced at the rates of the model that served it.
  */
 export class UsageTracker {
-    private promptTokens = 0;
-    private completionTokens = 0;
-    private totalTokens = 0;
+    private entries = new Map<string, { task: LlmTask | null; model: string; calls: number; totals: UsageTotals }>();
 
     add(usage: TokenUsage): void {
-        this.promptTokens += usage.promptTokens;
-        this.completionTokens += usage.completionTokens;
-        this.totalTokens += usage.totalTokens;
+        // Failed calls report zero usage and no model - nothing to price
+        if (!usage.model && usage.totalTokens === 0) return;
+
+        const task = usage.task ?? null;
+        const model = usage.model ?? 'unknown';
+        const key = breakdownKey(task, model);
+        const entry = this.entries.get(key) ?? { task, model, calls: 0, totals: emptyTotals() };
+
+        entry.calls += 1;
+        addToTotals(entry.totals, usage);
+        this.entries.set(key, entry);
     }
 
     getUsage(): TokenUsage {
-        return {
-            promptTokens: this.promptTokens,
-            completionTokens: this.completionTokens,
-            totalTokens: this.totalTokens,
-        };
+        const totals = emptyTotals();
+        for (const entry of this.entries.values()) {
+            addToTotals(totals, entry.totals);
+        }
+        return totals;
+    }
+
+    /**
+     * Total cost, with each model's usage priced at its own rates
+     */
+    getCost(): CostBreakdown {
+        const total: CostBreakdown = { ...emptyTotals(), inputCost: 0, outputCost: 0, totalCost: 0, unpricedModels: [] };
+
+        for (const { model, totals } of this.entries.values()) {
+            const cost = calculateCost(totals, model);
+            total.inputCost += cost.inputCost;
+            total.outputCost += cost.outputCost;
+            total.totalCost += cost.totalCost;
+            addToTotals(total, cost);
+            total.unpricedModels.push(...cost.unpricedModels.filter(m => !total.unpricedModels.includes(m)));
+        }
+
+        return total;
     }
 
-    getCost(model: LLMModel = 'gpt-4o-mini'): CostBreakdown {
-        return calculateCost(this.getUsage(), model);
+    getBreakdown(): UsageBreakdownEntry[] {
+        return Array.from(this.entries.values()).map(({ task, model, calls, totals }) => {
+            const cost = calculateCost(totals, model);
+            return {
+                task,
+                model,
+                calls,
+                ...totals,
+                costUsd: cost.unpricedModels.length > 0 ? null : cost.totalCost,
+            };
+        });
     }
 
     reset(): void {
-        this.promptTokens = 0;
-        this.completionTokens = 0;
-        this.totalTokens = 0;
+        this.entries.clear();
     }
 }
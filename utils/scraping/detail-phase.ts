@@ -4,18 +4,29 @@
  * Phase 2 of the exploration pipeline.
  * Processes a single role detail page - extracts structured data,
  * suggests programme, and saves to DB.
+ * With dryRun the would-be drafts are returned instead of saved.
  *
  * Designed to run in parallel via Trigger.dev batchTrigger.
  */
 
 import { PlaywrightCrawler, createPlaywrightRouter, Configuration } from 'crawlee';
-import { extractRoleFromHtml } from './extractor';
+import { cleanHtmlToMarkdown, extractRoleFromMarkdown } from './extractor';
+import { fillFromListing } from './listing-metadata';
+import { hashContent, getCachedExtraction, saveCachedExtraction } from './extraction-cache';
+import { resolveModelChain, formatModelRef } from './llm-registry';
 import { suggestProgramme, normalizeProgrammeName } from './programme-suggester';
-import { UsageTracker } from './cost-calculator';
-import { saveDiscovery } from './save-discoveries';
+import { UsageTracker, mergeUsageBreakdowns, type UsageBreakdownEntry } from './cost-calculator';
+import { saveDiscovery, saveUpdatedRoleDraft, buildDiscoveryDrafts, buildUpdatedRoleDraft, type DiscoveryDrafts } from './save-discoveries';
+import { loadStoredRole, diffScrapedRole, markRoleRefreshed } from './role-change-detector';
 import { createClient } from '@supabase/supabase-js';
-import type { RoleAction } from '@/packages/schemas/careers-scraping';
+import { DEFAULT_SCRAPER_CONFIG } from '@/packages/schemas/careers-scraping';
+import type { ListingMetadata, RoleAction, ScrapedRole, ScraperConfig, ScrapeStopReason } from '@/packages/schemas/careers-scraping';
 import { ExpectedProgramme } from './programme-suggester';
+import { getAtsAdapter } from './ats/registry';
+import type { AtsJobRef } from './ats/types';
+import { LlmBudgetGuard } from './budget-guard';
+import { applyPageInterceptor } from './page-interceptor';
+import { openSnapshotCapture, captureScrapedRole, bufferCapturedResponses, type CapturedResponse } from './snapshot-capture';
 
 export interface DetailPhaseInput {
     url: string;
@@ -34,31 +45,411 @@ export interface DetailPhaseInput {
         program_type: string;
     }>;
     allRolesInScan: Array<{ title: string; url: string }>;
-    scraperConfig?: any;
+    scraperConfig?: ScraperConfig; // Parsed by the caller - defaults apply when omitted
+    ats?: AtsJobRef; // Fetch the posting from the ATS JSON API instead of rendering the page
+    listing?: ListingMetadata; // What the listing card showed - corroborates and fills gaps in extraction
 }
 
 export interface DetailPhaseResult {
     success: boolean;
     url: string;
     title?: string;
+    scrapedRole?: ScrapedRole; // The extracted role, for callers that display it (e.g. the CLI)
+    programmeName?: string | null; // Suggested new or matched existing programme
     programmeDraftId?: string;
     roleDraftId?: string;
+    drafts?: DiscoveryDrafts; // Dry run only - what would have been saved (absent for SKIP / no changes)
+    changedFields?: string[]; // UPDATED only - empty when the refresh found no changes
     metrics: {
         totalTokensUsed: number;
         totalCostUsd: number;
         durationSeconds: number;
+        cacheHits?: number; // 1 when the extraction came from the content-hash cache (no LLM call)
+        llmUsage?: UsageBreakdownEntry[]; // Per (task, model)
     };
+    stopReason?: ScrapeStopReason; // Skipped (or stopped mid-way) because the LLM budget ran out
     error?: string;
     logs: string[];
 }
 
+interface AtsPosting {
+    html: string;
+    apiResponses: CapturedResponse[]; // The API responses it was built from - saved with the snapshot capture
+}
+
+/**
+ * Fetch posting HTML from the ATS API.
+ * Returns null (and logs) when the caller should fall back to the browser.
+ */
+async function fetchAtsHtml(ats: AtsJobRef, log: (msg: string) => void): Promise<AtsPosting | null> {
+    try {
+        const adapter = getAtsAdapter(ats.provider);
+        const { value: detail, responses } = await bufferCapturedResponses(async () =>
+            adapter.fetchJobDetail ? adapter.fetchJobDetail(ats.detailApiUrl) : null
+        );
+
+        if (detail) {
+            log(`[DETAIL] ${ats.provider} API returned posting (${detail.html.length} chars)`);
+            return { html: detail.html, apiResponses: responses };
+        }
+
+        log(`[DETAIL] ⚠️ ${ats.provider} API has no detail - falling back to browser`);
+    } catch (error) {
+        log(`[DETAIL] ⚠️ ${ats.provider} API failed (${error instanceof Error ? error.message : String(error)}) - falling back to browser`);
+    }
+
+    return null;
+}
+
+export interface DetailPhaseOptions {
+    budgetUsd?: number | null; // LLM allowance shared by every role in the call (null = unlimited) - see budget-guard
+    dryRun?: boolean; // Extract and suggest as usual, but write nothing - drafts come back on the result
+}
+
+/**
+ * Result for a role the budget guard stopped before (or part-way through) its LLM calls
+ */
+function budgetExceededResult(
+    input: DetailPhaseInput,
+    budgetGuard: LlmBudgetGuard,
+    trackers: UsageTracker[],
+    log: (msg: string) => void,
+    startTime: number
+): DetailPhaseResult {
+    log(`[DETAIL] 🛑 LLM budget exceeded (${budgetGuard.describe()}) - stopping`);
+    return {
+        success: false,
+        url: input.url,
+        metrics: {
+            totalTokensUsed: trackers.reduce((sum, tracker) => sum + tracker.getCost().totalTokens, 0),
+            totalCostUsd: trackers.reduce((sum, tracker) => sum + tracker.getCost().totalCost, 0),
+            durationSeconds: (Date.now() - startTime) / 1000,
+            llmUsage: mergeUsageBreakdowns(...trackers.map(tracker => tracker.getBreakdown())),
+        },
+        stopReason: 'budget_exceeded',
+        error: 'budget_exceeded',
+        logs: [],
+    };
+}
+
+/**
+ * Diff a fresh extraction of a tracked role against program_roles and draft UPDATED if anything changed
+ */
+async function refreshTrackedRole(
+    input: DetailPhaseInput,
+    scrapedRole: ScrapedRole,
+    extractionTracker: UsageTracker,
+    cacheHits: number,
+    dryRun: boolean,
+    log: (msg: string) => void,
+    startTime: number
+): Promise<DetailPhaseResult> {
+    if (!input.existingRoleId) {
+        throw new Error('UPDATED refresh requires an existing role ID');
+    }
+
+    const cost = extractionTracker.getCost();
+    const metrics = {
+        totalTokensUsed: cost.totalTokens,
+        totalCostUsd: cost.totalCost,
+        durationSeconds: (Date.now() - startTime) / 1000,
+        cacheHits,
+        llmUsage: extractionTracker.getBreakdown(),
+    };
+
+    // The extractor's failure placeholder would diff as a rename with every other field cleared
+    if (scrapedRole.title === 'Extraction Failed') {
+        log('[DETAIL] ⚠️ Extraction failed - skipping refresh diff');
+        return { success: false, url: input.url, metrics, error: 'Refresh extraction failed', logs: [] };
+    }
+
+    const stored = await loadStoredRole(input.existingRoleId);
+    if (!stored) {
+        throw new Error(`Existing role ${input.existingRoleId} not found for refresh`);
+    }
+
+    // Only a completed refresh moves last_refreshed_at - a failed save is retried on the next scan
+    const changes = diffScrapedRole(stored, scrapedRole);
+    if (changes.length === 0) {
+        log('[DETAIL] ✓ Refresh: no changes');
+        if (!dryRun) {
+            await markRoleRefreshed(input.existingRoleId);
+        }
+        return { success: true, url: input.url, title: scrapedRole.title, changedFields: [], metrics, logs: [] };
+    }
+
+    for (const change of changes) {
+        log(`[DETAIL] 🔄 ${change.field}: ${JSON.stringify(change.previous)} → ${JSON.stringify(change.current)}`);
+    }
+
+    const draftData = {
+        firmId: input.firmId,
+        existingRoleId: input.existingRoleId,
+        programId: stored.program_id,
+        scrapedRole,
+        url: input.url,
+        changes,
+    };
+
+    if (dryRun) {
+        log(`[DETAIL] 🧪 Dry run - would save UPDATED draft (${changes.length} changed fields)`);
+        return {
+            success: true,
+            url: input.url,
+            title: scrapedRole.title,
+            drafts: { programme: null, role: buildUpdatedRoleDraft(draftData) },
+            changedFields: changes.map(change => change.field),
+            metrics,
+            logs: [],
+        };
+    }
+
+    log('[DETAIL] 💾 Saving UPDATED draft...');
+    const saved = await saveUpdatedRoleDraft(draftData);
+
+    if (!saved) {
+        log('[DETAIL] ⚠️ Failed to save to DB');
+        return {
+            success: false,
+            url: input.url,
+            metrics,
+            error: 'Refresh diff completed but save failed',
+            logs: [],
+        };
+    }
+
+    log(`[DETAIL] ✓ Saved! UPDATED draft: ${saved.id} (${changes.length} changed fields)`);
+    await markRoleRefreshed(input.existingRoleId);
+    return {
+        success: true,
+        url: input.url,
+        title: scrapedRole.title,
+        roleDraftId: saved.id,
+        changedFields: changes.map(change => change.field),
+        metrics,
+        logs: [],
+    };
+}
+
+/**
+ * Extract, suggest programme, dedup against pending drafts and save.
+ * Shared by the browser and ATS paths - throws if extraction fails.
+ * With scraperConfig.capture on, the page, ATS API responses, LLM calls and role are saved as a snapshot.
+ * With dryRun nothing is written to the DB (the extraction cache included).
+ */
+async function processRoleHtml(
+    input: DetailPhaseInput,
+    html: string,
+    budgetGuard: LlmBudgetGuard,
+    dryRun: boolean,
+    log: (msg: string) => void,
+    startTime: number,
+    apiResponses: CapturedResponse[] = []
+): Promise<DetailPhaseResult> {
+    const capture = input.scraperConfig?.capture
+        ? await openSnapshotCapture('detail', input.url, { id: input.firmId, name: input.firmName, slug: input.firmSlug }, input.scraperConfig)
+        : null;
+
+    if (!capture) {
+        return extractAndSaveRole(input, html, budgetGuard, dryRun, log, startTime);
+    }
+
+    log(`[DETAIL] 📸 Capturing snapshot to ${capture.dir}`);
+    try {
+        await capture.savePage(input.url, html);
+        for (const response of apiResponses) {
+            await capture.saveResponse(response);
+        }
+        return await capture.run(() => extractAndSaveRole(input, html, budgetGuard, dryRun, log, startTime));
+    } finally {
+        await capture.close();
+    }
+}
+
+async function extractAndSaveRole(
+    input: DetailPhaseInput,
+    html: string,
+    budgetGuard: LlmBudgetGuard,
+    dryRun: boolean,
+    log: (msg: string) => void,
+    startTime: number
+): Promise<DetailPhaseResult> {
+    const { extractionModel, suggestionModel } = input.scraperConfig ?? DEFAULT_SCRAPER_CONFIG;
+    const extractionModelSpec = formatModelRef(resolveModelChain('role-extraction', extractionModel)[0]);
+    const extractionTracker = new UsageTracker();
+    const suggestionTracker = new UsageTracker();
+    budgetGuard.track(extractionTracker, suggestionTracker);
+
+    // Reuse the previous extraction when the cleaned page content is unchanged - the listing card is left
+    // out of the key (its text and dates shift between scans while the role page stays the same)
+    const markdown = cleanHtmlToMarkdown(html);
+    const contentHash = hashContent(markdown);
+    const cachedRole = await getCachedExtraction({ url: input.url, contentHash, extractionModel: extractionModelSpec });
+    const cacheHits = cachedRole ? 1 : 0;
+
+    let extraction: { role: ScrapedRole };
+    if (cachedRole) {
+        log('[DETAIL] ♻️ Content unchanged since last extraction - using cached role (no LLM call)');
+        extraction = { role: input.listing ? fillFromListing(cachedRole, input.listing) : cachedRole };
+    } else {
+        if (budgetGuard.isExceeded()) {
+            return budgetExceededResult(input, budgetGuard, [], log, startTime);
+        }
+
+        // Extract structured data with LLM
+        log(`[DETAIL] 🤖 Extracting role data (model: ${extractionModelSpec})...`);
+        const extracted = await extractRoleFromMarkdown(markdown, input.url, extractionModel, undefined, input.listing);
+        extractionTracker.add(extracted.usage);
+        extraction = extracted;
+
+        // Key the entry on the model that answered - a fallback (or default-model retry) result is stored under
+        // its own model, so it never passes for the primary's. The extractor returns a placeholder instead of
+        // throwing on failure (no usage.model) - never cache that.
+        const answeredBy = extracted.usage.model;
+        if (answeredBy && answeredBy !== extractionModelSpec) {
+            log(`[DETAIL] Extraction answered by ${answeredBy}, not ${extractionModelSpec}`);
+        }
+        if (!dryRun && answeredBy && extracted.role.title !== 'Extraction Failed') {
+            await saveCachedExtraction({ url: input.url, contentHash, extractionModel: answeredBy, scrapedRole: extracted.role });
+        }
+    }
+
+    log(`[DETAIL] ✓ Extracted: "${extraction.role.title}"`);
+    await captureScrapedRole(extraction.role);
+    log(`[DETAIL]   Location: ${extraction.role.location || 'N/A'}`);
+    log(`[DETAIL]   Program type: ${extraction.role.program_type || 'N/A'}`);
+    log(`[DETAIL]   Deadline: ${extraction.role.deadline || 'N/A'}`);
+
+    // Refresh of a tracked role: diff against program_roles instead of suggesting a programme
+    if (input.action === 'UPDATED') {
+        return refreshTrackedRole(input, extraction.role, extractionTracker, cacheHits, dryRun, log, startTime);
+    }
+
+    // Suggest programme
+    if (budgetGuard.isExceeded()) {
+        return budgetExceededResult(input, budgetGuard, [extractionTracker], log, startTime);
+    }
+
+    log('[DETAIL] 🎯 Suggesting programme...');
+    const suggestion = await suggestProgramme({
+        scrapedRole: extraction.role,
+        allRolesInScan: input.allRolesInScan,
+        expectedProgrammes: input.expectedProgrammes,
+        existingProgrammes: input.existingProgrammes,
+        firmName: input.firmName,
+    }, suggestionModel);
+    suggestionTracker.add(suggestion.usage);
+
+    if (suggestion.is_new) {
+        log(`[DETAIL] ✨ New programme: "${suggestion.suggested_name}"`);
+    } else {
+        log(`[DETAIL] ✓ Matched: "${suggestion.matched_program_name}" (${suggestion.matched_program_id})`);
+    }
+
+    // Deduplication check for new programmes
+    if (suggestion.is_new && suggestion.suggested_name) {
+        try {
+            const supabase = createClient(
+                process.env.NEXT_PUBLIC_SUPABASE_URL!,
+                process.env.SUPABASE_SERVICE_ROLE_KEY!
+            );
+
+            const { data: existingDrafts } = await supabase
+                .from('programme_discovery_drafts')
+                .select('suggested_name, normalized_name, program_type')
+                .eq('scrape_url_id', input.scrapeUrlId)
+                .eq('status', 'pending');
+
+            if (existingDrafts && existingDrafts.length > 0) {
+                const normalizedSuggestion = normalizeProgrammeName(suggestion.suggested_name);
+                const match = existingDrafts.find((draft: any) => {
+                    return normalizeProgrammeName(draft.suggested_name) === normalizedSuggestion
+                        && draft.program_type === suggestion.program_type;
+                });
+
+                if (match) {
+                    log(`[DETAIL] 🔄 Dedup: reusing "${match.suggested_name}"`);
+                    suggestion.suggested_name = match.suggested_name;
+                    suggestion.normalized_name = match.normalized_name;
+                }
+            }
+        } catch (error) {
+            log(`[DETAIL] ⚠️ Dedup check failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    const discovery = {
+        firmId: input.firmId,
+        sourceUrlId: input.scrapeUrlId,
+        scrapedRole: extraction.role,
+        programmeSuggestion: suggestion,
+        url: input.url,
+        updateType: input.action,
+        existingRoleId: input.existingRoleId,
+    };
+
+    const extractionCost = extractionTracker.getCost();
+    const suggestionCost = suggestionTracker.getCost();
+    const totalCost = extractionCost.totalCost + suggestionCost.totalCost;
+    const totalTokens = extractionCost.totalTokens + suggestionCost.totalTokens;
+    const llmUsage = mergeUsageBreakdowns(extractionTracker.getBreakdown(), suggestionTracker.getBreakdown());
+    const durationSeconds = (Date.now() - startTime) / 1000;
+    const programmeName = suggestion.is_new ? suggestion.suggested_name : suggestion.matched_program_name;
+
+    if (dryRun) {
+        const drafts = buildDiscoveryDrafts(discovery);
+        log(`[DETAIL] 🧪 Dry run - would save ${drafts ? `${drafts.programme ? 'programme + ' : ''}role draft` : 'nothing (SKIP)'}`);
+        log(`✅ DETAIL complete in ${durationSeconds.toFixed(2)}s | Cost: $${totalCost.toFixed(4)}`);
+        return {
+            success: true,
+            url: input.url,
+            title: extraction.role.title,
+            scrapedRole: extraction.role,
+            programmeName,
+            drafts: drafts ?? undefined,
+            metrics: { totalTokensUsed: totalTokens, totalCostUsd: totalCost, durationSeconds, cacheHits, llmUsage },
+            logs: [],
+        };
+    }
+
+    // Save to DB
+    log('[DETAIL] 💾 Saving to database...');
+    const saved = await saveDiscovery(discovery);
+
+    if (!saved) {
+        log('[DETAIL] ⚠️ Failed to save to DB');
+        return {
+            success: false,
+            url: input.url,
+            metrics: { totalTokensUsed: totalTokens, totalCostUsd: totalCost, durationSeconds, cacheHits, llmUsage },
+            error: 'Extraction completed but save failed',
+            logs: [],
+        };
+    }
+
+    log(`[DETAIL] ✓ Saved! Programme draft: ${saved.programmeDraftId || 'matched existing'}, Role draft: ${saved.roleDraftId}`);
+    log(`✅ DETAIL complete in ${durationSeconds.toFixed(2)}s | Cost: $${totalCost.toFixed(4)}`);
+    return {
+        success: true,
+        url: input.url,
+        title: extraction.role.title,
+        scrapedRole: extraction.role,
+        programmeName,
+        programmeDraftId: saved.programmeDraftId,
+        roleDraftId: saved.roleDraftId,
+        metrics: { totalTokensUsed: totalTokens, totalCostUsd: totalCost, durationSeconds, cacheHits, llmUsage },
+        logs: [],
+    };
+}
+
 /**
  * Run the DETAIL phase for a single role URL
  * Extracts structured data, suggests programme, saves to DB
  */
-export async function runDetailPhase(input: DetailPhaseInput): Promise<DetailPhaseResult> {
+export async function runDetailPhase(input: DetailPhaseInput, options: DetailPhaseOptions = {}): Promise<DetailPhaseResult> {
     const startTime = Date.now();
     const logs: string[] = [];
+    const budgetGuard = new LlmBudgetGuard(options.budgetUsd ?? null);
 
     const log = (msg: string) => {
         const timestamp = new Date().toISOString();
@@ -66,14 +457,20 @@ export async function runDetailPhase(input: DetailPhaseInput): Promise<DetailPha
         logs.push(`[${timestamp}] ${msg}`);
     };
 
-    const extractionModel = input.scraperConfig?.extractionModel ?? 'gpt-4o-mini';
-    const extractionTracker = new UsageTracker();
-    const suggestionTracker = new UsageTracker();
-
     try {
         log(`[DETAIL] Processing: ${input.url}`);
         log(`[DETAIL] Title: "${input.title}"`);
         log(`[DETAIL] Action: ${input.action}${input.existingRoleId ? ` (updating ${input.existingRoleId})` : ''}`);
+        if (options.dryRun) log('[DETAIL] 🧪 Dry run - nothing will be written');
+
+        // ATS postings come straight from the JSON API - no browser needed
+        const atsPosting = input.ats ? await fetchAtsHtml(input.ats, log) : null;
+        if (atsPosting) {
+            return {
+                ...await processRoleHtml(input, atsPosting.html, budgetGuard, options.dryRun ?? false, log, startTime, atsPosting.apiResponses),
+                logs,
+            };
+        }
 
         const crawleeConfig = new Configuration({ persistStorage: false });
         const router = createPlaywrightRouter();
@@ -93,100 +490,13 @@ export async function runDetailPhase(input: DetailPhaseInput): Promise<DetailPha
             const html = await page.content();
             log(`[DETAIL] Page loaded (${html.length} chars)`);
 
-            // Extract structured data with LLM
-            log(`[DETAIL] 🤖 Extracting role data (model: ${extractionModel})...`);
-            const extraction = await extractRoleFromHtml(html, input.url, extractionModel);
-            extractionTracker.add(extraction.usage);
-
-            log(`[DETAIL] ✓ Extracted: "${extraction.role.title}"`);
-            log(`[DETAIL]   Location: ${extraction.role.location || 'N/A'}`);
-            log(`[DETAIL]   Program type: ${extraction.role.program_type || 'N/A'}`);
-            log(`[DETAIL]   Deadline: ${extraction.role.deadline || 'N/A'}`);
-
-            // Suggest programme
-            log('[DETAIL] 🎯 Suggesting programme...');
-            const suggestion = await suggestProgramme({
-                scrapedRole: extraction.role,
-                allRolesInScan: input.allRolesInScan,
-                expectedProgrammes: input.expectedProgrammes,
-                existingProgrammes: input.existingProgrammes,
-                firmName: input.firmName,
-            });
-            suggestionTracker.add(suggestion.usage);
-
-            if (suggestion.is_new) {
-                log(`[DETAIL] ✨ New programme: "${suggestion.suggested_name}"`);
-            } else {
-                log(`[DETAIL] ✓ Matched: "${suggestion.matched_program_name}" (${suggestion.matched_program_id})`);
-            }
-
-            // Deduplication check for new programmes
-            if (suggestion.is_new && suggestion.suggested_name) {
-                try {
-                    const supabase = createClient(
-                        process.env.NEXT_PUBLIC_SUPABASE_URL!,
-                        process.env.SUPABASE_SERVICE_ROLE_KEY!
-                    );
-
-                    const { data: existingDrafts } = await supabase
-                        .from('programme_discovery_drafts')
-                        .select('suggested_name, normalized_name, program_type')
-                        .eq('scrape_url_id', input.scrapeUrlId)
-                        .eq('status', 'pending');
-
-                    if (existingDrafts && existingDrafts.length > 0) {
-                        const normalizedSuggestion = normalizeProgrammeName(suggestion.suggested_name);
-                        const match = existingDrafts.find((draft: any) => {
-                            return normalizeProgrammeName(draft.suggested_name) === normalizedSuggestion
-                                && draft.program_type === suggestion.program_type;
-                        });
-
-                        if (match) {
-                            log(`[DETAIL] 🔄 Dedup: reusing "${match.suggested_name}"`);
-                            suggestion.suggested_name = match.suggested_name;
-                            suggestion.normalized_name = match.normalized_name;
-                        }
-                    }
-                } catch (error) {
-                    log(`[DETAIL] ⚠️ Dedup check failed: ${error instanceof Error ? error.message : String(error)}`);
-                }
-            }
-
-            // Save to DB
-            log('[DETAIL] 💾 Saving to database...');
-            const saved = await saveDiscovery({
-                firmId: input.firmId,
-                sourceUrlId: input.scrapeUrlId,
-                scrapedRole: extraction.role,
-                programmeSuggestion: suggestion,
-                url: input.url,
-                updateType: input.action,
-                existingRoleId: input.existingRoleId,
-            });
-
-            if (saved) {
-                log(`[DETAIL] ✓ Saved! Programme draft: ${saved.programmeDraftId || 'matched existing'}, Role draft: ${saved.roleDraftId}`);
-                extractionResult = {
-                    success: true,
-                    url: input.url,
-                    title: extraction.role.title,
-                    programmeDraftId: saved.programmeDraftId,
-                    roleDraftId: saved.roleDraftId,
-                    metrics: {
-                        totalTokensUsed: 0, // filled below
-                        totalCostUsd: 0,
-                        durationSeconds: 0,
-                    },
-                    logs,
-                };
-            } else {
-                log('[DETAIL] ⚠️ Failed to save to DB');
-            }
+            extractionResult = await processRoleHtml(input, html, budgetGuard, options.dryRun ?? false, log, startTime);
         });
 
         const crawler = new PlaywrightCrawler(
             {
                 requestHandler: router,
+                preNavigationHooks: [async ({ page }) => applyPageInterceptor(page)],
                 headless: true,
                 maxConcurrency: 2,
                 navigationTimeoutSecs: 60,
@@ -212,23 +522,14 @@ export async function runDetailPhase(input: DetailPhaseInput): Promise<DetailPha
 
         await crawler.run([{ url: input.url }]);
 
-        const extractionCost = extractionTracker.getCost('gpt-4o-mini');
-        const suggestionCost = suggestionTracker.getCost('gpt-4o-mini');
-        const totalCost = extractionCost.totalCost + suggestionCost.totalCost;
-        const totalTokens = extractionCost.totalTokens + suggestionCost.totalTokens;
-        const durationSeconds = (Date.now() - startTime) / 1000;
-
-        log(`✅ DETAIL complete in ${durationSeconds.toFixed(2)}s | Cost: $${totalCost.toFixed(4)}`);
-
         if (extractionResult) {
-            extractionResult.metrics = { totalTokensUsed: totalTokens, totalCostUsd: totalCost, durationSeconds };
-            return extractionResult;
+            return { ...(extractionResult as DetailPhaseResult), logs };
         }
 
         return {
             success: false,
             url: input.url,
-            metrics: { totalTokensUsed: totalTokens, totalCostUsd: totalCost, durationSeconds },
+            metrics: { totalTokensUsed: 0, totalCostUsd: 0, durationSeconds: (Date.now() - startTime) / 1000 },
             error: 'Extraction completed but no result captured',
             logs,
         };
@@ -253,8 +554,13 @@ export async function runDetailPhase(input: DetailPhaseInput): Promise<DetailPha
 /**
  * Run the DETAIL phase for a batch of role URLs through a single PlaywrightCrawler.
  * One Chromium process, N tabs — avoids per-URL browser startup overhead.
+ * ATS-backed inputs are fetched from the ATS API first; only failures go to the browser.
+ * Once the batch's LLM budget is spent, the remaining roles are returned with stopReason 'budget_exceeded'.
+ * With options.dryRun each result carries its would-be drafts and nothing is written.
  */
-export async function runDetailPhaseBatch(inputs: DetailPhaseInput[]): Promise<DetailPhaseResult[]> {
+export async function runDetailPhaseBatch(inputs: DetailPhaseInput[], options: DetailPhaseOptions = {}): Promise<DetailPhaseResult[]> {
+    const budgetGuard = new LlmBudgetGuard(options.budgetUsd ?? null);
+
     // Pre-populate with default failure so every URL has an entry even if the crawler skips it
     const results = new Map<string, DetailPhaseResult>(
         inputs.map(input => [input.url, {
@@ -266,28 +572,91 @@ export async function runDetailPhaseBatch(inputs: DetailPhaseInput[]): Promise<D
         }])
     );
 
-    const crawleeConfig = new Configuration({ persistStorage: false });
-    const router = createPlaywrightRouter();
-
-    router.addDefaultHandler(async ({ page, request }) => {
-        const input = request.userData as DetailPhaseInput;
-        const urlStartTime = Date.now();
+    const createLogger = () => {
         const logs: string[] = [];
-
         const log = (msg: string) => {
             const timestamp = new Date().toISOString();
             console.log(`[${timestamp}] ${msg}`);
             logs.push(`[${timestamp}] ${msg}`);
         };
+        return { logs, log };
+    };
+
+    const logStart = (input: DetailPhaseInput, log: (msg: string) => void) => {
+        log(`[DETAIL] Processing: ${input.url}`);
+        log(`[DETAIL] Title: "${input.title}"`);
+        log(`[DETAIL] Action: ${input.action}${input.existingRoleId ? ` (updating ${input.existingRoleId})` : ''}`);
+        if (options.dryRun) log('[DETAIL] 🧪 Dry run - nothing will be written');
+    };
+
+    const recordFailure = (input: DetailPhaseInput, error: unknown, logs: string[], log: (msg: string) => void, startTime: number) => {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        log(`✗ DETAIL failed: ${errorMessage}`);
+        results.set(input.url, {
+            success: false,
+            url: input.url,
+            metrics: { totalTokensUsed: 0, totalCostUsd: 0, durationSeconds: (Date.now() - startTime) / 1000 },
+            error: errorMessage,
+            logs,
+        });
+    };
+
+    // ATS inputs: fetch structured posting, queue for the browser only if that fails
+    const browserInputs: DetailPhaseInput[] = [];
+    const carriedLogs = new Map<string, string[]>();
+
+    for (const input of inputs) {
+        if (!input.ats) {
+            browserInputs.push(input);
+            continue;
+        }
+
+        const urlStartTime = Date.now();
+        const { logs, log } = createLogger();
+        logStart(input, log);
+
+        if (budgetGuard.isExceeded()) {
+            results.set(input.url, { ...budgetExceededResult(input, budgetGuard, [], log, urlStartTime), logs });
+            continue;
+        }
 
-        const extractionModel = input.scraperConfig?.extractionModel ?? 'gpt-4o-mini';
-        const extractionTracker = new UsageTracker();
-        const suggestionTracker = new UsageTracker();
+        const atsPosting = await fetchAtsHtml(input.ats, log);
+        if (!atsPosting) {
+            carriedLogs.set(input.url, logs);
+            browserInputs.push(input);
+            continue;
+        }
 
         try {
-            log(`[DETAIL] Processing: ${input.url}`);
-            log(`[DETAIL] Title: "${input.title}"`);
-            log(`[DETAIL] Action: ${input.action}${input.existingRoleId ? ` (updating ${input.existingRoleId})` : ''}`);
+            results.set(input.url, {
+                ...await processRoleHtml(input, atsPosting.html, budgetGuard, options.dryRun ?? false, log, urlStartTime, atsPosting.apiResponses),
+                logs,
+            });
+        } catch (error) {
+            recordFailure(input, error, logs, log, urlStartTime);
+        }
+    }
+
+    if (browserInputs.length === 0) {
+        return Array.from(results.values());
+    }
+
+    const crawleeConfig = new Configuration({ persistStorage: false });
+    const router = createPlaywrightRouter();
+
+    router.addDefaultHandler(async ({ page, request }) => {
+        const input = request.userData as DetailPhaseInput;
+        const urlStartTime = Date.now();
+        const { logs, log } = createLogger();
+        logs.push(...(carriedLogs.get(input.url) || []));
+
+        try {
+            if (!input.ats) logStart(input, log);
+
+            if (budgetGuard.isExceeded()) {
+                results.set(input.url, { ...budgetExceededResult(input, budgetGuard, [], log, urlStartTime), logs });
+                return;
+            }
 
             try {
                 await page.waitForLoadState('domcontentloaded', { timeout: 15000 });
@@ -300,117 +669,16 @@ export async function runDetailPhaseBatch(inputs: DetailPhaseInput[]): Promise<D
             const html = await page.content();
             log(`[DETAIL] Page loaded (${html.length} chars)`);
 
-            log(`[DETAIL] 🤖 Extracting role data (model: ${extractionModel})...`);
-            const extraction = await extractRoleFromHtml(html, input.url, extractionModel);
-            extractionTracker.add(extraction.usage);
-
-            log(`[DETAIL] ✓ Extracted: "${extraction.role.title}"`);
-            log(`[DETAIL]   Location: ${extraction.role.location || 'N/A'}`);
-            log(`[DETAIL]   Program type: ${extraction.role.program_type || 'N/A'}`);
-            log(`[DETAIL]   Deadline: ${extraction.role.deadline || 'N/A'}`);
-
-            log('[DETAIL] 🎯 Suggesting programme...');
-            const suggestion = await suggestProgramme({
-                scrapedRole: extraction.role,
-                allRolesInScan: input.allRolesInScan,
-                expectedProgrammes: input.expectedProgrammes,
-                existingProgrammes: input.existingProgrammes,
-                firmName: input.firmName,
-            });
-            suggestionTracker.add(suggestion.usage);
-
-            if (suggestion.is_new) {
-                log(`[DETAIL] ✨ New programme: "${suggestion.suggested_name}"`);
-            } else {
-                log(`[DETAIL] ✓ Matched: "${suggestion.matched_program_name}" (${suggestion.matched_program_id})`);
-            }
-
-            if (suggestion.is_new && suggestion.suggested_name) {
-                try {
-                    const supabase = createClient(
-                        process.env.NEXT_PUBLIC_SUPABASE_URL!,
-                        process.env.SUPABASE_SERVICE_ROLE_KEY!
-                    );
-
-                    const { data: existingDrafts } = await supabase
-                        .from('programme_discovery_drafts')
-                        .select('suggested_name, normalized_name, program_type')
-                        .eq('scrape_url_id', input.scrapeUrlId)
-                        .eq('status', 'pending');
-
-                    if (existingDrafts && existingDrafts.length > 0) {
-                        const normalizedSuggestion = normalizeProgrammeName(suggestion.suggested_name);
-                        const match = existingDrafts.find((draft: any) => {
-                            return normalizeProgrammeName(draft.suggested_name) === normalizedSuggestion
-                                && draft.program_type === suggestion.program_type;
-                        });
-
-                        if (match) {
-                            log(`[DETAIL] 🔄 Dedup: reusing "${match.suggested_name}"`);
-                            suggestion.suggested_name = match.suggested_name;
-                            suggestion.normalized_name = match.normalized_name;
-                        }
-                    }
-                } catch (error) {
-                    log(`[DETAIL] ⚠️ Dedup check failed: ${error instanceof Error ? error.message : String(error)}`);
-                }
-            }
-
-            log('[DETAIL] 💾 Saving to database...');
-            const saved = await saveDiscovery({
-                firmId: input.firmId,
-                sourceUrlId: input.scrapeUrlId,
-                scrapedRole: extraction.role,
-                programmeSuggestion: suggestion,
-                url: input.url,
-                updateType: input.action,
-                existingRoleId: input.existingRoleId,
-            });
-
-            const extractionCost = extractionTracker.getCost('gpt-4o-mini');
-            const suggestionCost = suggestionTracker.getCost('gpt-4o-mini');
-            const totalCost = extractionCost.totalCost + suggestionCost.totalCost;
-            const totalTokens = extractionCost.totalTokens + suggestionCost.totalTokens;
-            const durationSeconds = (Date.now() - urlStartTime) / 1000;
-
-            if (saved) {
-                log(`[DETAIL] ✓ Saved! Programme draft: ${saved.programmeDraftId || 'matched existing'}, Role draft: ${saved.roleDraftId}`);
-                log(`✅ DETAIL complete in ${durationSeconds.toFixed(2)}s | Cost: $${totalCost.toFixed(4)}`);
-                results.set(input.url, {
-                    success: true,
-                    url: input.url,
-                    title: extraction.role.title,
-                    programmeDraftId: saved.programmeDraftId,
-                    roleDraftId: saved.roleDraftId,
-                    metrics: { totalTokensUsed: totalTokens, totalCostUsd: totalCost, durationSeconds },
-                    logs,
-                });
-            } else {
-                log('[DETAIL] ⚠️ Failed to save to DB');
-                results.set(input.url, {
-                    success: false,
-                    url: input.url,
-                    metrics: { totalTokensUsed: totalTokens, totalCostUsd: totalCost, durationSeconds },
-                    error: 'Extraction completed but save failed',
-                    logs,
-                });
-            }
+            results.set(input.url, { ...await processRoleHtml(input, html, budgetGuard, options.dryRun ?? false, log, urlStartTime), logs });
         } catch (error) {
-            const errorMessage = error instanceof Error ? error.message : String(error);
-            log(`✗ DETAIL failed: ${errorMessage}`);
-            results.set(input.url, {
-                success: false,
-                url: input.url,
-                metrics: { totalTokensUsed: 0, totalCostUsd: 0, durationSeconds: (Date.now() - urlStartTime) / 1000 },
-                error: errorMessage,
-                logs,
-            });
+            recordFailure(input, error, logs, log, urlStartTime);
         }
     });
 
     const crawler = new PlaywrightCrawler(
         {
             requestHandler: router,
+            preNavigationHooks: [async ({ page }) => applyPageInterceptor(page)],
             headless: true,
             maxConcurrency: 2,
             navigationTimeoutSecs: 60,
@@ -433,25 +701,7 @@ export async function runDetailPhaseBatch(inputs: DetailPhaseInput[]): Promise<D
         crawleeConfig
     );
 
-    await crawler.run(inputs.map(input => ({ url: input.url, userData: input })));
+    await crawler.run(browserInputs.map(input => ({ url: input.url, userData: input })));
 
     return Array.from(results.values());
 }
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
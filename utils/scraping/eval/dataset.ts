@@ -0,0 +1,132 @@
+/**
+ * Golden Eval Dataset
+ *
+ * Labelled detail pages for scoring extraction and programme suggestion.
+ * A dataset is a directory holding dataset.json plus the saved pages:
+ *
+ * {
+ *   "name": "golden-v1",
+ *   "cases": [{
+ *     "id": "acme-summer-analyst",
+ *     "url": "https://careers.acme.com/jobs/123",
+ *     "file": "pages/acme-summer-analyst.html",
+ *     "firmName": "Acme",                                   // Optional context for the suggester
+ *     "allRolesInScan": [...], "expectedProgrammes": [...], "existingProgrammes": [...],
+ *     "expected": {
+ *       "role": { "deadline": "2026-01-15", "program_type": "summer_internship", "is_open": true },
+ *       "programme": { "normalized_name": "summer analyst" }   // or { "program_id": "<uuid>" }
+ *     }
+ *   }]
+ * }
+ *
+ * Only the fields present under expected.role are scored - omit a field to
+ * leave it unlabelled, set it to null to assert the page doesn't state it.
+ * A snapshot capture (page-1.html + role.json) is a quick way to seed a case.
+ */
+
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { z } from 'zod';
+import { ExpectedProgrammeSchema, ScrapedRoleSchema } from '@/packages/schemas/careers-scraping';
+import type { ExpectedProgramme } from '../programme-suggester';
+
+export const EVAL_DATASET_FILE = 'dataset.json';
+
+/**
+ * Role fields scored for precision/recall
+ */
+export const SCORED_ROLE_FIELDS = ['deadline', 'program_type', 'role_type', 'location', 'is_open'] as const;
+
+export type ScoredRoleField = typeof SCORED_ROLE_FIELDS[number];
+
+const EvalCaseFileSchema = z.object({
+    id: z.string().min(1),
+    url: z.string().url(),
+    file: z.string().min(1),
+    firmName: z.string().optional(),
+    allRolesInScan: z.array(z.object({ title: z.string(), url: z.string() })).optional(),
+    expectedProgrammes: z.array(ExpectedProgrammeSchema).optional(),
+    existingProgrammes: z.array(z.object({
+        id: z.string(),
+        name: z.string(),
+        normalized_name: z.string().optional(),
+        program_type: z.string().optional(),
+    })).optional(),
+    expected: z.object({
+        role: ScrapedRoleSchema.pick({
+            deadline: true,
+            program_type: true,
+            role_type: true,
+            location: true,
+            is_open: true,
+        }).partial().default({}),
+        programme: z.object({
+            program_id: z.string().optional(),
+            normalized_name: z.string().optional(),
+        }).refine(programme => programme.program_id || programme.normalized_name, {
+            message: 'expected.programme needs program_id or normalized_name',
+        }).optional(),
+    }),
+});
+
+const EvalDatasetFileSchema = z.object({
+    name: z.string().optional(),
+    cases: z.array(EvalCaseFileSchema).min(1),
+});
+
+export type ExpectedProgrammeAssignment = NonNullable<z.infer<typeof EvalCaseFileSchema>['expected']['programme']>;
+
+export interface EvalCase {
+    id: string;
+    url: string;
+    html: string;
+    firmName?: string;
+    allRolesInScan: Array<{ title: string; url: string }>;
+    expectedProgrammes: ExpectedProgramme[];
+    existingProgrammes: ExpectedProgramme[];
+    expected: {
+        role: Partial<Record<ScoredRoleField, string | boolean | null>>;
+        programme?: ExpectedProgrammeAssignment;
+    };
+}
+
+export interface EvalDataset {
+    name: string;
+    dir: string;
+    cases: EvalCase[];
+}
+
+/**
+ * Load and validate a dataset directory, reading every page into memory
+ */
+export async function loadEvalDataset(dir: string): Promise<EvalDataset> {
+    const file = path.join(dir, EVAL_DATASET_FILE);
+    const parsed = EvalDatasetFileSchema.safeParse(JSON.parse(await readFile(file, 'utf8')));
+
+    if (!parsed.success) {
+        throw new Error(`Invalid ${file}: ${parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ')}`);
+    }
+
+    const seenIds = new Set<string>();
+    const cases: EvalCase[] = [];
+
+    for (const entry of parsed.data.cases) {
+        if (seenIds.has(entry.id)) {
+            throw new Error(`Duplicate case id "${entry.id}" in ${file}`);
+        }
+        seenIds.add(entry.id);
+
+        cases.push({
+            id: entry.id,
+            url: entry.url,
+            html: await readFile(path.join(dir, entry.file), 'utf8'),
+            firmName: entry.firmName,
+            allRolesInScan: entry.allRolesInScan ?? [],
+            expectedProgrammes: entry.expectedProgrammes ?? [],
+            existingProgrammes: entry.existingProgrammes ?? [],
+            expected: entry.expected,
+        });
+    }
+
+    return { name: parsed.data.name ?? path.basename(dir), dir, cases };
+}
@@ -0,0 +1,152 @@
+/**
+ * Eval Report
+ *
+ * Markdown reports for eval runs: scores for a single run, or a side-by-side
+ * comparison of two runs over the same dataset with per-field deltas and the
+ * cases where the two configurations disagree.
+ */
+
+import type { EvalRun } from './runner';
+import type { FieldOutcome, FieldScore, ScoredField } from './scoring';
+
+export interface FieldComparison {
+    field: ScoredField;
+    baseline: FieldScore;
+    candidate: FieldScore;
+    precisionDelta: number | null;
+    recallDelta: number | null;
+}
+
+export interface CaseDifference {
+    caseId: string;
+    field: ScoredField;
+    expected: string | null;
+    baseline: { predicted: string | null; outcome: FieldOutcome };
+    candidate: { predicted: string | null; outcome: FieldOutcome };
+}
+
+export interface EvalComparison {
+    dataset: string;
+    baseline: EvalRun;
+    candidate: EvalRun;
+    fields: FieldComparison[];
+    differences: CaseDifference[]; // Only where the outcome changed
+}
+
+function delta(a: number | null, b: number | null): number | null {
+    return a === null || b === null ? null : b - a;
+}
+
+function percent(value: number | null): string {
+    return value === null ? '-' : `${(value * 100).toFixed(1)}%`;
+}
+
+function signedPercent(value: number | null): string {
+    if (value === null) return '-';
+    const points = value * 100;
+    return `${points > 0 ? '+' : ''}${points.toFixed(1)}`;
+}
+
+function formatValue(value: string | null): string {
+    return value === null ? 'null' : `"${value}"`;
+}
+
+/**
+ * Line up two runs field by field and collect the cases whose outcome changed
+ */
+export function compareEvalRuns(baseline: EvalRun, candidate: EvalRun): EvalComparison {
+    if (baseline.dataset !== candidate.dataset) {
+        throw new Error(`Can't compare runs over different datasets (${baseline.dataset} vs ${candidate.dataset})`);
+    }
+
+    const fields = baseline.scores.map(baselineScore => {
+        const candidateScore = candidate.scores.find(score => score.field === baselineScore.field)!;
+        return {
+            field: baselineScore.field,
+            baseline: baselineScore,
+            candidate: candidateScore,
+            precisionDelta: delta(baselineScore.precision, candidateScore.precision),
+            recallDelta: delta(baselineScore.recall, candidateScore.recall),
+        };
+    });
+
+    const differences: CaseDifference[] = [];
+    for (const baselineCase of baseline.cases) {
+        const candidateCase = candidate.cases.find(result => result.caseId === baselineCase.caseId);
+        if (!candidateCase) continue;
+
+        for (const [field, baselineField] of Object.entries(baselineCase.fields) as Array<[ScoredField, NonNullable<typeof baselineCase.fields[ScoredField]>]>) {
+            const candidateField = candidateCase.fields[field];
+            if (!candidateField || candidateField.outcome === baselineField.outcome) continue;
+
+            differences.push({
+                caseId: baselineCase.caseId,
+                field,
+                expected: baselineField.expected,
+                baseline: { predicted: baselineField.predicted, outcome: baselineField.outcome },
+                candidate: { predicted: candidateField.predicted, outcome: candidateField.outcome },
+            });
+        }
+    }
+
+    return { dataset: baseline.dataset, baseline, candidate, fields, differences };
+}
+
+/**
+ * Markdown scores table for one run
+ */
+export function formatEvalRun(run: EvalRun): string {
+    const lines = [
+        `# Eval: ${run.dataset} - ${run.config.label}`,
+        '',
+        `${run.cases.length} cases, ${run.cases.filter(result => result.error).length} errors, $${run.totalCostUsd.toFixed(4)}, ${run.durationSeconds.toFixed(1)}s`,
+        '',
+        '| Field | Labelled | Precision | Recall | TP | FP | FN |',
+        '|---|---|---|---|---|---|---|',
+        ...run.scores.map(score =>
+            `| ${score.field} | ${score.labelled} | ${percent(score.precision)} | ${percent(score.recall)} | ${score.truePositives} | ${score.falsePositives} | ${score.falseNegatives} |`
+        ),
+    ];
+
+    const errors = run.cases.filter(result => result.error);
+    if (errors.length > 0) {
+        lines.push('', '## Errors', '', ...errors.map(result => `- ${result.caseId}: ${result.error}`));
+    }
+
+    return lines.join('\n');
+}
+
+/**
+ * Markdown comparison report - deltas are candidate minus baseline, in percentage points
+ */
+export function formatComparisonReport(comparison: EvalComparison): string {
+    const { baseline, candidate } = comparison;
+
+    const lines = [
+        `# Eval comparison: ${comparison.dataset}`,
+        '',
+        `- A (baseline): ${baseline.config.label} - $${baseline.totalCostUsd.toFixed(4)}, ${baseline.cases.filter(result => result.error).length} errors`,
+        `- B (candidate): ${candidate.config.label} - $${candidate.totalCostUsd.toFixed(4)}, ${candidate.cases.filter(result => result.error).length} errors`,
+        '',
+        '| Field | Labelled | A precision | B precision | Δ | A recall | B recall | Δ |',
+        '|---|---|---|---|---|---|---|---|',
+        ...comparison.fields.map(field =>
+            `| ${field.field} | ${field.baseline.labelled} | ${percent(field.baseline.precision)} | ${percent(field.candidate.precision)} | ${signedPercent(field.precisionDelta)} | ${percent(field.baseline.recall)} | ${percent(field.candidate.recall)} | ${signedPercent(field.recallDelta)} |`
+        ),
+        '',
+        `## Changed outcomes (${comparison.differences.length})`,
+        '',
+    ];
+
+    if (comparison.differences.length === 0) {
+        lines.push('None - both configurations scored every case the same way.');
+    } else {
+        lines.push(...comparison.differences.map(difference =>
+            `- ${difference.caseId} · ${difference.field}: expected ${formatValue(difference.expected)} - ` +
+            `A ${formatValue(difference.baseline.predicted)} (${difference.baseline.outcome}) → ` +
+            `B ${formatValue(difference.candidate.predicted)} (${difference.candidate.outcome})`
+        ));
+    }
+
+    return lines.join('\n');
+}
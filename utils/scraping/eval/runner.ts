@@ -0,0 +1,157 @@
+/**
+ * Eval Runner
+ *
+ * Runs every case of a golden dataset through extraction (and programme
+ * suggestion, for cases labelled with a programme) under one configuration,
+ * and scores the result. Nothing is read from or written to the database.
+ *
+ * A configuration picks the models and, optionally, replacement system
+ * prompts - so the same dataset can be run before and after a prompt change
+ * and the two runs compared (see report).
+ *
+ * Config file (JSON):
+ * {
+ *   "label": "haiku + new extraction prompt",
+ *   "extractionModel": "anthropic:claude-haiku-4-5",       // Optional - see llm-registry
+ *   "suggestionModel": "openai:gpt-4o-mini",               // Optional
+ *   "extractionPromptFile": "prompts/extraction-v2.txt",   // Optional, relative to the config file
+ *   "suggestionPromptFile": "prompts/suggestion-v2.txt"    // Optional
+ * }
+ */
+
+import { readFile } from 'fs/promises';
+import path from 'path';
+import type { ScrapedRole } from '@/packages/schemas/careers-scraping';
+import { cleanHtmlToMarkdown, extractRoleFromMarkdown, ROLE_EXTRACTION_SYSTEM_PROMPT } from '../extractor';
+import { suggestProgramme, PROGRAMME_SUGGESTION_SYSTEM_PROMPT, type ProgrammeSuggestion } from '../programme-suggester';
+import { UsageTracker, type UsageBreakdownEntry } from '../cost-calculator';
+import type { EvalDataset } from './dataset';
+import { scoreCaseFields, aggregateFieldScores, type FieldResult, type FieldScore, type ScoredField } from './scoring';
+
+export interface EvalConfig {
+    label: string;
+    extractionModel?: string;
+    suggestionModel?: string;
+    extractionPrompt: string;
+    suggestionPrompt: string;
+}
+
+export interface EvalCaseResult {
+    caseId: string;
+    url: string;
+    role: ScrapedRole | null;
+    suggestion: ProgrammeSuggestion | null;
+    fields: Partial<Record<ScoredField, FieldResult>>;
+    error?: string;
+}
+
+export interface EvalRun {
+    dataset: string;
+    config: EvalConfig;
+    startedAt: string;
+    durationSeconds: number;
+    cases: EvalCaseResult[];
+    scores: FieldScore[];
+    totalCostUsd: number;
+    llmUsage: UsageBreakdownEntry[];
+}
+
+/**
+ * Build a config from a JSON file, or from a bare model spec used for both tasks
+ *
+ * @example
+ * await loadEvalConfig('anthropic:claude-haiku-4-5')
+ * // => { label: 'anthropic:claude-haiku-4-5', extractionModel: ..., suggestionModel: ..., <default prompts> }
+ */
+export async function loadEvalConfig(source: string): Promise<EvalConfig> {
+    if (!source.endsWith('.json')) {
+        return {
+            label: source,
+            extractionModel: source,
+            suggestionModel: source,
+            extractionPrompt: ROLE_EXTRACTION_SYSTEM_PROMPT,
+            suggestionPrompt: PROGRAMME_SUGGESTION_SYSTEM_PROMPT,
+        };
+    }
+
+    const raw = JSON.parse(await readFile(source, 'utf8'));
+    const readPrompt = async (file: string | undefined, fallback: string) =>
+        file ? (await readFile(path.resolve(path.dirname(source), file), 'utf8')).trim() : fallback;
+
+    return {
+        label: raw.label ?? path.basename(source, '.json'),
+        extractionModel: raw.extractionModel,
+        suggestionModel: raw.suggestionModel,
+        extractionPrompt: await readPrompt(raw.extractionPromptFile, ROLE_EXTRACTION_SYSTEM_PROMPT),
+        suggestionPrompt: await readPrompt(raw.suggestionPromptFile, PROGRAMME_SUGGESTION_SYSTEM_PROMPT),
+    };
+}
+
+/**
+ * Run a dataset under one configuration - cases run sequentially so runs are comparable
+ */
+export async function runEval(
+    dataset: EvalDataset,
+    config: EvalConfig,
+    log: (msg: string) => void = console.log
+): Promise<EvalRun> {
+    const startTime = Date.now();
+    const tracker = new UsageTracker();
+    const cases: EvalCaseResult[] = [];
+
+    log(`[eval] ${dataset.name}: ${dataset.cases.length} cases with "${config.label}"`);
+
+    for (const evalCase of dataset.cases) {
+        let role: ScrapedRole | null = null;
+        let suggestion: ProgrammeSuggestion | null = null;
+        let error: string | undefined;
+
+        try {
+            const extracted = await extractRoleFromMarkdown(
+                cleanHtmlToMarkdown(evalCase.html),
+                evalCase.url,
+                config.extractionModel,
+                config.extractionPrompt
+            );
+            tracker.add(extracted.usage);
+
+            // The extractor returns a placeholder instead of throwing on failure
+            if (extracted.role.title === 'Extraction Failed') {
+                error = extracted.role.description ?? 'Extraction failed';
+            } else {
+                role = extracted.role;
+            }
+
+            if (role && evalCase.expected.programme) {
+                const { usage, ...suggested } = await suggestProgramme({
+                    scrapedRole: role,
+                    allRolesInScan: evalCase.allRolesInScan,
+                    expectedProgrammes: evalCase.expectedProgrammes,
+                    existingProgrammes: evalCase.existingProgrammes,
+                    firmName: evalCase.firmName,
+                }, config.suggestionModel, config.suggestionPrompt);
+                tracker.add(usage);
+                suggestion = suggested;
+            }
+        } catch (caught) {
+            error = caught instanceof Error ? caught.message : String(caught);
+        }
+
+        const fields = scoreCaseFields(evalCase, role, suggestion);
+        const misses = Object.values(fields).filter(field => field.outcome !== 'correct' && field.outcome !== 'empty').length;
+        log(`[eval]   ${error ? '✗' : misses === 0 ? '✓' : '~'} ${evalCase.id}${error ? ` - ${error}` : misses > 0 ? ` (${misses} field(s) off)` : ''}`);
+
+        cases.push({ caseId: evalCase.id, url: evalCase.url, role, suggestion, fields, error });
+    }
+
+    return {
+        dataset: dataset.name,
+        config,
+        startedAt: new Date(startTime).toISOString(),
+        durationSeconds: (Date.now() - startTime) / 1000,
+        cases,
+        scores: aggregateFieldScores(cases.map(result => result.fields)),
+        totalCostUsd: tracker.getCost().totalCost,
+        llmUsage: tracker.getBreakdown(),
+    };
+}
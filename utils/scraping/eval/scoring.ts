@@ -0,0 +1,149 @@
+/**
+ * Eval Scoring
+ *
+ * Field-level precision/recall over labelled cases. Per case and field:
+ *
+ * - correct:   predicted a value and it matches the label          → TP
+ * - spurious:  predicted a value, label is null                    → FP
+ * - missed:    predicted null, label has a value                   → FN
+ * - wrong:     predicted a value that doesn't match the label      → FP + FN
+ * - empty:     both null                                           → (none)
+ *
+ * precision = TP / (TP + FP), recall = TP / (TP + FN); null when undefined
+ * (no predictions / no labelled values). Unlabelled fields aren't scored.
+ *
+ * Values are compared after normalization: case and whitespace are ignored,
+ * dates compare on YYYY-MM-DD, programmes on normalizeProgrammeName().
+ */
+
+import type { ScrapedRole } from '@/packages/schemas/careers-scraping';
+import { normalizeProgrammeName, type ProgrammeSuggestion } from '../programme-suggester';
+import { SCORED_ROLE_FIELDS, type EvalCase, type ExpectedProgrammeAssignment } from './dataset';
+
+export type ScoredField = typeof SCORED_ROLE_FIELDS[number] | 'programme';
+
+export type FieldOutcome = 'correct' | 'spurious' | 'missed' | 'wrong' | 'empty';
+
+export interface FieldResult {
+    expected: string | null;
+    predicted: string | null;
+    outcome: FieldOutcome;
+}
+
+export interface FieldScore {
+    field: ScoredField;
+    labelled: number; // Cases with a label for this field
+    truePositives: number;
+    falsePositives: number;
+    falseNegatives: number;
+    precision: number | null;
+    recall: number | null;
+}
+
+/**
+ * Canonical comparison form of a field value (null = no value)
+ */
+export function normalizeFieldValue(field: ScoredField, value: unknown): string | null {
+    if (value === null || value === undefined) {
+        return null;
+    }
+    if (typeof value === 'boolean') {
+        return String(value);
+    }
+
+    const text = String(value).trim().replace(/\s+/g, ' ').toLowerCase();
+    if (text === '') {
+        return null;
+    }
+
+    if (field === 'deadline') {
+        const isoDate = text.match(/^\d{4}-\d{2}-\d{2}/);
+        return isoDate ? isoDate[0] : text;
+    }
+
+    return text;
+}
+
+/**
+ * The programme a suggestion assigns: an existing programme ID or a new normalized name
+ */
+export function predictedProgrammeKey(suggestion: ProgrammeSuggestion | null): string | null {
+    if (!suggestion) {
+        return null;
+    }
+    if (!suggestion.is_new && suggestion.matched_program_id) {
+        return `id:${suggestion.matched_program_id}`;
+    }
+    const name = suggestion.normalized_name || suggestion.suggested_name;
+    return name ? `name:${normalizeProgrammeName(name)}` : null;
+}
+
+export function expectedProgrammeKey(expected: ExpectedProgrammeAssignment): string {
+    return expected.program_id
+        ? `id:${expected.program_id}`
+        : `name:${normalizeProgrammeName(expected.normalized_name!)}`;
+}
+
+export function classifyFieldOutcome(expected: string | null, predicted: string | null): FieldOutcome {
+    if (expected === null && predicted === null) return 'empty';
+    if (expected === null) return 'spurious';
+    if (predicted === null) return 'missed';
+    return expected === predicted ? 'correct' : 'wrong';
+}
+
+/**
+ * Compare one case's predictions with its labels - only labelled fields appear in the result
+ */
+export function scoreCaseFields(
+    evalCase: EvalCase,
+    role: ScrapedRole | null,
+    suggestion: ProgrammeSuggestion | null
+): Partial<Record<ScoredField, FieldResult>> {
+    const results: Partial<Record<ScoredField, FieldResult>> = {};
+
+    for (const field of SCORED_ROLE_FIELDS) {
+        if (!(field in evalCase.expected.role)) continue;
+
+        const expected = normalizeFieldValue(field, evalCase.expected.role[field]);
+        const predicted = normalizeFieldValue(field, role?.[field]);
+        results[field] = { expected, predicted, outcome: classifyFieldOutcome(expected, predicted) };
+    }
+
+    if (evalCase.expected.programme) {
+        const expected = expectedProgrammeKey(evalCase.expected.programme);
+        const predicted = predictedProgrammeKey(suggestion);
+        results.programme = { expected, predicted, outcome: classifyFieldOutcome(expected, predicted) };
+    }
+
+    return results;
+}
+
+/**
+ * Aggregate per-case field results into precision/recall per field
+ */
+export function aggregateFieldScores(caseFields: Array<Partial<Record<ScoredField, FieldResult>>>): FieldScore[] {
+    const fields: ScoredField[] = [...SCORED_ROLE_FIELDS, 'programme'];
+
+    return fields.map(field => {
+        const score = { field, labelled: 0, truePositives: 0, falsePositives: 0, falseNegatives: 0 };
+
+        for (const results of caseFields) {
+            const result = results[field];
+            if (!result) continue;
+
+            score.labelled++;
+            if (result.outcome === 'correct') score.truePositives++;
+            if (result.outcome === 'spurious' || result.outcome === 'wrong') score.falsePositives++;
+            if (result.outcome === 'missed' || result.outcome === 'wrong') score.falseNegatives++;
+        }
+
+        const predictedCount = score.truePositives + score.falsePositives;
+        const relevantCount = score.truePositives + score.falseNegatives;
+
+        return {
+            ...score,
+            precision: predictedCount > 0 ? score.truePositives / predictedCount : null,
+            recall: relevantCount > 0 ? score.truePositives / relevantCount : null,
+        };
+    });
+}
@@ -16,6 +16,9 @@ export interface ExistingRole {
     canonical_name: string | null;
     is_open: boolean | null;
     title: string | null;
+    consecutive_missed_runs: number; // Scans in a row the role was absent from its listing
+    last_refreshed_at: string | null; // Last refresh-mode re-extraction (null = never)
+    last_seen_at: string | null; // Last scan that listed the role (null = never recorded)
 }
 
 export interface ExistingRolesByUrl extends Map<string, ExistingRole> { }
@@ -56,6 +59,9 @@ export async function loadExistingRoles(firmId: string): Promise<{
       is_open,
       title,
       alias,
+      consecutive_missed_runs,
+      last_refreshed_at,
+      last_seen_at,
       programs!inner(
         firm_id,
         name,
@@ -121,6 +127,9 @@ export async function loadExistingRoles(firmId: string): Promise<{
             canonical_name: effectiveCanonicalName,
             is_open: role.is_open,
             title: effectiveTitle,
+            consecutive_missed_runs: role.consecutive_missed_runs ?? 0,
+            last_refreshed_at: role.last_refreshed_at ?? null,
+            last_seen_at: role.last_seen_at ?? null,
         };
 
         // Index by URL (only if URL exists - new scraper data)
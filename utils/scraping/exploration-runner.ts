@@ -19,7 +19,8 @@ import {
     extractLinksWithContext,
 } from './extractor';
 import { suggestProgramme, ExpectedProgramme, normalizeProgrammeName } from './programme-suggester';
-import { UsageTracker } from './cost-calculator';
+import { UsageTracker, mergeUsageBreakdowns } from './cost-calculator';
+import { resolveModelChain, formatModelRef } from './llm-registry';
 import { normalizeUrl } from './url-normalizer';
 import { extractCanonicalName } from './canonical-name';
 import { loadExistingRoles, loadDismissedDrafts, classifyRoleAction } from './existing-role-checker';
@@ -255,7 +256,7 @@ export async function runExplorationJob(input: ExplorationJobInput): Promise<Exp
     const maxPages = scraperConfig.maxPages ?? 10;
     const maxRoles = scraperConfig.maxRoles ?? null; // null means unlimited
     const maxScrolls = scraperConfig.maxScrolls ?? 5;
-    const extractionModel = scraperConfig.extractionModel ?? 'gpt-4o-mini';
+    const extractionModel = formatModelRef(resolveModelChain('role-extraction', scraperConfig.extractionModel)[0]);
 
     try {
         logMessage(`Starting exploration for: ${input.url}`);
@@ -338,8 +339,8 @@ export async function runExplorationJob(input: ExplorationJobInput): Promise<Exp
                 // Use LLM to classify which links are job postings
                 logMessage('[LIST] 🤖 Calling LLM to classify which links are job postings...');
                 logMessage(`[LIST] Sending ${linksWithContext.length} links to classifier...`);
-                const classification = await classifyJobLinks(linksWithContext);
-                classificationTracker.add(classification.usage);
+                const classification = await classifyJobLinks(linksWithContext, scraperConfig.classificationModel);
+                classification.chunkUsage.forEach(usage => classificationTracker.add(usage));
                 logMessage(`[LIST] ✓ LLM identified ${classification.jobLinks.length} job links (${linksWithContext.length - classification.jobLinks.length} non-job links filtered out)`);
                 logMessage(`[LIST] Classification used ${classification.usage.totalTokens} tokens`);
                 if (classification.jobLinks.length > 0) {
@@ -485,7 +486,7 @@ export async function runExplorationJob(input: ExplorationJobInput): Promise<Exp
             logMessage(`[DETAIL] 🤖 Calling LLM for structured role extraction (model: ${extractionModel})...`);
 
             try {
-                const extraction = await extractRoleFromHtml(html, detailUrl, extractionModel);
+                const extraction = await extractRoleFromHtml(html, detailUrl, scraperConfig.extractionModel);
                 extractionTracker.add(extraction.usage);
 
                 logMessage(`[DETAIL] ✓ Extraction successful!`);
@@ -510,7 +511,7 @@ export async function runExplorationJob(input: ExplorationJobInput): Promise<Exp
                     expectedProgrammes: expectedProgrammes,
                     existingProgrammes: existingProgrammes,
                     firmName: firmName,
-                });
+                }, scraperConfig.suggestionModel);
 
                 suggestionTracker.add(suggestion.usage);
 
@@ -721,9 +722,9 @@ export async function runExplorationJob(input: ExplorationJobInput): Promise<Exp
         logMessage(`Total collected links: ${collectedLinks.length}`);
 
         // Calculate total cost
-        const extractionCost = extractionTracker.getCost('gpt-4o-mini');
-        const classificationCost = classificationTracker.getCost('gpt-4o-mini');
-        const suggestionCost = suggestionTracker.getCost('gpt-4o-mini');
+        const extractionCost = extractionTracker.getCost();
+        const classificationCost = classificationTracker.getCost();
+        const suggestionCost = suggestionTracker.getCost();
         const totalCost = extractionCost.totalCost + classificationCost.totalCost + suggestionCost.totalCost;
         const totalTokens = extractionCost.totalTokens + classificationCost.totalTokens + suggestionCost.totalTokens;
 
@@ -739,6 +740,13 @@ export async function runExplorationJob(input: ExplorationJobInput): Promise<Exp
         logMessage(`  - Reopened: ${rolesReopened}`);
         logMessage(`Total tokens: ${totalTokens.toLocaleString()}`);
         logMessage(`Total cost: $${totalCost.toFixed(4)}`);
+        for (const entry of mergeUsageBreakdowns(
+            classificationTracker.getBreakdown(),
+            extractionTracker.getBreakdown(),
+            suggestionTracker.getBreakdown()
+        )) {
+            logMessage(`  - ${entry.task ?? 'unknown'} on ${entry.model}: ${entry.calls} calls, ${entry.totalTokens.toLocaleString()} tokens, ${entry.costUsd === null ? 'unpriced' : `$${entry.costUsd.toFixed(4)}`}`);
+        }
 
         const metrics = {
             roles_found: rolesFound,
@@ -0,0 +1,86 @@
+/**
+ * Extraction Cache
+ *
+ * Skips the LLM on re-scans of detail pages whose content hasn't changed.
+ * Keyed by normalized URL; stores a SHA-256 of the cleanHtmlToMarkdown output
+ * together with the ScrapedRole it produced and the model that actually
+ * produced it (a fallback provider's answer is stored under the fallback).
+ * A hit only counts when both the hash and the requested model match.
+ *
+ * Table: extraction_cache
+ *   (normalized_url PK, content_hash, extraction_model, scraped_role, updated_at)
+ *
+ * All reads and writes are best-effort - a cache failure just means an LLM call.
+ */
+
+import { createHash } from 'crypto';
+import { createClient } from '@supabase/supabase-js';
+import type { ScrapedRole } from '@/packages/schemas/careers-scraping';
+import { normalizeUrl } from './url-normalizer';
+
+/**
+ * Hash cleaned page content for change detection
+ */
+export function hashContent(markdown: string): string {
+    return createHash('sha256').update(markdown).digest('hex');
+}
+
+/**
+ * Return the cached ScrapedRole if the page content and model are unchanged since the last extraction
+ */
+export async function getCachedExtraction(data: {
+    url: string;
+    contentHash: string;
+    extractionModel: string;
+}): Promise<ScrapedRole | null> {
+    const supabase = createClient(
+        process.env.NEXT_PUBLIC_SUPABASE_URL!,
+        process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+
+    const { data: cached, error } = await supabase
+        .from('extraction_cache')
+        .select('content_hash, extraction_model, scraped_role')
+        .eq('normalized_url', normalizeUrl(data.url))
+        .maybeSingle();
+
+    if (error) {
+        console.error('Error reading extraction cache:', error);
+        return null;
+    }
+
+    if (!cached || cached.content_hash !== data.contentHash || cached.extraction_model !== data.extractionModel) {
+        return null;
+    }
+
+    return cached.scraped_role as ScrapedRole;
+}
+
+/**
+ * Store the extraction for a page's current content (replaces any previous entry for the URL)
+ */
+export async function saveCachedExtraction(data: {
+    url: string;
+    contentHash: string;
+    extractionModel: string;
+    scrapedRole: ScrapedRole;
+}): Promise<void> {
+    const supabase = createClient(
+        process.env.NEXT_PUBLIC_SUPABASE_URL!,
+        process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+
+    const { error } = await supabase
+        .from('extraction_cache')
+        .upsert({
+            normalized_url: normalizeUrl(data.url),
+            content_hash: data.contentHash,
+            extraction_model: data.extractionModel,
+            scraped_role: data.scrapedRole as any,
+            updated_at: new Date().toISOString(),
+        }, { onConflict: 'normalized_url' });
+
+    if (error) {
+        console.error('Error writing extraction cache:', error);
+    }
+}
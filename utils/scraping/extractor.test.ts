@@ -0,0 +1,86 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { extractLinksWithContext } from './extractor';
+
+const BASE_URL = 'https://careers.acme.com/jobs';
+
+function listing(cards: string[]): string {
+    return `<html><body><nav><a href="/about">About</a></nav><ul class="results">${cards.join('')}</ul></body></html>`;
+}
+
+function fieldsFor(html: string, url: string) {
+    const link = extractLinksWithContext(html, BASE_URL).find(candidate => candidate.url === url);
+    assert.ok(link, `no link for ${url}`);
+    return { location: link.location, deadline: link.deadline, department: link.department };
+}
+
+test('reads card fields from class and itemprop names', () => {
+    const card = (id: number) => `
+        <li class="job-card">
+            <h3>Summer Analyst ${id}</h3>
+            <span class="job-card__location">London</span>
+            <span itemprop="validThrough">30 November 2026</span>
+            <span class="jobDepartment">Global Markets</span>
+            <a href="/jobs/${id}">View role</a>
+        </li>`;
+
+    assert.deepEqual(fieldsFor(listing([1, 2, 3].map(card)), 'https://careers.acme.com/jobs/2'), {
+        location: 'London',
+        deadline: '30 November 2026',
+        department: 'Global Markets',
+    });
+});
+
+test('reads labelled card text', () => {
+    const card = (id: number) => `
+        <li class="job-card">
+            <h3>Graduate Analyst ${id}</h3>
+            <p>Location: Manchester</p>
+            <p>Closes 12 Jan</p>
+            <dl><dt>Division</dt><dd>Operations</dd></dl>
+            <a href="/jobs/${id}">Graduate Analyst ${id}</a>
+        </li>`;
+
+    assert.deepEqual(fieldsFor(listing([1, 2, 3].map(card)), 'https://careers.acme.com/jobs/1'), {
+        location: 'Manchester',
+        deadline: '12 Jan',
+        department: 'Operations',
+    });
+});
+
+test('class names that only contain a field name are ignored', () => {
+    const card = (id: number) => `
+        <li class="job-card">
+            <h3>Summer Analyst ${id}</h3>
+            <span class="teams-icon">Share on Teams</span>
+            <span class="functional-nav">Menu</span>
+            <span class="capacity">Full capacity</span>
+            <a href="/jobs/${id}">Summer Analyst ${id}</a>
+        </li>`;
+
+    assert.deepEqual(fieldsFor(listing([1, 2, 3].map(card)), 'https://careers.acme.com/jobs/3'), {
+        location: null,
+        deadline: null,
+        department: null,
+    });
+});
+
+test('field values that repeat the title or run long are rejected', () => {
+    const card = (id: number) => `
+        <li class="job-card">
+            <div class="team">Summer Analyst ${id}</div>
+            <div class="location">Offices across London, Paris, Frankfurt, Milan, Madrid, Zurich, Dublin and Amsterdam</div>
+            <a href="/jobs/${id}">Summer Analyst ${id}</a>
+        </li>`;
+
+    assert.deepEqual(fieldsFor(listing([1, 2, 3].map(card)), 'https://careers.acme.com/jobs/1'), {
+        location: null,
+        deadline: null,
+        department: null,
+    });
+});
+
+test('links outside a card get no card fields', () => {
+    const html = '<html><body><p>Location: London</p><a href="/jobs/1">Summer Analyst</a></body></html>';
+    assert.deepEqual(fieldsFor(html, 'https://careers.acme.com/jobs/1'), { location: null, deadline: null, department: null });
+});
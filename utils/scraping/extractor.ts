@@ -1,9 +1,10 @@
-import { generateObject } from 'ai';
-import { ScrapedRoleSchema, ScrapedRole, LinkClassificationSchema, LinkWithContext } from '@/packages/schemas/careers-scraping';
+import { ScrapedRoleSchema, ScrapedRole, LinkClassificationSchema, LinkWithContext, ListingMetadata } from '@/packages/schemas/careers-scraping';
 import * as cheerio from 'cheerio';
-import { createOpenAI } from '@ai-sdk/openai';
 import TurndownService from 'turndown';
-import { TokenUsage, ExtractionModel } from './cost-calculator';
+import { TokenUsage, type UsageTracker } from './cost-calculator';
+import type { LlmBudgetGuard } from './budget-guard';
+import { generateStructured } from './llm-registry';
+import { formatListingContext, fillFromListing } from './listing-metadata';
 
 // Initialize turndown for HTML -> Markdown conversion
 const turndown = new TurndownService({
@@ -105,20 +106,9 @@ export function cleanHtmlToMarkdown(html: string): string {
 }
 
 /**
- * Extracts structured role data from HTML content using an LLM.
- * Converts HTML to clean Markdown first for better LLM comprehension.
+ * System prompt for role extraction (overridable per call - the eval suite compares variants)
  */
-export async function extractRoleFromHtml(
-    html: string,
-    url: string,
-    model: ExtractionModel = 'gpt-4o-mini'
-): Promise<{
-    role: ScrapedRole;
-    usage: TokenUsage;
-}> {
-    const markdown = cleanHtmlToMarkdown(html);
-
-    const systemPrompt = `You are an expert job posting data extractor. Your task is to extract structured information from job posting pages.
+export const ROLE_EXTRACTION_SYSTEM_PROMPT = `You are an expert job posting data extractor. Your task is to extract structured information from job posting pages.
 
 IMPORTANT INSTRUCTIONS:
 - Extract ONLY information that is explicitly stated on the page
@@ -153,86 +143,77 @@ Determine if this is:
 
 DESCRIPTION:
 Give detailed summary of the job description text. Include responsibilities, what the role entails, team info, etc.`;
-    const openaiProvider = process.env.OPENAI_API_KEY
-        ? createOpenAI({ apiKey: process.env.OPENAI_API_KEY })
-        : createOpenAI();
 
-    try {
-        const { object, usage } = await generateObject({
-            model: openaiProvider(model),
-            schema: ScrapedRoleSchema,
-            system: systemPrompt,
-            prompt: `Extract job role details from the following job posting page.
+/**
+ * Extracts structured role data from HTML content using an LLM.
+ * Converts HTML to clean Markdown first for better LLM comprehension.
+ * `listing` is what the listing card showed for this role (see listing-metadata).
+ */
+export async function extractRoleFromHtml(
+    html: string,
+    url: string,
+    model?: string | null, // Model spec override - see llm-registry
+    systemPrompt: string = ROLE_EXTRACTION_SYSTEM_PROMPT,
+    listing?: ListingMetadata | null
+): Promise<{
+    role: ScrapedRole;
+    usage: TokenUsage;
+}> {
+    return extractRoleFromMarkdown(cleanHtmlToMarkdown(html), url, model, systemPrompt, listing);
+}
 
-URL: ${url}
+/**
+ * Extracts structured role data from already-cleaned Markdown (see cleanHtmlToMarkdown).
+ * Used directly when the caller needs the Markdown too, e.g. for the extraction cache.
+ * With listing metadata, the card is shown to the LLM as corroborating context and
+ * fills location / program_type when the page leaves them out.
+ */
+export async function extractRoleFromMarkdown(
+    markdown: string,
+    url: string,
+    model?: string | null, // Model spec override - see llm-registry
+    systemPrompt: string = ROLE_EXTRACTION_SYSTEM_PROMPT,
+    listing?: ListingMetadata | null
+): Promise<{
+    role: ScrapedRole;
+    usage: TokenUsage;
+}> {
+    const listingContext = listing ? formatListingContext(listing) : '';
+    const prompt = `Extract job role details from the following job posting page.
 
+URL: ${url}
+${listingContext ? `
+LISTING CARD (shown for this role on the careers listing page - use it to corroborate the page and to fill details the page leaves out; where they conflict, the page wins):
+${listingContext}
+` : ''}
 PAGE CONTENT:
-${markdown}`,
-        });
+${markdown}`;
+    const withListing = (role: ScrapedRole) => listing ? fillFromListing(role, listing) : role;
 
-        // Log the raw usage object to debug
-        console.log('Raw usage object:', JSON.stringify(usage, null, 2));
-
-        // Handle different possible property names (AI SDK uses inputTokens/outputTokens)
-        const usageAny = usage as any;
-        let promptTokens = usageAny.promptTokens ?? usageAny.prompt_tokens ?? usageAny.inputTokens ?? 0;
-        let completionTokens = usageAny.completionTokens ?? usageAny.completion_tokens ?? usageAny.outputTokens ?? 0;
-        const totalTokens = usageAny.totalTokens ?? usageAny.total_tokens ?? 0;
-
-        // Fallback: if breakdown not available but total is, estimate 80/20 split (prompt/completion)
-        if (promptTokens === 0 && completionTokens === 0 && totalTokens > 0) {
-            console.warn('Token breakdown not available, using 80/20 estimate');
-            promptTokens = Math.floor(totalTokens * 0.8);
-            completionTokens = totalTokens - promptTokens;
-        }
+    try {
+        const { object, usage } = await generateStructured({
+            task: 'role-extraction',
+            model,
+            schema: ScrapedRoleSchema,
+            system: systemPrompt,
+            prompt,
+        });
 
-        return {
-            role: object,
-            usage: {
-                promptTokens,
-                completionTokens,
-                totalTokens,
-            },
-        };
+        return { role: withListing(object), usage };
     } catch (error) {
         console.error('LLM Extraction failed:', error);
 
         // Retry once on failure
         try {
             console.log('Retrying extraction...');
-            const { object, usage } = await generateObject({
-                model: openaiProvider('gpt-4o-mini'),
+            const { object, usage } = await generateStructured({
+                task: 'role-extraction', // Retry on the task's default model, not the override
                 schema: ScrapedRoleSchema,
                 system: systemPrompt,
-                prompt: `Extract job role details from the following job posting page.
-
-URL: ${url}
-
-PAGE CONTENT:
-${markdown}`,
+                prompt,
             });
 
-            // Handle different possible property names (AI SDK uses inputTokens/outputTokens)
-            const usageAny = usage as any;
-            let promptTokens = usageAny.promptTokens ?? usageAny.prompt_tokens ?? usageAny.inputTokens ?? 0;
-            let completionTokens = usageAny.completionTokens ?? usageAny.completion_tokens ?? usageAny.outputTokens ?? 0;
-            const totalTokens = usageAny.totalTokens ?? usageAny.total_tokens ?? 0;
-
-            // Fallback: if breakdown not available but total is, estimate 80/20 split
-            if (promptTokens === 0 && completionTokens === 0 && totalTokens > 0) {
-                console.warn('Token breakdown not available on retry, using 80/20 estimate');
-                promptTokens = Math.floor(totalTokens * 0.8);
-                completionTokens = totalTokens - promptTokens;
-            }
-
-            return {
-                role: object,
-                usage: {
-                    promptTokens,
-                    completionTokens,
-                    totalTokens,
-                },
-            };
+            return { role: withListing(object), usage };
         } catch (retryError) {
             console.error('Retry also failed:', retryError);
             return {
@@ -250,24 +231,98 @@ ${markdown}`,
     }
 }
 
+type ClassifiedJobLink = { url: string; title: string; confidence: 'high' | 'medium' | 'low' };
+
+// Links per classification prompt, and prompts in flight at once - keeps big portals within output limits
+export const LINK_CLASSIFICATION_CHUNK_SIZE = 80;
+export const LINK_CLASSIFICATION_CONCURRENCY = 4;
+
+const CONFIDENCE_RANK = { high: 3, medium: 2, low: 1 } as const;
+
 /**
  * Classifies which links from a page are likely job detail pages.
  * Uses LLM to understand context rather than relying on URL patterns.
+ *
+ * Large pages are split into chunks of at most chunkSize links, classified in
+ * parallel and merged - a link returned by more than one chunk is kept once,
+ * with its highest-confidence classification. A failed chunk contributes no
+ * links; the others still count.
+ *
+ * With a budgetGuard, the guard is checked before every chunk and the
+ * remaining chunks are skipped once it's exceeded (chunksSkipped). Pass the
+ * usageTracker the guard watches so each chunk's usage lands on it as soon as
+ * the chunk finishes - otherwise the guard can't see this page's spend.
+ * Chunks already in flight still finish, so the overshoot is at most
+ * `concurrency` chunks.
  */
-export async function classifyJobLinks(links: LinkWithContext[]): Promise<{
-    jobLinks: Array<{ url: string; title: string; confidence: 'high' | 'medium' | 'low' }>;
-    usage: TokenUsage;
+export async function classifyJobLinks(
+    links: LinkWithContext[],
+    model?: string | null,
+    options: { chunkSize?: number; concurrency?: number; budgetGuard?: LlmBudgetGuard; usageTracker?: UsageTracker } = {}
+): Promise<{
+    jobLinks: ClassifiedJobLink[];
+    usage: TokenUsage; // Summed over every chunk
+    chunkUsage: TokenUsage[]; // One entry per LLM call - feed these to a UsageTracker (already added with usageTracker)
+    chunksSkipped: number; // Chunks not sent because the budget ran out
 }> {
-    if (links.length === 0) {
-        return {
-            jobLinks: [],
-            usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
-        };
+    const chunkSize = options.chunkSize ?? LINK_CLASSIFICATION_CHUNK_SIZE;
+    const chunks: LinkWithContext[][] = [];
+    for (let i = 0; i < links.length; i += chunkSize) {
+        chunks.push(links.slice(i, i + chunkSize));
+    }
+
+    const results: Array<{ jobLinks: ClassifiedJobLink[]; usage: TokenUsage }> = [];
+    let nextChunk = 0;
+    let chunksSkipped = 0;
+    const worker = async () => {
+        while (nextChunk < chunks.length) {
+            if (options.budgetGuard?.isExceeded()) {
+                chunksSkipped = chunks.length - nextChunk;
+                nextChunk = chunks.length;
+                return;
+            }
+            const index = nextChunk++;
+            const result = await classifyLinkChunk(chunks[index], model);
+            options.usageTracker?.add(result.usage);
+            results[index] = result;
+        }
+    };
+    await Promise.all(
+        Array.from({ length: Math.min(options.concurrency ?? LINK_CLASSIFICATION_CONCURRENCY, chunks.length) }, worker)
+    );
+
+    const completed = results.filter(Boolean);
+    const merged = new Map<string, ClassifiedJobLink>();
+    for (const jobLink of completed.flatMap(result => result.jobLinks)) {
+        const key = normalizeUrl(jobLink.url);
+        const existing = merged.get(key);
+        if (!existing || CONFIDENCE_RANK[jobLink.confidence] > CONFIDENCE_RANK[existing.confidence]) {
+            merged.set(key, jobLink);
+        }
     }
-    const openaiProvider = process.env.OPENAI_API_KEY
-        ? createOpenAI({ apiKey: process.env.OPENAI_API_KEY })
-        : createOpenAI();
 
+    const chunkUsage = completed.map(result => result.usage);
+    return {
+        jobLinks: Array.from(merged.values()),
+        usage: {
+            promptTokens: chunkUsage.reduce((sum, usage) => sum + usage.promptTokens, 0),
+            completionTokens: chunkUsage.reduce((sum, usage) => sum + usage.completionTokens, 0),
+            totalTokens: chunkUsage.reduce((sum, usage) => sum + usage.totalTokens, 0),
+            model: chunkUsage.find(usage => usage.model)?.model,
+            task: 'link-classification',
+        },
+        chunkUsage,
+        chunksSkipped,
+    };
+}
+
+/**
+ * One classification prompt over a bounded set of links
+ */
+async function classifyLinkChunk(links: LinkWithContext[], model?: string | null): Promise<{
+    jobLinks: ClassifiedJobLink[];
+    usage: TokenUsage;
+}> {
     // Prepare links for classification (include all context)
     const linksForLLM = links.map((link, index) => ({
         index,
@@ -279,12 +334,11 @@ export async function classifyJobLinks(links: LinkWithContext[]): Promise<{
     }));
 
     try {
-        const { object, usage } = await /* The above code is a comment block in TypeScript. It appears
-        to be documenting a function called `generateObject`. */
-            generateObject({
-                model: openaiProvider('gpt-4o-mini'), // Use mini for speed/cost on classification
-                schema: LinkClassificationSchema,
-                system: `You are an expert at identifying job posting links and extracting specific role titles from career pages.
+        const { object, usage } = await generateStructured({
+            task: 'link-classification',
+            model,
+            schema: LinkClassificationSchema,
+            system: `You are an expert at identifying job posting links and extracting specific role titles from career pages.
 
 Your task:
 1. Identify which links lead to INDIVIDUAL JOB ROLE DETAIL PAGES
@@ -313,38 +367,15 @@ Confidence levels:
 - high: Clear job posting with obvious role title in headings
 - medium: Likely job posting, title extracted from card text
 - low: Uncertain if it's a job posting`,
-                prompt: `Analyze these links from a careers page. For each job posting, extract the actual role title.
+            prompt: `Analyze these links from a careers page. For each job posting, extract the actual role title.
 
-LINKS TO ANALYZE:
-${JSON.stringify(linksForLLM, null, 2)}
+LINKS TO ANALYZE (one JSON object per line):
+${linksForLLM.map(link => JSON.stringify(link)).join('\n')}
 
 Return only the links that are individual job postings, with their extracted role titles.`,
-            });
-
-        // Log the raw usage object to debug
-        console.log('Classification raw usage:', JSON.stringify(usage, null, 2));
-
-        // Handle different possible property names (AI SDK uses inputTokens/outputTokens)
-        const usageAny = usage as any;
-        let promptTokens = usageAny.promptTokens ?? usageAny.prompt_tokens ?? usageAny.inputTokens ?? 0;
-        let completionTokens = usageAny.completionTokens ?? usageAny.completion_tokens ?? usageAny.outputTokens ?? 0;
-        const totalTokens = usageAny.totalTokens ?? usageAny.total_tokens ?? 0;
-
-        // Fallback: if breakdown not available but total is, estimate 70/30 split (classification uses less output)
-        if (promptTokens === 0 && completionTokens === 0 && totalTokens > 0) {
-            console.warn('Token breakdown not available for classification, using 70/30 estimate');
-            promptTokens = Math.floor(totalTokens * 0.7);
-            completionTokens = totalTokens - promptTokens;
-        }
+        });
 
-        return {
-            jobLinks: object.jobLinks,
-            usage: {
-                promptTokens,
-                completionTokens,
-                totalTokens,
-            },
-        };
+        return { jobLinks: object.jobLinks, usage };
     } catch (error) {
         console.error('Link classification failed:', error);
         return {
@@ -354,22 +385,68 @@ Return only the links that are individual job postings, with their extracted rol
     }
 }
 
+/**
+ * Tag plus sorted class list, e.g. "li.job-card.featured" - cards in a repeated listing share one
+ */
+function elementSignature($element: cheerio.Cheerio<any>): string {
+    const tag = ($element.prop('tagName') || '').toLowerCase();
+    const classes = ($element.attr('class') || '').split(/\s+/).filter(Boolean).sort();
+    return [tag, ...classes].join('.');
+}
+
+// A block repeated this many times (itself included) among its siblings is treated as a listing card
+const MIN_REPEATED_CARDS = 3;
+const MAX_CARD_DEPTH = 6;
+
+/**
+ * Nearest ancestor of the link that is one of a run of repeated sibling blocks
+ * (same tag + class signature, each holding a link) - i.e. one card of the listing
+ */
+function findRepeatedCardAncestor($: cheerio.CheerioAPI, $link: cheerio.Cheerio<any>): cheerio.Cheerio<any> | null {
+    let $current = $link.parent();
+
+    for (let depth = 0; $current.length > 0 && depth < MAX_CARD_DEPTH; depth++) {
+        if ($current.is('body, html, main')) return null;
+
+        const signature = elementSignature($current);
+        const similarSiblings = $current.siblings().filter((_: any, sibling: any) => {
+            const $sibling = $(sibling);
+            return elementSignature($sibling) === signature && $sibling.find('a[href]').length > 0;
+        });
+
+        if (similarSiblings.length + 1 >= MIN_REPEATED_CARDS) {
+            return $current;
+        }
+
+        $current = $current.parent();
+    }
+
+    return null;
+}
+
 /**
  * Finds the job card container for a link using structural heuristics.
  *
  * Strategy:
- * 1. Try semantic HTML first (article, li)
- * 2. Find nearest parent containing a heading (structural heuristic)
- * 3. Fallback: go up 3 levels
+ * 1. Repeated sibling blocks - the listing's own card structure
+ * 2. Semantic HTML (article, li)
+ * 3. Find nearest parent containing a heading (structural heuristic)
+ * 4. Fallback: the link's parent - tight, rather than risk swallowing the whole list
  */
-function findJobCardContainer($link: cheerio.Cheerio<any>): cheerio.Cheerio<any> {
-    // Strategy 1: Semantic HTML (fast path if present)
+function findJobCardContainer($: cheerio.CheerioAPI, $link: cheerio.Cheerio<any>): cheerio.Cheerio<any> {
+    // Strategy 1: Repeated cards
+    const $repeated = findRepeatedCardAncestor($, $link);
+    if ($repeated) {
+        return $repeated;
+    }
+
+    // Strategy 2: Semantic HTML (fast path if present)
     const $semantic = $link.closest('article, li');
     if ($semantic.length > 0) {
         return $semantic;
     }
 
-    // Strategy 2: Structural heuristic - find parent with heading
+    // Strategy 3: Structural heuristic - find parent with heading
     // Traverse up looking for container that has both link AND heading
     let $current = $link.parent();
     let depth = 0;
@@ -387,8 +464,96 @@ function findJobCardContainer($link: cheerio.Cheerio<any>): cheerio.Cheerio<any>
         depth++;
     }
 
-    // Strategy 3: Fallback - go up 3 levels
-    return $link.parent().parent().parent();
+    // Strategy 4: Fallback
+    return $link.parent();
+}
+
+type CardField = 'location' | 'deadline' | 'department';
+
+// How each per-card field shows up: a class/itemprop naming it, or a labelled line.
+// Attribute names match whole segments of a class token ("job-location", "jobLocation", "location__text"),
+// never substrings - "capacity", "teams-icon" or "functional-nav" name nothing.
+const CARD_FIELD_PATTERNS: Record<CardField, { attribute: string; labels: string }> = {
+    location: {
+        attribute: 'locations?|city|office',
+        labels: 'locations?|offices?|city',
+    },
+    deadline: {
+        attribute: 'deadline|closing|closing-date|close-date|apply-by|end-date|valid-through',
+        labels: 'deadline|application deadline|closing date|closes|applications close|apply by',
+    },
+    department: {
+        attribute: 'department|division|business-area|team|function',
+        labels: 'departments?|division|business area|teams?|function',
+    },
+};
+
+const MAX_CARD_FIELD_LENGTH = 60;
+
+/**
+ * True when a class or itemprop token names the field as a whole segment
+ */
+function attributeNamesField(attributes: string, names: string): boolean {
+    const segment = new RegExp(`^(?:.*-)?(?:${names})(?:-.*)?$`, 'i');
+    return attributes.split(/\s+/).filter(Boolean).some(token => segment.test(
+        token.replace(/([a-z0-9])([A-Z])/g, '$1-$2').replace(/_+/g, '-')
+    ));
+}
+
+/**
+ * Field value, or null when it's empty, too long to be a field, or just the role title again
+ */
+function cleanFieldText(text: string, titles: string[]): string | null {
+    const value = text.replace(/\s+/g, ' ').trim();
+    if (!value || value.length > MAX_CARD_FIELD_LENGTH) return null;
+    return titles.some(title => title.replace(/\s+/g, ' ').trim().toLowerCase() === value.toLowerCase()) ? null : value;
+}
+
+/**
+ * Pull location / deadline / department text out of a card.
+ * Checks elements whose class or itemprop names the field, then labelled
+ * leaf text - "Location: London", "Closes 30 Nov", or a bare "Location"
+ * <dt>/<span> followed by the value. Values are short raw card text, null
+ * when the card doesn't show the field - or only repeats the role title
+ * (the link text and headings passed as titles).
+ */
+function extractCardFields($: cheerio.CheerioAPI, $card: cheerio.Cheerio<any>, titles: string[]): Record<CardField, string | null> {
+    const fields: Record<CardField, string | null> = { location: null, deadline: null, department: null };
+    if ($card.is('body, html, main')) {
+        return fields; // Not a card - anything found would belong to some other role
+    }
+
+    const $leaves = $card.find('*').filter((_: any, el: any) => $(el).children().length === 0);
+
+    for (const field of Object.keys(CARD_FIELD_PATTERNS) as CardField[]) {
+        const { attribute, labels } = CARD_FIELD_PATTERNS[field];
+        // "Label: value", or "Label 30 Nov" when the value starts with a digit
+        const inline = new RegExp(`^(?:${labels})(?:\\s*[:\\-–]\\s*|\\s+(?=\\d))(.+)$`, 'i');
+        const bare = new RegExp(`^(?:${labels})\\s*:?$`, 'i');
+
+        $card.find('[class], [itemprop]').each((_: any, el: any) => {
+            if (fields[field]) return false;
+            const $el = $(el);
+            if ($el.is('a') || !attributeNamesField(`${$el.attr('class') || ''} ${$el.attr('itemprop') || ''}`, attribute)) return;
+
+            const text = $el.text().replace(/\s+/g, ' ').trim();
+            fields[field] = cleanFieldText(text.match(inline)?.[1] ?? text, titles);
+        });
+
+        $leaves.each((_: any, el: any) => {
+            if (fields[field]) return false;
+            const text = $(el).text().replace(/\s+/g, ' ').trim();
+
+            const labelled = text.match(inline);
+            if (labelled) {
+                fields[field] = cleanFieldText(labelled[1], titles);
+            } else if (bare.test(text)) {
+                fields[field] = cleanFieldText($(el).next().text(), titles);
+            }
+        });
+    }
+
+    return fields;
 }
 
 /**
@@ -399,14 +564,28 @@ function findJobCardContainer($link: cheerio.Cheerio<any>): cheerio.Cheerio<any>
  * - Extracts all headings from the card/section containing the link
  * - Extracts full card text for LLM context
  * - Let LLM figure out which heading is the actual role title
+ * - Records structural hints (card repetition, similar siblings, nav/footer) for link-scorer
+ *
+ * Optional selectors (from scraper_config.selectors) scope extraction:
+ * - listContainer: only links inside this element are considered
+ * - jobLinks: only these elements are considered (anchors, or cards containing one)
  */
-export function extractLinksWithContext(html: string, baseUrl: string): LinkWithContext[] {
+export function extractLinksWithContext(
+    html: string,
+    baseUrl: string,
+    selectors: { listContainer?: string; jobLinks?: string } = {}
+): LinkWithContext[] {
     const $ = cheerio.load(html);
     const links: LinkWithContext[] = [];
     const seenUrls = new Set<string>();
 
-    $('a[href]').each((_, element) => {
-        const $el = $(element);
+    const $scope = selectors.listContainer ? $(selectors.listContainer) : $.root();
+    const $candidates = $scope.find(selectors.jobLinks || 'a[href]');
+
+    $candidates.each((_, element) => {
+        // jobLinks may point at a card rather than the anchor itself
+        const $candidate = $(element);
+        const $el = $candidate.is('a[href]') ? $candidate : $candidate.find('a[href]').first();
         const href = $el.attr('href');
 
         if (!href) return;
@@ -448,7 +627,7 @@ export function extractLinksWithContext(html: string, baseUrl: string): LinkWith
         if (!text && !ariaLabel) return;
 
         // Find the job card container using structural heuristics
-        const $container = findJobCardContainer($el);
+        const $container = findJobCardContainer($, $el);
 
         // Extract all headings from the container
         const headings = $container
@@ -467,15 +646,35 @@ export function extractLinksWithContext(html: string, baseUrl: string): LinkWith
             cardText = cardText.substring(0, 500) + '...';
         }
 
+        const cardSignature = elementSignature($container);
+
         links.push({
             url: absoluteUrl,
             text,
             headings,
             cardText,
             ariaLabel,
+            ...extractCardFields($, $container, [text, ariaLabel, ...headings]),
+            structure: {
+                cardSignature,
+                cardRepeatCount: 0, // Filled in once every link is known
+                similarSiblingCount: $container.siblings().filter((_: any, sibling: any) => elementSignature($(sibling)) === cardSignature).length,
+                inPageChrome: $el.closest('nav, header, footer').length > 0,
+            },
         });
     });
 
+    // Page-level containers aren't cards, however many links they hold
+    const signatureCounts = new Map<string, number>();
+    for (const link of links) {
+        const signature = link.structure!.cardSignature;
+        if (/^(html|body|main)(\.|$)/.test(signature)) continue;
+        signatureCounts.set(signature, (signatureCounts.get(signature) ?? 0) + 1);
+    }
+    for (const link of links) {
+        link.structure!.cardRepeatCount = signatureCounts.get(link.structure!.cardSignature) ?? 0;
+    }
+
     return links;
 }
 
@@ -0,0 +1,238 @@
+/**
+ * JSON Job Harvester
+ *
+ * Many career sites are SPAs that load their listings from XHR/fetch JSON.
+ * This captures those responses while the LIST phase waits and scrolls,
+ * and pulls title + URL straight from the JSON - no DOM scraping or LLM
+ * classification, and it catches jobs that never render into the DOM.
+ *
+ * Job arrays are found heuristically, or via scraper_config.jsonJobs. Only a
+ * configured jsonJobs is trusted to skip the DOM and the LLM - heuristic
+ * matches can be news, office or location lists, or a partial feed, so they
+ * join the page's links as classification candidates (see harvestedJobLink).
+ * {
+ *   path: "data.jobs",                      // Dot path to the job array
+ *   titleField: "postingTitle",             // Defaults to common title keys
+ *   urlField: "applyUrl",                   // Defaults to common URL keys
+ *   urlTemplate: "https://acme.com/jobs/{id}" // Build URLs from item fields
+ * }
+ */
+
+import type { Page, Response } from 'playwright';
+import type { LinkWithContext, ScraperConfig } from '@/packages/schemas/careers-scraping';
+
+const MAX_RESPONSE_BYTES = 5 * 1024 * 1024;
+const MAX_DEPTH = 6;
+
+const TITLE_KEYS = ['title', 'jobTitle', 'job_title', 'postingTitle', 'name', 'Title', 'position', 'positionTitle'];
+const URL_KEYS = ['url', 'absolute_url', 'applyUrl', 'apply_url', 'hostedUrl', 'jobUrl', 'job_url', 'link', 'href', 'externalUrl', 'externalPath', 'canonicalUrl', 'detailUrl'];
+
+// Sibling keys that suggest an object is a job posting rather than, say, a nav item
+const JOB_HINT_KEYS = [
+    'location', 'locations', 'locationsText', 'city', 'country',
+    'department', 'team', 'jobFamily', 'function',
+    'postedDate', 'postedOn', 'datePosted', 'createdAt', 'publishedAt', 'releasedDate',
+    'jobId', 'job_id', 'requisitionId', 'reqId',
+    'employmentType', 'commitment', 'closingDate', 'deadline',
+];
+
+export type JsonJobsConfig = NonNullable<ScraperConfig['jsonJobs']>;
+
+export interface HarvestedJob {
+    title: string;
+    url: string;
+    sourceUrl: string; // The XHR/fetch endpoint the job came from
+}
+
+/**
+ * A harvested job as a listing link, so it can go through pre-filtering, scoring and classification
+ */
+export function harvestedJobLink(job: HarvestedJob): LinkWithContext {
+    return {
+        url: job.url,
+        text: job.title,
+        headings: [],
+        cardText: '',
+        ariaLabel: '',
+    };
+}
+
+interface CapturedResponse {
+    url: string;
+    body: unknown;
+}
+
+/**
+ * Read a dot path (e.g. "data.jobs" or "items.0.requisitionList") from a JSON value
+ */
+function getPath(value: unknown, path: string): unknown {
+    return path.split('.').filter(Boolean).reduce<unknown>((current, key) => {
+        if (current === null || typeof current !== 'object') return undefined;
+        return (current as Record<string, unknown>)[key];
+    }, value);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function pickString(item: Record<string, unknown>, keys: string[]): string | null {
+    for (const key of keys) {
+        const value = item[key];
+        if (typeof value === 'string' && value.trim()) return value.trim();
+    }
+    return null;
+}
+
+function fillTemplate(template: string, item: Record<string, unknown>): string | null {
+    let missing = false;
+    const filled = template.replace(/\{([^}]+)\}/g, (_, path: string) => {
+        const value = getPath(item, path);
+        if (value === undefined || value === null || value === '') {
+            missing = true;
+            return '';
+        }
+        return encodeURIComponent(String(value));
+    });
+    return missing ? null : filled;
+}
+
+function resolveUrl(rawUrl: string, pageUrl: string): string | null {
+    try {
+        const url = new URL(rawUrl, pageUrl);
+        return url.protocol === 'http:' || url.protocol === 'https:' ? url.href : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Turn one array item into a job, or null if it doesn't look like one
+ */
+function toJob(item: unknown, pageUrl: string, config: JsonJobsConfig): { title: string; url: string } | null {
+    if (!isRecord(item)) return null;
+
+    const title = pickString(item, config.titleField ? [config.titleField] : TITLE_KEYS);
+    if (!title) return null;
+
+    const rawUrl = config.urlTemplate
+        ? fillTemplate(config.urlTemplate, item)
+        : pickString(item, config.urlField ? [config.urlField] : URL_KEYS);
+    if (!rawUrl) return null;
+
+    const url = resolveUrl(rawUrl, pageUrl);
+    return url ? { title, url } : null;
+}
+
+/**
+ * Heuristic: an array is a job list if most items have a title, a URL and at least one job-ish sibling key
+ */
+function looksLikeJobArray(items: unknown[], pageUrl: string, config: JsonJobsConfig): boolean {
+    if (items.length === 0) return false;
+
+    const matching = items.filter(item =>
+        toJob(item, pageUrl, config) !== null
+        && JOB_HINT_KEYS.some(key => key in (item as Record<string, unknown>))
+    ).length;
+
+    return matching / items.length >= 0.8;
+}
+
+/**
+ * Walk a JSON value looking for arrays that look like job lists
+ */
+function findJobArrays(value: unknown, pageUrl: string, config: JsonJobsConfig, depth = 0): unknown[][] {
+    if (depth > MAX_DEPTH || value === null || typeof value !== 'object') return [];
+
+    if (Array.isArray(value)) {
+        if (looksLikeJobArray(value, pageUrl, config)) return [value];
+        return value.slice(0, 50).flatMap(item => findJobArrays(item, pageUrl, config, depth + 1));
+    }
+
+    return Object.values(value).flatMap(child => findJobArrays(child, pageUrl, config, depth + 1));
+}
+
+/**
+ * Extract jobs from a captured JSON body
+ *
+ * @example
+ * extractJobsFromJson({ data: { jobs: [{ title: "Graduate Analyst", url: "/jobs/1", location: "London" }] } }, "https://acme.com/careers")
+ * // => [{ title: "Graduate Analyst", url: "https://acme.com/jobs/1" }]
+ */
+export function extractJobsFromJson(
+    body: unknown,
+    pageUrl: string,
+    config: JsonJobsConfig = {}
+): Array<{ title: string; url: string }> {
+    let arrays: unknown[][];
+
+    if (config.path) {
+        const target = getPath(body, config.path);
+        arrays = Array.isArray(target) ? [target] : [];
+    } else {
+        arrays = findJobArrays(body, pageUrl, config);
+    }
+
+    return arrays.flatMap(items =>
+        items
+            .map(item => toJob(item, pageUrl, config))
+            .filter((job): job is { title: string; url: string } => job !== null)
+    );
+}
+
+/**
+ * Capture JSON XHR/fetch responses on a page.
+ * Attach before navigation (crawlee preNavigationHooks) so the initial listing request is caught.
+ */
+export class JsonHarvester {
+    private captured: CapturedResponse[] = [];
+    private pending = new Set<Promise<void>>();
+
+    constructor(private config: JsonJobsConfig = {}) {}
+
+    attach(page: Page): void {
+        page.on('response', (response: Response) => {
+            const task = this.capture(response).finally(() => this.pending.delete(task));
+            this.pending.add(task);
+        });
+    }
+
+    private async capture(response: Response): Promise<void> {
+        try {
+            const resourceType = response.request().resourceType();
+            if (resourceType !== 'xhr' && resourceType !== 'fetch') return;
+            if (!response.ok()) return;
+
+            const headers = response.headers();
+            if (!(headers['content-type'] || '').includes('json')) return;
+            if (Number(headers['content-length'] || 0) > MAX_RESPONSE_BYTES) return;
+
+            this.captured.push({ url: response.url(), body: await response.json() });
+        } catch {
+            // Body unavailable (redirect, page closed, invalid JSON) - ignore
+        }
+    }
+
+    /**
+     * Return jobs from every response captured since the last drain
+     */
+    async drain(pageUrl: string): Promise<HarvestedJob[]> {
+        await Promise.all(Array.from(this.pending));
+
+        const responses = this.captured;
+        this.captured = [];
+
+        const seen = new Set<string>();
+        const jobs: HarvestedJob[] = [];
+
+        for (const response of responses) {
+            for (const job of extractJobsFromJson(response.body, pageUrl, this.config)) {
+                if (seen.has(job.url)) continue;
+                seen.add(job.url);
+                jobs.push({ ...job, sourceUrl: response.url });
+            }
+        }
+
+        return jobs;
+    }
+}
@@ -0,0 +1,39 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { LinkWithContext } from '@/packages/schemas/careers-scraping';
+import { obviousNonJobReason, prefilterJobLinks } from './link-prefilter';
+
+const LISTING_URL = 'https://careers.acme.com/jobs';
+
+function link(url: string, text = '', ariaLabel = ''): LinkWithContext {
+    return { url, text, ariaLabel, headings: [], cardText: '' };
+}
+
+test('drops links with a clear non-job signal', () => {
+    assert.equal(obviousNonJobReason(link('https://careers.acme.com/jobs#filters', 'Filters'), LISTING_URL), 'same-page');
+    assert.equal(obviousNonJobReason(link('https://careers.acme.com/brochure.zip', 'Brochure'), LISTING_URL), 'asset');
+    assert.equal(obviousNonJobReason(link('https://careers.acme.com/privacy', 'Our policies'), LISTING_URL), 'utility-page');
+    assert.equal(obviousNonJobReason(link('https://careers.acme.com/jobs?page=2', '2'), LISTING_URL), 'pagination');
+    assert.equal(obviousNonJobReason(link('https://careers.acme.com/jobs?page=2', '', 'Next page'), LISTING_URL), 'pagination');
+    assert.equal(obviousNonJobReason(link('https://careers.acme.com/about', 'About us'), LISTING_URL), 'navigation');
+});
+
+test('keeps anything ambiguous for the classifier', () => {
+    assert.equal(obviousNonJobReason(link('https://careers.acme.com/jobs/123', 'View role'), LISTING_URL), null);
+    assert.equal(obviousNonJobReason(link('https://careers.acme.com/jobs/456', 'Learn more'), LISTING_URL), null);
+    assert.equal(obviousNonJobReason(link('https://careers.acme.com/programmes/summer', 'Summer Analyst'), LISTING_URL), null);
+});
+
+test('splits a page into candidates and dropped links', () => {
+    const result = prefilterJobLinks([
+        link('https://careers.acme.com/jobs/123', 'Summer Analyst'),
+        link('https://careers.acme.com/login', 'Sign in'),
+        link('https://careers.acme.com/jobs?page=2', 'Next'),
+    ], LISTING_URL);
+
+    assert.deepEqual(result.candidates.map(candidate => candidate.url), ['https://careers.acme.com/jobs/123']);
+    assert.deepEqual(result.dropped, [
+        { url: 'https://careers.acme.com/login', reason: 'utility-page' },
+        { url: 'https://careers.acme.com/jobs?page=2', reason: 'pagination' },
+    ]);
+});
@@ -0,0 +1,106 @@
+/**
+ * Link Pre-filter
+ *
+ * Cheap heuristics run before LLM link classification to drop anchors that
+ * are obviously not job postings - site navigation, legal/account pages,
+ * pagination controls, links back to the listing itself and static assets.
+ * Big career portals carry hundreds of these, and every one costs prompt
+ * tokens in classifyJobLinks.
+ *
+ * Deliberately conservative: a link is only dropped on a clear signal, and
+ * anything ambiguous is left for the classifier.
+ */
+
+import type { LinkWithContext } from '@/packages/schemas/careers-scraping';
+
+export interface DroppedLink {
+    url: string;
+    reason: 'same-page' | 'navigation' | 'utility-page' | 'pagination' | 'asset';
+}
+
+export interface LinkPrefilterResult {
+    candidates: LinkWithContext[];
+    dropped: DroppedLink[];
+}
+
+// Whole link texts that only ever mean site chrome
+const NAVIGATION_TEXTS = new Set([
+    'home', 'about', 'about us', 'who we are', 'contact', 'contact us', 'menu', 'close', 'search',
+    'skip to content', 'skip to main content', 'back', 'back to top', 'back to search', 'back to results',
+    'privacy', 'privacy policy', 'privacy notice', 'cookies', 'cookie policy', 'cookie settings', 'cookie preferences',
+    'terms', 'terms of use', 'terms and conditions', 'legal', 'accessibility', 'sitemap', 'site map',
+    'log in', 'login', 'sign in', 'sign up', 'register', 'my account', 'my applications', 'logout', 'log out',
+    'english', 'français', 'deutsch', 'español', 'italiano', '中文', '日本語',
+]);
+
+const PAGINATION_TEXTS = new Set(['next', 'previous', 'prev', 'first', 'last', '»', '«', '›', '‹', '>', '<', '...', '…']);
+
+// Path segments of pages that are never a posting
+const UTILITY_PATH_PATTERN = /\/(privacy|cookies?|cookie-policy|terms|legal|accessibility|sitemap|log-?in|sign-?in|sign-?up|register|logout|my-account)(\/|$|\.)/i;
+
+const ASSET_EXTENSION_PATTERN = /\.(jpe?g|png|gif|svg|webp|ico|css|js|zip|xml|rss|ics|mp4|mp3)$/i;
+
+function stripHash(url: string): string | null {
+    try {
+        const parsed = new URL(url);
+        parsed.hash = '';
+        return parsed.href.replace(/\/$/, '');
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Why a link is obviously not a job posting, or null if it should be classified
+ */
+export function obviousNonJobReason(link: LinkWithContext, listingUrl: string): DroppedLink['reason'] | null {
+    const text = link.text.trim().toLowerCase().replace(/\s+/g, ' ');
+    const label = link.ariaLabel.trim().toLowerCase();
+
+    const linkTarget = stripHash(link.url);
+    if (linkTarget !== null && linkTarget === stripHash(listingUrl)) {
+        return 'same-page';
+    }
+
+    let pathname = '';
+    try {
+        pathname = new URL(link.url).pathname;
+    } catch {
+        return null;
+    }
+
+    if (ASSET_EXTENSION_PATTERN.test(pathname)) {
+        return 'asset';
+    }
+    if (UTILITY_PATH_PATTERN.test(pathname)) {
+        return 'utility-page';
+    }
+    if (/^\d+$/.test(text) || PAGINATION_TEXTS.has(text) || /^(next|previous) page$/.test(label)) {
+        return 'pagination';
+    }
+    // Only exact chrome texts count - generic buttons like "View role" or "Learn more" sit on real job cards too
+    if (NAVIGATION_TEXTS.has(text || label)) {
+        return 'navigation';
+    }
+
+    return null;
+}
+
+/**
+ * Split a page's links into classifier candidates and obvious non-job links
+ */
+export function prefilterJobLinks(links: LinkWithContext[], listingUrl: string): LinkPrefilterResult {
+    const candidates: LinkWithContext[] = [];
+    const dropped: DroppedLink[] = [];
+
+    for (const link of links) {
+        const reason = obviousNonJobReason(link, listingUrl);
+        if (reason) {
+            dropped.push({ url: link.url, reason });
+        } else {
+            candidates.push(link);
+        }
+    }
+
+    return { candidates, dropped };
+}
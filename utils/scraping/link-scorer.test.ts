@@ -0,0 +1,67 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { LinkWithContext } from '@/packages/schemas/careers-scraping';
+import { heuristicJobTitle, scoreJobLink, triageJobLinks } from './link-scorer';
+
+function link(overrides: Partial<LinkWithContext> = {}): LinkWithContext {
+    return {
+        url: 'https://careers.acme.com/jobs/summer-analyst-12345',
+        text: 'View role',
+        headings: ['2026 Summer Analyst - Markets'],
+        cardText: '',
+        ariaLabel: '',
+        structure: { cardSignature: 'li.job-card', cardRepeatCount: 12, similarSiblingCount: 11, inPageChrome: false },
+        ...overrides,
+    };
+}
+
+const THRESHOLDS = { acceptAt: 7, rejectBelow: 0 };
+
+test('a repeated job card with a job path and ID scores high', () => {
+    const { score, signals } = scoreJobLink(link());
+    // job-path 3, job-id 2, heading 1, role-heading 2, repeated-card 2, similar-siblings 1
+    assert.equal(score, 11);
+    assert.ok(signals.includes('repeated-card +2'));
+});
+
+test('page chrome and filter links score low', () => {
+    const navLink = link({
+        url: 'https://careers.acme.com/jobs?department=markets',
+        text: 'Markets',
+        headings: [],
+        structure: { cardSignature: 'nav.menu', cardRepeatCount: 1, similarSiblingCount: 0, inPageChrome: true },
+    });
+    assert.ok(scoreJobLink(navLink).score < 0);
+});
+
+test('headings of a page-level container are not card headings', () => {
+    const pageLevel = link({ structure: { cardSignature: 'body', cardRepeatCount: 0, similarSiblingCount: 0, inPageChrome: false } });
+    assert.ok(!scoreJobLink(pageLevel).signals.some(signal => signal.startsWith('heading')));
+    assert.equal(heuristicJobTitle(pageLevel), null, '"View role" is generic and the page heading is not the card\'s');
+});
+
+test('triage splits on the thresholds', () => {
+    const accepted = link();
+    const ambiguous = link({ url: 'https://careers.acme.com/careers/students', text: 'Students', headings: [], structure: undefined });
+    const rejected = link({
+        url: 'https://careers.acme.com/jobs?q=analyst',
+        text: 'Search',
+        headings: [],
+        structure: { cardSignature: 'header', cardRepeatCount: 1, similarSiblingCount: 0, inPageChrome: true },
+    });
+
+    const triage = triageJobLinks([accepted, ambiguous, rejected], THRESHOLDS);
+
+    assert.deepEqual(triage.accepted.map(entry => entry.title), ['2026 Summer Analyst - Markets']);
+    assert.deepEqual(triage.ambiguous.map(entry => entry.url), [ambiguous.url]);
+    assert.deepEqual(triage.rejected.map(entry => entry.url), [rejected.url]);
+});
+
+test('a high scorer with no usable title is left for the LLM', () => {
+    const untitled = link({ headings: [], text: 'Apply now', structure: { cardSignature: 'li.job-card', cardRepeatCount: 12, similarSiblingCount: 11, inPageChrome: false } });
+    assert.ok(scoreJobLink(untitled).score >= THRESHOLDS.acceptAt);
+
+    const triage = triageJobLinks([untitled], THRESHOLDS);
+    assert.equal(triage.accepted.length, 0);
+    assert.equal(triage.ambiguous.length, 1);
+});
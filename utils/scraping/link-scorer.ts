@@ -0,0 +1,126 @@
+/**
+ * Heuristic Link Scorer
+ *
+ * Deterministic pre-ranking of listing links before LLM classification.
+ * Each link gets a score from:
+ *
+ * - URL: job-like path segments (/job/, /vacancy/, /positions/...) and
+ *   requisition IDs (numeric path segments, ?jobId= style params)
+ * - Card: headings on the card, role keywords in headings or link text
+ * - Structure: card repetition and similar DOM siblings (a listing is a run
+ *   of identical cards) - see LinkWithContext.structure
+ * - Penalties: nav/header/footer placement, filter/search query params,
+ *   shallow paths with no ID
+ *
+ * With scraper_config.linkScoring set, links scoring >= acceptAt are taken as
+ * jobs without the LLM, links scoring < rejectBelow are dropped, and only the
+ * ambiguous middle goes to classifyJobLinks.
+ */
+
+import type { LinkWithContext } from '@/packages/schemas/careers-scraping';
+
+export interface LinkScore {
+    score: number;
+    signals: string[]; // e.g. ["job-path +3", "repeated-card +2"] - for logs
+}
+
+export interface LinkTriage {
+    accepted: Array<{ url: string; title: string; confidence: 'high'; score: number }>;
+    ambiguous: LinkWithContext[];
+    rejected: Array<{ url: string; score: number }>;
+}
+
+const JOB_PATH_PATTERN = /\/(jobs?|job-?details?|vacanc(y|ies)|positions?|openings?|postings?|requisitions?|opportunit(y|ies)|roles?)\/[^/?#]+/i;
+const ID_SEGMENT_PATTERN = /\/[a-z_-]*\d{4,}[a-z_-]*(\/|$)/i;
+const ID_PARAM_PATTERN = /[?&](job_?id|req_?id|requisition_?id|gh_jid|posting_?id|jobreq|id)=[^&]+/i;
+const FILTER_PARAM_PATTERN = /[?&](category|department|team|location|page|sort|filter|q|query|search|keyword)=/i;
+const ROLE_KEYWORD_PATTERN = /\b(analyst|associate|intern|internship|graduate|trainee|apprentice|apprenticeship|placement|programme|program|engineer|developer|summer|spring|insight|off-cycle)\b/i;
+const GENERIC_LINK_TEXT_PATTERN = /^(apply( now)?|view( role| job| details)?|learn more|read more|more info(rmation)?|see (details|more)|details|find out more)$/i;
+
+/**
+ * Score one link - higher means more likely an individual job posting
+ */
+export function scoreJobLink(link: LinkWithContext): LinkScore {
+    const signals: string[] = [];
+    let score = 0;
+    const add = (signal: string, points: number) => {
+        score += points;
+        signals.push(`${signal} ${points > 0 ? '+' : ''}${points}`);
+    };
+
+    let pathname = '';
+    let search = '';
+    try {
+        const parsed = new URL(link.url);
+        pathname = parsed.pathname;
+        search = parsed.search;
+    } catch {
+        return { score: 0, signals: [] };
+    }
+
+    // URL
+    const hasId = ID_SEGMENT_PATTERN.test(pathname) || ID_PARAM_PATTERN.test(search);
+    if (JOB_PATH_PATTERN.test(pathname)) add('job-path', 3);
+    if (hasId) add('job-id', 2);
+    if (FILTER_PARAM_PATTERN.test(search)) add('filter-query', -2);
+    if (pathname.split('/').filter(Boolean).length <= 1 && !hasId) add('shallow-path', -1);
+
+    // Card content - headings only count when the container is a card, not the whole page (cardRepeatCount 0)
+    if (link.structure?.cardRepeatCount !== 0) {
+        if (link.headings.length > 0) add('heading', 1);
+        if (link.headings.some(heading => ROLE_KEYWORD_PATTERN.test(heading))) add('role-heading', 2);
+    }
+    if (ROLE_KEYWORD_PATTERN.test(link.text) || ROLE_KEYWORD_PATTERN.test(link.ariaLabel)) add('role-text', 1);
+
+    // Structure
+    if (link.structure) {
+        if (link.structure.inPageChrome) add('page-chrome', -4);
+        if (link.structure.cardRepeatCount >= 3) add('repeated-card', 2);
+        if (link.structure.similarSiblingCount >= 2) add('similar-siblings', 1);
+    }
+
+    return { score, signals };
+}
+
+/**
+ * Best guess at the role title when a link skips the LLM: a heading naming a
+ * role, else the first heading, else non-generic link text
+ */
+export function heuristicJobTitle(link: LinkWithContext): string | null {
+    const headings = link.structure?.cardRepeatCount === 0 ? [] : link.headings; // Page-level headings aren't the card's
+    const roleHeading = headings.find(heading => ROLE_KEYWORD_PATTERN.test(heading));
+    if (roleHeading) return roleHeading;
+    if (headings.length > 0) return headings[0];
+
+    const text = link.text.trim() || link.ariaLabel.trim();
+    return text && !GENERIC_LINK_TEXT_PATTERN.test(text) ? text : null;
+}
+
+/**
+ * Split links into accepted (skip the LLM), ambiguous (classify) and rejected (drop).
+ * A high scorer with no usable title is left for the LLM to name.
+ */
+export function triageJobLinks(
+    links: LinkWithContext[],
+    thresholds: { acceptAt: number; rejectBelow: number }
+): LinkTriage {
+    const triage: LinkTriage = { accepted: [], ambiguous: [], rejected: [] };
+
+    for (const link of links) {
+        const { score } = scoreJobLink(link);
+
+        if (score < thresholds.rejectBelow) {
+            triage.rejected.push({ url: link.url, score });
+            continue;
+        }
+
+        const title = score >= thresholds.acceptAt ? heuristicJobTitle(link) : null;
+        if (title) {
+            triage.accepted.push({ url: link.url, title, confidence: 'high', score });
+        } else {
+            triage.ambiguous.push(link);
+        }
+    }
+
+    return triage;
+}
@@ -8,28 +8,52 @@
 
 import { PlaywrightCrawler, createPlaywrightRouter, Configuration } from 'crawlee';
 import { Page } from 'playwright';
-import { classifyJobLinks, extractLinksWithContext } from './extractor';
-import { UsageTracker } from './cost-calculator';
+import { classifyJobLinks, extractLinksWithContext, LINK_CLASSIFICATION_CHUNK_SIZE } from './extractor';
+import { prefilterJobLinks } from './link-prefilter';
+import { triageJobLinks } from './link-scorer';
+import { resolvePaginator, type Paginator } from './pagination';
+import { listingMetadataFromLink, listingMetadataFromAtsJob } from './listing-metadata';
+import { UsageTracker, type UsageBreakdownEntry } from './cost-calculator';
 import { normalizeUrl } from './url-normalizer';
 import { extractCanonicalName } from './canonical-name';
 import { loadExistingRoles, loadDismissedDrafts, classifyRoleAction } from './existing-role-checker';
-import type { RoleAction } from '@/packages/schemas/careers-scraping';
+import { DEFAULT_SCRAPER_CONFIG } from '@/packages/schemas/careers-scraping';
+import type { LinkWithContext, ListingMetadata, RoleAction, ScraperConfig, ScrapeStopReason } from '@/packages/schemas/careers-scraping';
 import { ExpectedProgramme } from './programme-suggester';
+import { resolveAtsAdapter } from './ats/registry';
+import { MAX_ATS_JOBS } from './ats/http';
+import { JsonHarvester, harvestedJobLink } from './json-harvester';
+import { isRefreshDue } from './role-change-detector';
+import type { AtsJobRef } from './ats/types';
+import { LlmBudgetGuard } from './budget-guard';
+import { applyPageInterceptor } from './page-interceptor';
+import { openSnapshotCapture, withSnapshotCapture, type SnapshotCapture } from './snapshot-capture';
 
 export interface ListPhaseInput {
     scrapeUrlId: string;
     url: string;
     firmId: string;
     firmName: string;
-    scraperConfig?: any;
+    firmSlug?: string; // Names the capture directory when scraperConfig.capture is on (falls back to firmId)
+    scraperConfig?: ScraperConfig; // Parsed by the caller - defaults apply when omitted
+    budgetUsd?: number | null; // LLM allowance for this phase (null = unlimited) - see budget-guard
+    dryRun?: boolean; // The LIST phase only reads the DB - accepted so the whole run shares one flag
 }
 
+/**
+ * Why a scan didn't cover the whole listing - allRolesInScan is incomplete, so roles
+ * missing from it can't be taken as closed
+ */
+export type ScanTruncation = 'max_pages' | 'max_roles' | 'max_jobs' | 'empty_page';
+
 export interface CollectedLink {
     url: string;
     title: string;
     action: RoleAction;
     existingRoleId?: string;
     urlChanged?: boolean;
+    ats?: AtsJobRef; // Set when the link came from an ATS adapter (DETAIL phase can skip the browser)
+    listing?: ListingMetadata; // What the listing showed for this role - context for DETAIL extraction
 }
 
 export interface ListPhaseResult {
@@ -43,11 +67,32 @@ export interface ListPhaseResult {
         totalTokensUsed: number;
         totalCostUsd: number;
         durationSeconds: number;
+        llmUsage?: UsageBreakdownEntry[]; // Per (task, model)
     };
+    stopReason?: ScrapeStopReason; // Scan stopped early - collectedLinks/allRolesInScan are partial
+    scanTruncatedBy?: ScanTruncation;
     error?: string;
     logs: string[];
 }
 
+/**
+ * Apply scraper_config.filters to a role title (case-insensitive substring match)
+ */
+function passesKeywordFilters(
+    title: string,
+    filters: { includeKeywords?: string[]; excludeKeywords?: string[] } = {}
+): boolean {
+    const lowerTitle = title.toLowerCase();
+    const includeKeywords = filters.includeKeywords ?? [];
+    const excludeKeywords = filters.excludeKeywords ?? [];
+
+    if (includeKeywords.length > 0 && !includeKeywords.some(keyword => lowerTitle.includes(keyword.toLowerCase()))) {
+        return false;
+    }
+
+    return !excludeKeywords.some(keyword => lowerTitle.includes(keyword.toLowerCase()));
+}
+
 async function smartScroll(page: Page, maxScrolls = 10, log: (msg: string) => void): Promise<void> {
     let previousHeight = 0;
     let scrollCount = 0;
@@ -86,83 +131,6 @@ async function waitForPageReady(page: Page, log: (msg: string) => void): Promise
     log('Ready for scraping');
 }
 
-async function clickPaginationNext(page: Page, log: (msg: string) => void): Promise<boolean> {
-    const paginationSelectors = [
-        '#pagination a.arrow.next',
-        '.pagination a.arrow.next',
-        '#pagination a.next',
-        '.pagination a.next',
-        '.pager a.next',
-        'a[aria-label="Next"]',
-        'a[aria-label="Next page"]',
-        '[rel="next"]',
-        'button[aria-label="Next"]',
-        'button[aria-label="Next page"]',
-        '.pagination button.next',
-        '#pagination button.next',
-        'button:has-text("Load More")',
-        'button:has-text("Show More")',
-        'a:has-text("Load More")',
-        'a:has-text("Show More")',
-    ];
-
-    for (const selector of paginationSelectors) {
-        try {
-            const element = await page.$(selector);
-            if (!element) continue;
-
-            const style = await element.getAttribute('style');
-            if (style?.includes('pointer-events:none')) continue;
-
-            const ariaDisabled = await element.getAttribute('aria-disabled');
-            if (ariaDisabled === 'true') continue;
-
-            const disabled = await element.getAttribute('disabled');
-            if (disabled !== null) continue;
-
-            const isVisible = await element.isVisible();
-            if (!isVisible) continue;
-
-            await element.click();
-            await page.waitForTimeout(2500);
-            log(`✓ Clicked pagination: ${selector}`);
-            return true;
-        } catch {
-            continue;
-        }
-    }
-
-    // Try numbered pagination
-    try {
-        const nextPageInfo = await page.evaluate(() => {
-            const activeLink = document.querySelector(
-                '#pagination .active, .pagination .active, #pagination [aria-current="page"], .pagination [aria-current="page"]'
-            );
-            if (!activeLink) return null;
-            const currentNum = parseInt(activeLink.textContent || '', 10);
-            if (isNaN(currentNum)) return null;
-            return { currentPage: currentNum, nextPage: currentNum + 1 };
-        });
-
-        if (nextPageInfo) {
-            const nextPageElement = await page.$(
-                `#pagination a:has-text("${nextPageInfo.nextPage}"), .pagination a:has-text("${nextPageInfo.nextPage}")`
-            );
-            if (nextPageElement) {
-                await nextPageElement.click();
-                await page.waitForTimeout(2500);
-                log(`✓ Clicked page ${nextPageInfo.nextPage}`);
-                return true;
-            }
-        }
-    } catch {
-        // continue
-    }
-
-    log('No more pagination found');
-    return false;
-}
-
 /**
  * Run the LIST phase - scan listing pages and collect role links
  */
@@ -176,12 +144,24 @@ export async function runListPhase(input: ListPhaseInput): Promise<ListPhaseResu
         logs.push(`[${timestamp}] ${msg}`);
     };
 
-    const scraperConfig = input.scraperConfig || {};
-    const maxPages = scraperConfig.maxPages ?? 10;
-    const maxScrolls = scraperConfig.maxScrolls ?? 5;
+    const scraperConfig = input.scraperConfig ?? DEFAULT_SCRAPER_CONFIG;
+    const { maxPages, maxScrolls, maxRoles, refresh } = scraperConfig;
+    const selectors = scraperConfig.selectors ?? {};
+    let capture: SnapshotCapture | null = null;
 
     try {
         log(`Starting LIST phase for: ${input.url}`);
+        if (input.dryRun) log('[LIST] 🧪 Dry run - nothing will be written');
+
+        if (scraperConfig.capture) {
+            capture = await openSnapshotCapture(
+                'list',
+                input.url,
+                { id: input.firmId, name: input.firmName, slug: input.firmSlug || input.firmId },
+                scraperConfig
+            );
+            if (capture) log(`[LIST] 📸 Capturing snapshot to ${capture.dir}`);
+        }
 
         // Load existing roles and dismissed drafts
         const existingRoles = await loadExistingRoles(input.firmId);
@@ -196,13 +176,157 @@ export async function runListPhase(input: ListPhaseInput): Promise<ListPhaseResu
         const allRolesInScan: Array<{ title: string; url: string }> = [];
         const collectedLinks: CollectedLink[] = [];
         const classificationTracker = new UsageTracker();
+        const budgetGuard = new LlmBudgetGuard(input.budgetUsd ?? null);
+        budgetGuard.track(classificationTracker);
+        let stopReason: ScrapeStopReason | undefined;
+        let scanTruncatedBy: ScanTruncation | undefined;
+        let refreshesQueued = 0;
+
+        // Classify job links against existing roles and collect the non-skip ones
+        const collectJobLinks = (jobLinks: Array<{ url: string; title: string; ats?: AtsJobRef; listing?: ListingMetadata }>) => {
+            // Store for pattern analysis
+            jobLinks.forEach(link => {
+                allRolesInScan.push({ title: link.title, url: link.url });
+            });
+
+            // Apply include/exclude keyword filters before classification
+            const filteredLinks = jobLinks.filter(link => passesKeywordFilters(link.title, scraperConfig.filters));
+            if (filteredLinks.length < jobLinks.length) {
+                log(`[LIST] Filtered out ${jobLinks.length - filteredLinks.length} roles by keyword filters`);
+            }
+
+            // Classify each link action
+            const classifiedLinks: CollectedLink[] = filteredLinks.map(jobLink => {
+                const result = classifyRoleAction(
+                    jobLink.url,
+                    jobLink.title,
+                    existingRoles.byUrl,
+                    existingRoles.byName,
+                    dismissedDrafts.byUrl,
+                    dismissedDrafts.byName
+                );
+                rolesFound++;
+
+                // Refresh mode: re-queue tracked open roles that are due so the DETAIL phase can diff them
+                let action = result.action;
+                if (refresh && action === 'SKIP' && result.existingRoleId && refreshesQueued < refresh.maxRolesPerRun) {
+                    const existing = existingRoles.byUrl.get(normalizeUrl(jobLink.url));
+                    if (existing?.id === result.existingRoleId && isRefreshDue(existing.last_refreshed_at, refresh.intervalHours)) {
+                        action = 'UPDATED';
+                        refreshesQueued++;
+                    }
+                }
+
+                log(`[LIST]   - "${jobLink.title.substring(0, 50)}..." → ${action}`);
+                return {
+                    url: jobLink.url,
+                    title: jobLink.title,
+                    action,
+                    existingRoleId: result.existingRoleId,
+                    urlChanged: result.urlChanged,
+                    ats: jobLink.ats,
+                    listing: jobLink.listing,
+                };
+            });
+
+            // Collect non-skip links
+            const toCollect = classifiedLinks.filter(l => l.action !== 'SKIP');
+            rolesSkipped += classifiedLinks.filter(l => l.action === 'SKIP').length;
+
+            for (const link of toCollect) {
+                // Keep scanning past maxRoles so rolesFound stays accurate - a capped scan is still treated as truncated
+                if (maxRoles !== null && collectedLinks.length >= maxRoles) {
+                    log(`[LIST] Reached maxRoles (${maxRoles}) - not collecting further roles`);
+                    scanTruncatedBy ??= 'max_roles';
+                    break;
+                }
+                const normalized = normalizeUrl(link.url);
+                if (seenUrls.has(normalized)) continue;
+                seenUrls.add(normalized);
+                collectedLinks.push(link);
+            }
+
+            log(`[LIST] Collected ${toCollect.length} new roles (${collectedLinks.length} total)`);
+        };
+
+        const buildResult = (): ListPhaseResult => {
+            const cost = classificationTracker.getCost();
+            const durationSeconds = (Date.now() - startTime) / 1000;
+
+            log(`✅ LIST phase complete: ${collectedLinks.length} roles to extract in ${durationSeconds.toFixed(2)}s`);
+            log(`Cost: $${cost.totalCost.toFixed(4)} (${cost.totalTokens.toLocaleString()} tokens)`);
+            capture?.setCollectedLinks(collectedLinks);
+
+            return {
+                success: true,
+                collectedLinks,
+                allRolesInScan,
+                metrics: {
+                    pagesProcessed,
+                    rolesFound,
+                    rolesSkipped,
+                    totalTokensUsed: cost.totalTokens,
+                    totalCostUsd: cost.totalCost,
+                    durationSeconds,
+                    llmUsage: classificationTracker.getBreakdown(),
+                },
+                stopReason,
+                scanTruncatedBy,
+                logs,
+            };
+        };
+
+        // ATS boards expose structured JSON - no browser or LLM classification needed
+        const atsAdapter = resolveAtsAdapter(input.url, scraperConfig.ats);
+        if (atsAdapter) {
+            log(`[LIST] Detected ATS: ${atsAdapter.provider}`);
+            try {
+                const jobs = await withSnapshotCapture(capture, () => atsAdapter.listJobs(input.url));
+                pagesProcessed = 1;
+                log(`[LIST] ✓ ${atsAdapter.provider} API returned ${jobs.length} jobs`);
+
+                // Adapters stop paging at the cap - a board that big may have more postings than we saw
+                if (jobs.length >= MAX_ATS_JOBS) {
+                    log(`[LIST] ⚠️ Hit the ${MAX_ATS_JOBS}-job ATS cap - the board may have more postings`);
+                    scanTruncatedBy ??= 'max_jobs';
+                }
+
+                collectJobLinks(jobs.map(job => ({
+                    url: job.url,
+                    title: job.title,
+                    ats: job.detailApiUrl && atsAdapter.fetchJobDetail
+                        ? { provider: atsAdapter.provider, detailApiUrl: job.detailApiUrl }
+                        : undefined,
+                    listing: listingMetadataFromAtsJob(job),
+                })));
+
+                return buildResult();
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                log(`[LIST] ⚠️ ${atsAdapter.provider} API failed (${errorMessage}) - falling back to browser`);
+            }
+        }
 
         const crawleeConfig = new Configuration({ persistStorage: false });
         const router = createPlaywrightRouter();
+        const jsonHarvester = new JsonHarvester(scraperConfig.jsonJobs);
 
         router.addDefaultHandler(async ({ page }) => {
-            const pageUrl = page.url();
-            log(`[LIST] Processing: ${pageUrl}`);
+            log(`[LIST] Processing: ${page.url()}`);
+
+            // Resolved once the first page has rendered - auto-detection needs its controls
+            let paginator: Paginator | null = null;
+            let reachedLastPage = false;
+            const advancePage = async (): Promise<boolean> => {
+                paginator ??= await resolvePaginator(page, scraperConfig.pagination, log);
+                const advanced = await paginator.next(page, log);
+                if (!advanced) reachedLastPage = true;
+                return advanced;
+            };
+
+            // Load-more / infinite-scroll pages keep earlier results - only classify links not seen before
+            const classifiedUrls = new Set<string>();
+            let previousPageSignature: string | null = null;
 
             while (pagesProcessed < maxPages) {
                 pagesProcessed++;
@@ -211,67 +335,159 @@ export async function runListPhase(input: ListPhaseInput): Promise<ListPhaseResu
                 await waitForPageReady(page, log);
                 await smartScroll(page, maxScrolls, log);
 
+                // URL-template pagination navigates, so the page URL moves with it
+                const pageUrl = page.url();
+                const capturedPage = capture ? await capture.savePage(pageUrl, await page.content()) : 0;
+
+                // Jobs loaded via XHR/fetch JSON - a configured jsonJobs is trusted, no LLM needed
+                const harvestedJobs = await jsonHarvester.drain(pageUrl);
+                const harvestSources = new Set(harvestedJobs.map(job => job.sourceUrl));
+                if (scraperConfig.jsonJobs && harvestedJobs.length > 0) {
+                    log(`[LIST] ✓ Harvested ${harvestedJobs.length} jobs from ${harvestSources.size} JSON response(s)`);
+                    collectJobLinks(harvestedJobs);
+
+                    const hasMorePages = await advancePage();
+                    if (!hasMorePages) break;
+                    continue;
+                }
+
                 const html = await page.content();
-                const linksWithContext = extractLinksWithContext(html, pageUrl);
+                const linksWithContext = extractLinksWithContext(html, pageUrl, selectors);
                 log(`[LIST] Found ${linksWithContext.length} total links`);
+                if (capture) await capture.saveLinks(capturedPage, linksWithContext);
+
+                // Heuristically harvested JSON jobs are only candidates - classified alongside the DOM links
+                const domUrls = new Set(linksWithContext.map(link => normalizeUrl(link.url)));
+                const harvestedLinks = harvestedJobs
+                    .filter(job => !domUrls.has(normalizeUrl(job.url)))
+                    .map(harvestedJobLink);
+                if (harvestedJobs.length > 0) {
+                    log(`[LIST] Harvested ${harvestedJobs.length} candidate jobs from ${harvestSources.size} JSON response(s) (${harvestedLinks.length} not in the DOM)`);
+                }
+                const pageLinks = [...linksWithContext, ...harvestedLinks];
+
+                // An empty first page is a rendering failure; past page 1 it's the end of the listing
+                if (pageLinks.length === 0) {
+                    if (pagesProcessed === 1) {
+                        log('[LIST] ⚠️ No links found - possible rendering issue');
+                        scanTruncatedBy ??= 'empty_page';
+                    } else {
+                        log('[LIST] No links found - treating the previous page as the last');
+                        reachedLastPage = true;
+                    }
+                    break;
+                }
 
-                if (linksWithContext.length === 0) {
-                    log('[LIST] ⚠️ No links found - possible rendering issue');
+                // Pagination that didn't move (past the last page, a next button that re-renders the same results)
+                const pageSignature = pageLinks.map(link => normalizeUrl(link.url)).sort().join('\n');
+                if (pageSignature === previousPageSignature) {
+                    log('[LIST] Page has the same links as the previous page - reached the last page');
+                    reachedLastPage = true;
                     break;
                 }
+                previousPageSignature = pageSignature;
+
+                // Classifiers only return url + title - look the card back up to carry its metadata to DETAIL
+                const linksByUrl = new Map<string, LinkWithContext>(linksWithContext.map(link => [normalizeUrl(link.url), link]));
+                const withListing = <T extends { url: string }>(jobLinks: T[]) => jobLinks.map(jobLink => {
+                    const link = linksByUrl.get(normalizeUrl(jobLink.url));
+                    return { ...jobLink, listing: link ? listingMetadataFromLink(link) : undefined };
+                });
+
+                // Configured jobLinks selector already identifies the jobs - skip LLM classification
+                if (selectors.jobLinks) {
+                    log(`[LIST] ✓ Selector "${selectors.jobLinks}" matched ${linksWithContext.length} job links`);
+                    collectJobLinks(linksWithContext.map(link => ({
+                        url: link.url,
+                        title: link.text || link.ariaLabel || link.headings[0] || '',
+                        listing: listingMetadataFromLink(link),
+                    })));
+
+                    const hasMorePages = await advancePage();
+                    if (!hasMorePages) break;
+                    continue;
+                }
 
                 // Classify links with LLM
-                const classification = await classifyJobLinks(linksWithContext);
-                classificationTracker.add(classification.usage);
-                log(`[LIST] ✓ LLM identified ${classification.jobLinks.length} job links`);
+                if (budgetGuard.isExceeded()) {
+                    stopReason = 'budget_exceeded';
+                    log(`[LIST] 🛑 LLM budget exceeded (${budgetGuard.describe()}) - stopping scan`);
+                    break;
+                }
 
-                // Store for pattern analysis
-                classification.jobLinks.forEach(link => {
-                    allRolesInScan.push({ title: link.title, url: link.url });
-                });
+                // Drop nav/legal/pagination links before they cost prompt tokens
+                const newLinks = pageLinks.filter(link => !classifiedUrls.has(normalizeUrl(link.url)));
+                newLinks.forEach(link => classifiedUrls.add(normalizeUrl(link.url)));
+                if (newLinks.length < pageLinks.length) {
+                    log(`[LIST] ${pageLinks.length - newLinks.length} links already seen on earlier pages (${newLinks.length} new)`);
+                }
 
-                // Classify each link action
-                const classifiedLinks = classification.jobLinks.map(jobLink => {
-                    const result = classifyRoleAction(
-                        jobLink.url,
-                        jobLink.title,
-                        existingRoles.byUrl,
-                        existingRoles.byName,
-                        dismissedDrafts.byUrl,
-                        dismissedDrafts.byName
-                    );
-                    rolesFound++;
-                    log(`[LIST]   - "${jobLink.title.substring(0, 50)}..." → ${result.action}`);
-                    return {
-                        url: jobLink.url,
-                        title: jobLink.title,
-                        action: result.action,
-                        existingRoleId: result.existingRoleId,
-                        urlChanged: result.urlChanged,
-                    };
-                });
+                const { candidates, dropped } = prefilterJobLinks(newLinks, pageUrl);
+                if (dropped.length > 0) {
+                    log(`[LIST] Pre-filter dropped ${dropped.length} obvious non-job links (${candidates.length} left)`);
+                }
 
-                // Collect non-skip links
-                const toCollect = classifiedLinks.filter(l => l.action !== 'SKIP');
-                rolesSkipped += classifiedLinks.filter(l => l.action === 'SKIP').length;
+                // Heuristic scoring: confident links skip the LLM, unlikely ones are dropped
+                let toClassify = candidates;
+                let acceptedLinks: Array<{ url: string; title: string }> = [];
+                if (scraperConfig.linkScoring) {
+                    const triage = triageJobLinks(candidates, scraperConfig.linkScoring);
+                    acceptedLinks = triage.accepted;
+                    toClassify = triage.ambiguous;
+                    log(`[LIST] Link scoring: ${triage.accepted.length} accepted, ${triage.ambiguous.length} ambiguous, ${triage.rejected.length} rejected`);
+                }
+
+                const chunkCount = Math.ceil(toClassify.length / LINK_CLASSIFICATION_CHUNK_SIZE);
+                if (chunkCount > 1) {
+                    log(`[LIST] 🤖 Classifying ${toClassify.length} links in ${chunkCount} chunks`);
+                }
 
-                for (const link of toCollect) {
-                    const normalized = normalizeUrl(link.url);
-                    if (seenUrls.has(normalized)) continue;
-                    seenUrls.add(normalized);
-                    collectedLinks.push(link);
+                // Budget is checked before every chunk - usage lands on classificationTracker as each one finishes
+                const classification = await withSnapshotCapture(capture, () =>
+                    classifyJobLinks(toClassify, scraperConfig.classificationModel, {
+                        budgetGuard,
+                        usageTracker: classificationTracker,
+                    })
+                );
+                if (toClassify.length > 0) {
+                    log(`[LIST] ✓ LLM identified ${classification.jobLinks.length} job links`);
                 }
 
-                log(`[LIST] Collected ${toCollect.length} new roles (${collectedLinks.length} total)`);
+                const pageJobLinks = [...acceptedLinks, ...classification.jobLinks];
+                collectJobLinks(withListing(pageJobLinks));
 
-                const hasMorePages = await clickPaginationNext(page, log);
+                if (classification.chunksSkipped > 0) {
+                    stopReason = 'budget_exceeded';
+                    log(`[LIST] 🛑 LLM budget exceeded (${budgetGuard.describe()}) - skipped ${classification.chunksSkipped} chunks, stopping scan`);
+                    break;
+                }
+
+                // URL-template pages past the end still render the site chrome - no new jobs means no more pages
+                if (pageJobLinks.length === 0 && pagesProcessed > 1) {
+                    log('[LIST] No new job links on this page - treating the previous page as the last');
+                    reachedLastPage = true;
+                    break;
+                }
+
+                const hasMorePages = await advancePage();
                 if (!hasMorePages) break;
             }
+
+            if (pagesProcessed >= maxPages && !reachedLastPage && !stopReason) {
+                log(`[LIST] Reached maxPages (${maxPages}) with more pages left`);
+                scanTruncatedBy ??= 'max_pages';
+            }
         });
 
         const crawler = new PlaywrightCrawler(
             {
                 requestHandler: router,
+                // Listen before navigation so the initial listing XHR is captured
+                preNavigationHooks: [
+                    async ({ page }) => jsonHarvester.attach(page),
+                    async ({ page }) => capture?.attach(page),
+                    async ({ page }) => applyPageInterceptor(page),
+                ],
                 headless: true,
                 maxConcurrency: 1,
                 navigationTimeoutSecs: 60,
@@ -297,26 +513,7 @@ export async function runListPhase(input: ListPhaseInput): Promise<ListPhaseResu
 
         await crawler.run([{ url: input.url, label: 'LIST' }]);
 
-        const cost = classificationTracker.getCost('gpt-4o-mini');
-        const durationSeconds = (Date.now() - startTime) / 1000;
-
-        log(`✅ LIST phase complete: ${collectedLinks.length} roles to extract in ${durationSeconds.toFixed(2)}s`);
-        log(`Cost: $${cost.totalCost.toFixed(4)} (${cost.totalTokens.toLocaleString()} tokens)`);
-
-        return {
-            success: true,
-            collectedLinks,
-            allRolesInScan,
-            metrics: {
-                pagesProcessed,
-                rolesFound,
-                rolesSkipped,
-                totalTokensUsed: cost.totalTokens,
-                totalCostUsd: cost.totalCost,
-                durationSeconds,
-            },
-            logs,
-        };
+        return buildResult();
     } catch (error) {
         const errorMessage = error instanceof Error ? error.message : String(error);
         log(`✗ LIST phase failed: ${errorMessage}`);
@@ -335,5 +532,7 @@ export async function runListPhase(input: ListPhaseInput): Promise<ListPhaseResu
             error: errorMessage,
             logs,
         };
+    } finally {
+        await capture?.close();
     }
 }
\ No newline at end of file
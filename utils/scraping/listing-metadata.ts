@@ -0,0 +1,96 @@
+/**
+ * Listing Metadata
+ *
+ * Builds the ListingMetadata a role carries from the LIST phase to the
+ * DETAIL phase - from the job card's fields (see extractLinksWithContext)
+ * or from an ATS listing - and applies it to extraction: it's shown to the
+ * extraction LLM as corroborating context, and fills location / program_type
+ * when the detail page doesn't state them.
+ */
+
+import type { LinkWithContext, ListingMetadata, ScrapedRole } from '@/packages/schemas/careers-scraping';
+import type { AtsJob } from './ats/types';
+
+// First match wins - more specific programmes before the generic ones
+const PROGRAM_TYPE_PATTERNS: Array<[NonNullable<ScrapedRole['program_type']>, RegExp]> = [
+    ['spring_week', /\bspring (week|insight|intern(ship)?s?|programme|program)\b|\binsight (week|day|programme|program)\b/i],
+    ['off_cycle_internship', /\boff[- ]cycle\b/i],
+    ['apprenticeship', /\bapprentice(ship)?s?\b/i],
+    ['summer_internship', /\bsummer (analyst|associate|intern(ship)?s?|programme|program)\b|\binternships?\b/i],
+    ['graduate', /\bgraduate (analyst|associate|programme|program|scheme)\b|\bgrad scheme\b|\bnew grad\b/i],
+];
+
+/**
+ * Programme type named by listing wording, or null when it doesn't say
+ */
+export function inferProgramType(text: string): ScrapedRole['program_type'] {
+    for (const [programType, pattern] of PROGRAM_TYPE_PATTERNS) {
+        if (pattern.test(text)) return programType;
+    }
+    return null;
+}
+
+function hasAnyValue(metadata: ListingMetadata): boolean {
+    return Object.values(metadata).some(value => value !== null);
+}
+
+/**
+ * Metadata from a listing card, or undefined when the card shows nothing useful.
+ * Page-level containers (structure.cardRepeatCount 0) aren't cards, so their text is ignored.
+ */
+export function listingMetadataFromLink(link: LinkWithContext): ListingMetadata | undefined {
+    const isCard = link.structure?.cardRepeatCount !== 0;
+    const cardText = isCard && link.cardText ? link.cardText : null;
+
+    const metadata: ListingMetadata = {
+        location: link.location ?? null,
+        deadline: link.deadline ?? null,
+        department: link.department ?? null,
+        programType: inferProgramType([link.text, ...(isCard ? link.headings : []), cardText ?? ''].join(' ')),
+        cardText,
+    };
+
+    return hasAnyValue(metadata) ? metadata : undefined;
+}
+
+/**
+ * Metadata from an ATS listing entry
+ */
+export function listingMetadataFromAtsJob(job: AtsJob): ListingMetadata | undefined {
+    const metadata: ListingMetadata = {
+        location: job.location,
+        deadline: null,
+        department: job.department,
+        programType: inferProgramType(job.title),
+        cardText: null,
+    };
+
+    return hasAnyValue(metadata) ? metadata : undefined;
+}
+
+/**
+ * Prompt section describing the listing card for extraction
+ */
+export function formatListingContext(listing: ListingMetadata): string {
+    const lines = [
+        listing.location && `Location: ${listing.location}`,
+        listing.deadline && `Deadline: ${listing.deadline}`,
+        listing.department && `Department: ${listing.department}`,
+        listing.programType && `Programme type: ${listing.programType}`,
+        listing.cardText && `Card text: ${listing.cardText}`,
+    ].filter(Boolean);
+
+    return lines.join('\n');
+}
+
+/**
+ * Fill fields the extraction left empty from the listing - the detail page wins wherever it has a value.
+ * Only fields that don't need interpretation: the card's deadline text is left to the LLM to parse.
+ */
+export function fillFromListing(role: ScrapedRole, listing: ListingMetadata): ScrapedRole {
+    return {
+        ...role,
+        location: role.location ?? listing.location,
+        program_type: role.program_type ?? listing.programType,
+    };
+}
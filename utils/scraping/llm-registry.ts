@@ -0,0 +1,278 @@
+/**
+ * LLM Model Registry
+ *
+ * Single place that decides which provider + model handles each LLM task,
+ * and runs structured generation against it. Call sites ask for a task
+ * ('role-extraction', ...) instead of building their own OpenAI client.
+ *
+ * Resolution order for each task:
+ * 1. Per-scrape override (scraper_config.extractionModel etc.)
+ * 2. Env: LLM_<TASK>_MODEL, e.g. LLM_ROLE_EXTRACTION_MODEL="anthropic:claude-sonnet-4-5"
+ * 3. Default: openai:gpt-4o-mini
+ *
+ * Fallback: if the primary call errors, the secondary model is tried once.
+ * Env LLM_<TASK>_FALLBACK_MODEL overrides it ("none" disables); by default
+ * it's the other provider's default model, used only when its API key is set.
+ *
+ * Model specs are "provider:model", or a bare model ID whose provider is
+ * inferred (gpt-*, o1-*, ... → openai, claude-* → anthropic).
+ *
+ * setStructuredGenerator() swaps the provider calls for a stand-in (the
+ * offline replay harness uses a fixture-driven mock).
+ *
+ * Every attempt (including failed ones) is recorded on the active snapshot
+ * capture, if any - see snapshot-capture.
+ */
+
+import { generateObject, asSchema, type Schema } from 'ai';
+import { createOpenAI } from '@ai-sdk/openai';
+import Anthropic from '@anthropic-ai/sdk';
+import type { z } from 'zod';
+import { normalizeUsage, type TokenUsage } from './cost-calculator';
+import { recordCapturedLlmCall } from './snapshot-capture';
+
+export type LlmTask = 'link-classification' | 'role-extraction' | 'programme-suggestion';
+export type LlmProvider = 'openai' | 'anthropic';
+
+export interface ModelRef {
+    provider: LlmProvider;
+    model: string;
+}
+
+/**
+ * Provider-reported token usage, mapped to the AI SDK's field names
+ */
+export interface RawUsage {
+    inputTokens?: number;
+    outputTokens?: number;
+    totalTokens?: number;
+    cachedInputTokens?: number;
+    reasoningTokens?: number;
+}
+
+const DEFAULT_MODELS: Record<LlmProvider, string> = {
+    openai: 'gpt-4o-mini',
+    anthropic: 'claude-haiku-4-5',
+};
+
+const DEFAULT_PROVIDER: LlmProvider = 'openai';
+
+const API_KEY_ENV: Record<LlmProvider, string> = {
+    openai: 'OPENAI_API_KEY',
+    anthropic: 'ANTHROPIC_API_KEY',
+};
+
+// Prompt share used to split a bare total when a provider omits the breakdown
+const ESTIMATED_PROMPT_SHARE: Record<LlmTask, number> = {
+    'link-classification': 0.7, // Classification returns short link lists
+    'role-extraction': 0.8,
+    'programme-suggestion': 0.8,
+};
+
+const ANTHROPIC_MAX_TOKENS = 8192;
+const ANTHROPIC_TOOL_NAME = 'record_result';
+
+/**
+ * Parse a model spec ("anthropic:claude-haiku-4-5" or "gpt-4o-mini")
+ */
+export function parseModelSpec(spec: string): ModelRef {
+    const trimmed = spec.trim();
+    const separator = trimmed.indexOf(':');
+
+    if (separator > 0) {
+        const provider = trimmed.slice(0, separator);
+        const model = trimmed.slice(separator + 1);
+        if (provider !== 'openai' && provider !== 'anthropic') {
+            throw new Error(`Unknown LLM provider "${provider}" in model spec "${spec}"`);
+        }
+        return { provider, model };
+    }
+
+    return {
+        provider: trimmed.startsWith('claude') ? 'anthropic' : 'openai',
+        model: trimmed,
+    };
+}
+
+export function formatModelRef(ref: ModelRef): string {
+    return `${ref.provider}:${ref.model}`;
+}
+
+function envKey(task: LlmTask, suffix: string): string {
+    return `LLM_${task.toUpperCase().replace(/-/g, '_')}_${suffix}`;
+}
+
+/**
+ * Resolve the primary and (optional) fallback model for a task
+ */
+export function resolveModelChain(task: LlmTask, override?: string | null): ModelRef[] {
+    const primary = parseModelSpec(override || process.env[envKey(task, 'MODEL')] || DEFAULT_MODELS[DEFAULT_PROVIDER]);
+
+    const fallbackSpec = process.env[envKey(task, 'FALLBACK_MODEL')];
+    if (fallbackSpec === 'none') {
+        return [primary];
+    }
+
+    if (fallbackSpec) {
+        return [primary, parseModelSpec(fallbackSpec)];
+    }
+
+    // Default fallback: the other provider, only if it's configured
+    const secondary: LlmProvider = primary.provider === 'openai' ? 'anthropic' : 'openai';
+    return process.env[API_KEY_ENV[secondary]]
+        ? [primary, { provider: secondary, model: DEFAULT_MODELS[secondary] }]
+        : [primary];
+}
+
+/**
+ * Wrap the zod schema once for the AI SDK - passing z.ZodType<T> straight through
+ * trips TS2589 (excessively deep instantiation) on the generic overloads
+ */
+function toOutputSchema<T>(schema: z.ZodType<T>): Schema<T> {
+    return asSchema(schema as any) as Schema<T>;
+}
+
+async function generateWithOpenAI<T>(ref: ModelRef, options: StructuredGenerationOptions<T>): Promise<{ object: T; usage: RawUsage }> {
+    const openaiProvider = process.env.OPENAI_API_KEY
+        ? createOpenAI({ apiKey: process.env.OPENAI_API_KEY })
+        : createOpenAI();
+
+    const { object, usage } = await generateObject({
+        model: openaiProvider(ref.model),
+        schema: toOutputSchema(options.schema),
+        schemaName: options.schemaName,
+        schemaDescription: options.schemaDescription,
+        system: options.system,
+        prompt: options.prompt,
+        maxRetries: options.maxRetries,
+    });
+
+    return { object: object as T, usage: usage as RawUsage };
+}
+
+/**
+ * Anthropic has no JSON mode - force a single tool call whose input schema is the output schema
+ */
+async function generateWithAnthropic<T>(ref: ModelRef, options: StructuredGenerationOptions<T>): Promise<{ object: T; usage: RawUsage }> {
+    const client = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
+    const inputSchema = await toOutputSchema(options.schema).jsonSchema;
+
+    const response = await client.messages.create({
+        model: ref.model,
+        max_tokens: ANTHROPIC_MAX_TOKENS,
+        system: options.system,
+        messages: [{ role: 'user', content: options.prompt }],
+        tools: [{
+            name: ANTHROPIC_TOOL_NAME,
+            description: options.schemaDescription || `Record the ${options.schemaName || 'result'}`,
+            input_schema: inputSchema as Anthropic.Tool.InputSchema,
+        }],
+        tool_choice: { type: 'tool', name: ANTHROPIC_TOOL_NAME },
+    }, { maxRetries: options.maxRetries });
+
+    const toolUse = response.content.find(block => block.type === 'tool_use');
+    if (!toolUse || toolUse.type !== 'tool_use') {
+        throw new Error(`Anthropic ${ref.model} returned no structured output (stop_reason: ${response.stop_reason})`);
+    }
+
+    const cachedInputTokens = response.usage.cache_read_input_tokens ?? 0;
+    const inputTokens = response.usage.input_tokens + cachedInputTokens;
+    return {
+        object: options.schema.parse(toolUse.input),
+        usage: {
+            inputTokens,
+            outputTokens: response.usage.output_tokens,
+            totalTokens: inputTokens + response.usage.output_tokens,
+            cachedInputTokens,
+        },
+    };
+}
+
+/**
+ * Replacement for the provider calls - receives the resolved model and must return a schema-valid object
+ */
+export type StructuredGenerator = (
+    ref: ModelRef,
+    options: StructuredGenerationOptions<unknown>
+) => Promise<{ object: unknown; usage: RawUsage }>;
+
+let generatorOverride: StructuredGenerator | null = null;
+
+/**
+ * Route every generateStructured call through a stand-in (null restores the real providers)
+ */
+export function setStructuredGenerator(generator: StructuredGenerator | null): void {
+    generatorOverride = generator;
+}
+
+export interface StructuredGenerationOptions<T> {
+    task: LlmTask;
+    schema: z.ZodType<T>;
+    schemaName?: string;
+    schemaDescription?: string;
+    system: string;
+    prompt: string;
+    model?: string | null; // Per-call override (model spec)
+    maxRetries?: number;
+}
+
+/**
+ * Generate a schema-validated object for a task, falling back to the secondary model on error
+ *
+ * @example
+ * const { object, usage, model } = await generateStructured({
+ *     task: 'role-extraction',
+ *     schema: ScrapedRoleSchema,
+ *     system: '...',
+ *     prompt: '...',
+ * });
+ * // model => { provider: 'openai', model: 'gpt-4o-mini' }
+ */
+export async function generateStructured<T>(options: StructuredGenerationOptions<T>): Promise<{
+    object: T;
+    usage: TokenUsage; // Tagged with the task and the model that served the call
+    model: ModelRef;
+}> {
+    const chain = resolveModelChain(options.task, options.model);
+    let lastError: unknown;
+
+    for (const [index, ref] of chain.entries()) {
+        try {
+            const result = generatorOverride
+                ? await generatorOverride(ref, options) as { object: T; usage: RawUsage }
+                : ref.provider === 'anthropic'
+                    ? await generateWithAnthropic(ref, options)
+                    : await generateWithOpenAI(ref, options);
+            const usage = normalizeUsage(result.usage, {
+                model: formatModelRef(ref),
+                task: options.task,
+                promptShare: ESTIMATED_PROMPT_SHARE[options.task],
+            });
+            recordCapturedLlmCall({
+                task: options.task,
+                model: formatModelRef(ref),
+                system: options.system,
+                prompt: options.prompt,
+                response: result.object,
+                usage,
+            });
+            return { object: result.object, usage, model: ref };
+        } catch (error) {
+            lastError = error;
+            recordCapturedLlmCall({
+                task: options.task,
+                model: formatModelRef(ref),
+                system: options.system,
+                prompt: options.prompt,
+                error: error instanceof Error ? error.message : String(error),
+            });
+            const next = chain[index + 1];
+            console.error(
+                `[llm] ${options.task} failed on ${formatModelRef(ref)}${next ? ` - falling back to ${formatModelRef(next)}` : ''}:`,
+                error instanceof Error ? error.message : error
+            );
+        }
+    }
+
+    throw lastError;
+}
@@ -0,0 +1,73 @@
+/**
+ * Scrape Metrics Aggregator
+ *
+ * Folds the LIST phase result and every DETAIL phase result from a
+ * discovery-flow run into a single ScrapeMetrics record for scrape_urls.
+ */
+
+import type { ScrapeMetrics } from '@/packages/schemas/careers-scraping';
+import type { ListPhaseResult } from './list-phase';
+import type { DetailPhaseResult } from './detail-phase';
+import { mergeUsageBreakdowns } from './cost-calculator';
+
+/**
+ * Build a full ScrapeMetrics record for a discovery run
+ *
+ * - Role counts come from the LIST phase classification (roles_updated from the refresh diffs)
+ * - Tokens and cost are LIST (classification) + every DETAIL (extraction + suggestion)
+ * - llm_usage breaks tokens and cost down per (task, model), each priced at its own rates;
+ *   unpriced_models lists models with no pricing entry (excluded from total_cost_usd)
+ * - cache_hits counts DETAIL extractions served from the content-hash cache
+ * - success_rate is the share of DETAIL extractions that succeeded (1 when nothing was extracted);
+ *   roles skipped by the LLM budget guard aren't failures and don't count
+ * - stop_reason is 'budget_exceeded' if either phase stopped on the budget
+ */
+export function aggregateScrapeMetrics(data: {
+    listResult: ListPhaseResult;
+    detailResults: DetailPhaseResult[];
+    rolesClosed?: number;
+    durationSeconds: number;
+}): ScrapeMetrics {
+    const { listResult, detailResults } = data;
+    const links = listResult.collectedLinks;
+
+    const detailTokens = detailResults.reduce((sum, r) => sum + r.metrics.totalTokensUsed, 0);
+    const detailCost = detailResults.reduce((sum, r) => sum + r.metrics.totalCostUsd, 0);
+    const attempted = detailResults.filter(r => r.stopReason !== 'budget_exceeded');
+    const succeeded = attempted.filter(r => r.success).length;
+    const budgetExceeded = listResult.stopReason === 'budget_exceeded'
+        || detailResults.some(r => r.stopReason === 'budget_exceeded');
+    const llmUsage = mergeUsageBreakdowns(
+        listResult.metrics.llmUsage ?? [],
+        ...detailResults.map(r => r.metrics.llmUsage ?? [])
+    );
+
+    return {
+        roles_found: listResult.metrics.rolesFound,
+        roles_skipped: listResult.metrics.rolesSkipped,
+        roles_new: links.filter(l => l.action === 'NEW_ROLE').length,
+        roles_url_changed: links.filter(l => l.action === 'URL_CHANGED').length,
+        roles_reopened: links.filter(l => l.action === 'REOPENING').length,
+        roles_closed: data.rolesClosed ?? 0,
+        roles_refreshed: links.filter(l => l.action === 'UPDATED').length,
+        roles_updated: detailResults.filter(r => (r.changedFields?.length ?? 0) > 0).length,
+        total_tokens_used: listResult.metrics.totalTokensUsed + detailTokens,
+        total_cost_usd: listResult.metrics.totalCostUsd + detailCost,
+        duration_seconds: data.durationSeconds,
+        cache_hits: detailResults.reduce((sum, r) => sum + (r.metrics.cacheHits ?? 0), 0),
+        success_rate: attempted.length > 0 ? succeeded / attempted.length : 1,
+        ...(budgetExceeded ? { stop_reason: 'budget_exceeded' as const } : {}),
+        unpriced_models: llmUsage.filter(entry => entry.costUsd === null).map(entry => entry.model),
+        llm_usage: llmUsage.map(entry => ({
+            task: entry.task,
+            model: entry.model,
+            calls: entry.calls,
+            prompt_tokens: entry.promptTokens,
+            completion_tokens: entry.completionTokens,
+            cached_input_tokens: entry.cachedInputTokens,
+            reasoning_tokens: entry.reasoningTokens,
+            total_tokens: entry.totalTokens,
+            cost_usd: entry.costUsd,
+        })),
+    };
+}
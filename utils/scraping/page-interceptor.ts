@@ -0,0 +1,29 @@
+/**
+ * Page Interceptor
+ *
+ * Optional hook both crawler phases run on every page before navigation.
+ * Unset in production; the offline replay harness installs one that serves
+ * recorded HTML/JSON via page.route() so no request leaves the machine.
+ */
+
+import type { Page } from 'playwright';
+
+export type PageInterceptor = (page: Page) => Promise<void>;
+
+let interceptor: PageInterceptor | null = null;
+
+/**
+ * Install (or with null, remove) the interceptor
+ */
+export function setPageInterceptor(next: PageInterceptor | null): void {
+    interceptor = next;
+}
+
+/**
+ * Run the interceptor, if any - call from crawlee preNavigationHooks
+ */
+export async function applyPageInterceptor(page: Page): Promise<void> {
+    if (interceptor) {
+        await interceptor(page);
+    }
+}
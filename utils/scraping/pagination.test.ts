@@ -0,0 +1,95 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Page } from 'playwright';
+import { detectUrlTemplate, resolvePaginator } from './pagination';
+
+const noop = () => {};
+
+/**
+ * Just enough of a Playwright page for detection: link hrefs, which selectors
+ * are visible, and the scroll heights evaluate() reports in turn
+ */
+function fakePage(options: { url: string; hrefs?: string[]; visible?: string[]; scrollHeights?: number[] }) {
+    const gotos: string[] = [];
+    const heights = [...(options.scrollHeights ?? [1000])];
+    const page = {
+        url: () => options.url,
+        $$eval: async () => options.hrefs ?? [],
+        $: async (selector: string) => options.visible?.includes(selector)
+            ? { getAttribute: async () => null, isVisible: async () => true, click: async () => {} }
+            : null,
+        evaluate: async (fn: () => unknown) => String(fn).includes('scrollTo')
+            ? undefined
+            : (heights.length > 1 ? heights.shift() : heights[0]),
+        waitForTimeout: async () => {},
+        goto: async (url: string) => {
+            gotos.push(url);
+            return { status: () => 200 };
+        },
+    };
+    return { page: page as unknown as Page, gotos };
+}
+
+test('detects page-number query templates', () => {
+    assert.deepEqual(
+        detectUrlTemplate('https://acme.com/jobs?page=2', ['/jobs?page=1', '/jobs?page=3', '/jobs?page=10']),
+        { template: 'https://acme.com/jobs?page={page}', current: 2, step: 1 }
+    );
+});
+
+test('detects offset templates and keeps the other query params', () => {
+    assert.deepEqual(
+        detectUrlTemplate('https://acme.com/jobs?q=analyst', ['https://acme.com/jobs?q=analyst&offset=20', 'https://acme.com/jobs?q=analyst&offset=40']),
+        { template: 'https://acme.com/jobs?q=analyst&offset={offset}', current: 0, step: 20 }
+    );
+});
+
+test('detects /page/N paths', () => {
+    assert.deepEqual(
+        detectUrlTemplate('https://acme.com/careers/', ['https://acme.com/careers/page/2/', 'https://acme.com/careers/page/3/']),
+        { template: 'https://acme.com/careers/page/{page}/', current: 1, step: 1 }
+    );
+});
+
+test('ignores filter links and other hosts', () => {
+    assert.equal(detectUrlTemplate('https://acme.com/jobs', ['/jobs?category=markets&page=2']), null);
+    assert.equal(detectUrlTemplate('https://acme.com/jobs', ['https://other.com/jobs?page=2']), null);
+    assert.equal(detectUrlTemplate('https://acme.com/jobs?page=2', ['/jobs?page=5']), null);
+});
+
+test('auto-detection prefers a URL template and navigates with it', async () => {
+    const { page, gotos } = fakePage({ url: 'https://acme.com/jobs', hrefs: ['https://acme.com/jobs?page=2'], visible: ['a[aria-label="Next"]'] });
+    const paginator = await resolvePaginator(page, undefined, noop);
+
+    assert.equal(paginator.strategy, 'url-template');
+    assert.equal(await paginator.next(page, noop), true);
+    assert.equal(await paginator.next(page, noop), true);
+    assert.deepEqual(gotos, ['https://acme.com/jobs?page=2', 'https://acme.com/jobs?page=3']);
+});
+
+test('auto-detection falls through next control, load-more and infinite scroll', async () => {
+    const next = fakePage({ url: 'https://acme.com/jobs', visible: ['a[aria-label="Next"]'] });
+    assert.equal((await resolvePaginator(next.page, undefined, noop)).strategy, 'click');
+
+    const loadMore = fakePage({ url: 'https://acme.com/jobs', visible: ['button:has-text("Load More")'] });
+    assert.equal((await resolvePaginator(loadMore.page, undefined, noop)).strategy, 'load-more');
+
+    const scrolling = fakePage({ url: 'https://acme.com/jobs', scrollHeights: [1000, 2400] });
+    assert.equal((await resolvePaginator(scrolling.page, undefined, noop)).strategy, 'infinite-scroll');
+
+    const single = fakePage({ url: 'https://acme.com/jobs' });
+    assert.equal((await resolvePaginator(single.page, undefined, noop)).strategy, 'click');
+});
+
+test('a configured offset template needs a page size', async () => {
+    const { page, gotos } = fakePage({ url: 'https://acme.com/jobs?start=0' });
+    const config = { strategy: 'url-template' as const, firstPage: 1, urlTemplate: '/jobs?start={offset}', pageSize: 25 };
+
+    const paginator = await resolvePaginator(page, config, noop);
+    assert.equal(paginator.strategy, 'url-template');
+    await paginator.next(page, noop);
+    assert.deepEqual(gotos, ['https://acme.com/jobs?start=25']);
+
+    const withoutPageSize = await resolvePaginator(page, { ...config, pageSize: undefined }, noop);
+    assert.equal(withoutPageSize.strategy, 'click');
+});
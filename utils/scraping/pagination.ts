@@ -0,0 +1,441 @@
+/**
+ * Listing Pagination
+ *
+ * Strategies the LIST phase uses to move past the first listing page:
+ *
+ * - click:           click a "next" control (or the next page number)
+ * - url-template:    navigate to the next URL of a ?page=N / offset=N / /page/N pattern
+ * - load-more:       click a "Load more" button - new cards are appended in place
+ * - infinite-scroll: scroll to the bottom until more cards load
+ * - none:            single page
+ *
+ * scraper_config.pagination.strategy picks one. 'auto' (the default) detects
+ * it on the first page, preferring URL templates (navigation survives SPA
+ * routing that breaks clicking), then next controls, load-more buttons and
+ * infinite scroll. When nothing is detected it falls back to click, which
+ * simply finds no control on a single-page listing.
+ *
+ * Strategies that append to the same page (load-more, infinite-scroll) rely
+ * on the LIST loop to skip links it has already seen and to stop once a page
+ * shows exactly the same links as the one before. URL templates only stop
+ * themselves on an HTTP error - a page past the end usually renders fine, so
+ * the LIST loop also takes a later page with no links or no new job links as
+ * the end of the listing.
+ */
+
+import type { ElementHandle, Page } from 'playwright';
+import type { PaginationStrategy, ScraperConfig } from '@/packages/schemas/careers-scraping';
+
+type PaginationConfig = NonNullable<ScraperConfig['pagination']>;
+
+export interface Paginator {
+    strategy: Exclude<PaginationStrategy, 'auto'>;
+    describe(): string;
+    /** Move to the next page - false when there isn't one */
+    next(page: Page, log: (msg: string) => void): Promise<boolean>;
+}
+
+/**
+ * A paginated URL: `template` holds {page} or {offset}; the next page is current + step
+ */
+export interface UrlTemplate {
+    template: string;
+    current: number;
+    step: number;
+}
+
+const NEXT_SELECTORS = [
+    '#pagination a.arrow.next',
+    '.pagination a.arrow.next',
+    '#pagination a.next',
+    '.pagination a.next',
+    '.pager a.next',
+    'a[aria-label="Next"]',
+    'a[aria-label="Next page"]',
+    '[rel="next"]',
+    'button[aria-label="Next"]',
+    'button[aria-label="Next page"]',
+    '.pagination button.next',
+    '#pagination button.next',
+];
+
+const LOAD_MORE_SELECTORS = [
+    'button:has-text("Load More")',
+    'button:has-text("Show More")',
+    'button:has-text("View More")',
+    'button:has-text("More jobs")',
+    'button:has-text("More results")',
+    'a:has-text("Load More")',
+    'a:has-text("Show More")',
+];
+
+// Query params that carry a page number or a result offset (compared lowercase)
+const PAGE_PARAMS = new Set(['page', 'p', 'pg', 'pagenum', 'pagenumber', 'page_number', 'page_no', 'currentpage', 'pageindex']);
+const OFFSET_PARAMS = new Set(['offset', 'start', 'from', 'skip', 'startrow', 'first', 'begin']);
+const PATH_PAGE_PATTERN = /^(.*\/(?:page|p))\/(\d+)\/?$/i;
+
+const PLACEHOLDER_MARKER = '__PAGINATION_VALUE__';
+
+function fillTemplate(template: string, value: number): string {
+    return template.replace(/\{page\}|\{offset\}/, String(value));
+}
+
+function sameQueryExcept(a: URL, b: URL, ignored: string | null): boolean {
+    const entries = (url: URL) => Array.from(url.searchParams.entries())
+        .filter(([key]) => key !== ignored)
+        .map(([key, value]) => `${key}=${value}`)
+        .sort()
+        .join('&');
+    return entries(a) === entries(b);
+}
+
+function trimSlash(path: string): string {
+    return path.replace(/\/$/, '') || '/';
+}
+
+/**
+ * Find the URL pattern behind the page's pagination links.
+ * Looks for a link that differs from the current URL only in a page/offset
+ * query param, or a /page/N path segment, with a value past the current one;
+ * the nearest such link sets the step. Pure - hrefs come from the page.
+ *
+ * @example
+ * detectUrlTemplate('https://acme.com/jobs?q=analyst', ['https://acme.com/jobs?q=analyst&offset=20'])
+ * // => { template: 'https://acme.com/jobs?q=analyst&offset={offset}', current: 0, step: 20 }
+ */
+export function detectUrlTemplate(currentUrl: string, hrefs: string[]): UrlTemplate | null {
+    let current: URL;
+    try {
+        current = new URL(currentUrl);
+    } catch {
+        return null;
+    }
+
+    let best: UrlTemplate | null = null;
+    const consider = (candidate: UrlTemplate) => {
+        if (!best || candidate.step < best.step) best = candidate;
+    };
+
+    for (const href of hrefs) {
+        let link: URL;
+        try {
+            link = new URL(href, currentUrl);
+        } catch {
+            continue;
+        }
+        if (link.origin !== current.origin) continue;
+
+        // ?page=N / ?offset=N
+        if (trimSlash(link.pathname) === trimSlash(current.pathname)) {
+            for (const [key, value] of link.searchParams.entries()) {
+                const name = key.toLowerCase();
+                const isPage = PAGE_PARAMS.has(name);
+                if ((!isPage && !OFFSET_PARAMS.has(name)) || !/^\d+$/.test(value)) continue;
+                if (!sameQueryExcept(link, current, key)) continue;
+
+                const currentRaw = current.searchParams.get(key);
+                const currentValue = currentRaw !== null && /^\d+$/.test(currentRaw) ? Number(currentRaw) : (isPage ? 1 : 0);
+                const linkValue = Number(value);
+                if (linkValue <= currentValue) continue;
+                // Page links can skip ahead ("1 2 3 … 10") - only the next page number is a template
+                if (isPage && linkValue !== currentValue + 1) continue;
+
+                const templated = new URL(current.href);
+                templated.hash = '';
+                templated.searchParams.set(key, PLACEHOLDER_MARKER);
+                consider({
+                    template: templated.href.replace(PLACEHOLDER_MARKER, isPage ? '{page}' : '{offset}'),
+                    current: currentValue,
+                    step: linkValue - currentValue,
+                });
+            }
+        }
+
+        // /page/N
+        const pathMatch = link.pathname.match(PATH_PAGE_PATTERN);
+        if (pathMatch && sameQueryExcept(link, current, null)) {
+            const [, prefix, value] = pathMatch;
+            const currentMatch = current.pathname.match(PATH_PAGE_PATTERN);
+            const basePath = prefix.replace(/\/(?:page|p)$/i, '');
+
+            let currentValue: number | null = null;
+            if (currentMatch && currentMatch[1] === prefix) {
+                currentValue = Number(currentMatch[2]);
+            } else if (trimSlash(current.pathname) === trimSlash(basePath)) {
+                currentValue = 1;
+            }
+
+            if (currentValue !== null && Number(value) === currentValue + 1) {
+                const trailingSlash = link.pathname.endsWith('/') ? '/' : '';
+                consider({ template: `${current.origin}${prefix}/{page}${trailingSlash}${current.search}`, current: currentValue, step: 1 });
+            }
+        }
+    }
+
+    return best;
+}
+
+/**
+ * Template from scraper_config - relative templates resolve against the listing URL,
+ * and the current value is read back from the URL when it matches the template
+ */
+function configuredUrlTemplate(config: PaginationConfig, currentUrl: string): UrlTemplate {
+    const template = config.urlTemplate!;
+    const isOffset = template.includes('{offset}');
+    if (!isOffset && !template.includes('{page}')) {
+        throw new Error(`pagination.urlTemplate "${template}" has no {page} or {offset} placeholder`);
+    }
+    if (isOffset && !config.pageSize) {
+        throw new Error('pagination.urlTemplate with {offset} needs pagination.pageSize');
+    }
+
+    const absolute = new URL(template.replace(/\{page\}|\{offset\}/, PLACEHOLDER_MARKER), currentUrl).href;
+    const escaped = absolute.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(PLACEHOLDER_MARKER, '(\\d+)');
+    const currentMatch = currentUrl.match(new RegExp(`^${escaped}$`));
+
+    return {
+        template: absolute.replace(PLACEHOLDER_MARKER, isOffset ? '{offset}' : '{page}'),
+        current: currentMatch ? Number(currentMatch[1]) : (isOffset ? 0 : config.firstPage),
+        step: isOffset ? config.pageSize! : 1,
+    };
+}
+
+/**
+ * First visible, enabled element matching any selector
+ */
+async function findClickable(page: Page, selectors: string[]): Promise<{ element: ElementHandle; selector: string } | null> {
+    for (const selector of selectors) {
+        try {
+            const element = await page.$(selector);
+            if (!element) continue;
+
+            const style = await element.getAttribute('style');
+            if (style?.includes('pointer-events:none')) continue;
+
+            const ariaDisabled = await element.getAttribute('aria-disabled');
+            if (ariaDisabled === 'true') continue;
+
+            const disabled = await element.getAttribute('disabled');
+            if (disabled !== null) continue;
+
+            const isVisible = await element.isVisible();
+            if (!isVisible) continue;
+
+            return { element, selector };
+        } catch {
+            continue;
+        }
+    }
+
+    return null;
+}
+
+async function clickNumberedPage(page: Page, log: (msg: string) => void): Promise<boolean> {
+    try {
+        const nextPageInfo = await page.evaluate(() => {
+            const activeLink = document.querySelector(
+                '#pagination .active, .pagination .active, #pagination [aria-current="page"], .pagination [aria-current="page"]'
+            );
+            if (!activeLink) return null;
+            const currentNum = parseInt(activeLink.textContent || '', 10);
+            if (isNaN(currentNum)) return null;
+            return { currentPage: currentNum, nextPage: currentNum + 1 };
+        });
+
+        if (nextPageInfo) {
+            const nextPageElement = await page.$(
+                `#pagination a:has-text("${nextPageInfo.nextPage}"), .pagination a:has-text("${nextPageInfo.nextPage}")`
+            );
+            if (nextPageElement) {
+                await nextPageElement.click();
+                await page.waitForTimeout(2500);
+                log(`✓ Clicked page ${nextPageInfo.nextPage}`);
+                return true;
+            }
+        }
+    } catch {
+        // continue
+    }
+
+    return false;
+}
+
+async function linkHrefs(page: Page): Promise<string[]> {
+    return page.$$eval('a[href], link[rel="next"]', elements =>
+        elements.map(element => (element as HTMLAnchorElement).href)
+    );
+}
+
+async function scrollHeight(page: Page): Promise<number> {
+    return page.evaluate(() => document.body.scrollHeight);
+}
+
+function clickPaginator(selector?: string): Paginator {
+    const selectors = [...(selector ? [selector] : []), ...NEXT_SELECTORS, ...LOAD_MORE_SELECTORS];
+    return {
+        strategy: 'click',
+        describe: () => selector ? `click (${selector})` : 'click',
+        async next(page, log) {
+            const clickable = await findClickable(page, selectors);
+            if (clickable) {
+                try {
+                    await clickable.element.click();
+                    await page.waitForTimeout(2500);
+                    log(`✓ Clicked pagination: ${clickable.selector}`);
+                    return true;
+                } catch {
+                    // Fall through to numbered pagination
+                }
+            }
+
+            if (await clickNumberedPage(page, log)) return true;
+
+            log('No more pagination found');
+            return false;
+        },
+    };
+}
+
+function loadMorePaginator(selector?: string): Paginator {
+    const selectors = [...(selector ? [selector] : []), ...LOAD_MORE_SELECTORS];
+    return {
+        strategy: 'load-more',
+        describe: () => selector ? `load-more (${selector})` : 'load-more',
+        async next(page, log) {
+            const clickable = await findClickable(page, selectors);
+            if (!clickable) {
+                log('No load-more button - all results loaded');
+                return false;
+            }
+
+            await clickable.element.click();
+            await page.waitForTimeout(2500);
+            log(`✓ Clicked load more: ${clickable.selector}`);
+            return true;
+        },
+    };
+}
+
+function urlTemplatePaginator(urlTemplate: UrlTemplate): Paginator {
+    let current = urlTemplate.current;
+    return {
+        strategy: 'url-template',
+        describe: () => `url-template (${urlTemplate.template}, step ${urlTemplate.step})`,
+        async next(page, log) {
+            const value = current + urlTemplate.step;
+            const url = fillTemplate(urlTemplate.template, value);
+
+            const response = await page.goto(url, { waitUntil: 'domcontentloaded', timeout: 60000 });
+            if (!response || response.status() >= 400) {
+                log(`No more pages (${url} returned ${response?.status() ?? 'no response'})`);
+                return false;
+            }
+
+            current = value;
+            log(`✓ Navigated to ${url}`);
+            return true;
+        },
+    };
+}
+
+function infiniteScrollPaginator(): Paginator {
+    return {
+        strategy: 'infinite-scroll',
+        describe: () => 'infinite-scroll',
+        async next(page, log) {
+            const before = await scrollHeight(page);
+            for (let attempt = 0; attempt < 3; attempt++) {
+                await page.evaluate(() => window.scrollTo(0, document.body.scrollHeight));
+                await page.waitForTimeout(1500);
+                if (await scrollHeight(page) > before) {
+                    log('✓ Scrolled - more results loaded');
+                    return true;
+                }
+            }
+
+            log('Scrolling loaded nothing new - end of results');
+            return false;
+        },
+    };
+}
+
+const NO_PAGINATION: Paginator = {
+    strategy: 'none',
+    describe: () => 'none',
+    next: async () => false,
+};
+
+/**
+ * Detect how the current (first) listing page paginates
+ */
+async function detectPaginator(page: Page, config: PaginationConfig | undefined): Promise<Paginator> {
+    const urlTemplate = detectUrlTemplate(page.url(), await linkHrefs(page));
+    if (urlTemplate) {
+        return urlTemplatePaginator(urlTemplate);
+    }
+
+    if (await findClickable(page, [...(config?.selector ? [config.selector] : []), ...NEXT_SELECTORS])) {
+        return clickPaginator(config?.selector);
+    }
+
+    if (await findClickable(page, LOAD_MORE_SELECTORS)) {
+        return loadMorePaginator(config?.selector);
+    }
+
+    const before = await scrollHeight(page);
+    await page.evaluate(() => window.scrollTo(0, document.body.scrollHeight));
+    await page.waitForTimeout(1500);
+    if (await scrollHeight(page) > before) {
+        return infiniteScrollPaginator();
+    }
+
+    return clickPaginator(config?.selector);
+}
+
+/**
+ * Paginator for a listing - the configured strategy, or detected from the page it's on
+ */
+export async function resolvePaginator(
+    page: Page,
+    config: PaginationConfig | undefined,
+    log: (msg: string) => void
+): Promise<Paginator> {
+    const strategy = config?.strategy ?? 'auto';
+
+    let paginator: Paginator;
+    switch (strategy) {
+        case 'none':
+            paginator = NO_PAGINATION;
+            break;
+        case 'click':
+            paginator = clickPaginator(config?.selector);
+            break;
+        case 'load-more':
+            paginator = loadMorePaginator(config?.selector);
+            break;
+        case 'infinite-scroll':
+            paginator = infiniteScrollPaginator();
+            break;
+        case 'url-template': {
+            let urlTemplate: UrlTemplate | null = null;
+            try {
+                urlTemplate = config?.urlTemplate
+                    ? configuredUrlTemplate(config, page.url())
+                    : detectUrlTemplate(page.url(), await linkHrefs(page));
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                log(`[LIST] ⚠️ ${errorMessage}`);
+            }
+            if (!urlTemplate) {
+                log('[LIST] ⚠️ No usable pagination URL template - falling back to click');
+            }
+            paginator = urlTemplate ? urlTemplatePaginator(urlTemplate) : clickPaginator(config?.selector);
+            break;
+        }
+        default:
+            paginator = await detectPaginator(page, config);
+    }
+
+    log(`[LIST] Pagination: ${paginator.describe()}${strategy === 'auto' ? ' (detected)' : ''}`);
+    return paginator;
+}
@@ -0,0 +1,28 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getModelPricing, setPricingEntries } from './pricing-registry';
+
+setPricingEntries([
+    { provider: 'openai', model: 'gpt-4o', input_per_million: 5, output_per_million: 15, cached_input_per_million: 2.5, effective_from: '2024-05-13' },
+    { provider: 'openai', model: 'gpt-4o', input_per_million: 2.5, output_per_million: 10, cached_input_per_million: 1.25, effective_from: '2024-10-01' },
+    { provider: 'openai', model: 'gpt-4o-mini', input_per_million: 0.15, output_per_million: 0.6, cached_input_per_million: 0.075, effective_from: '2024-07-18' },
+], 'test');
+
+test('picks the latest rate effective on the usage date', () => {
+    assert.equal(getModelPricing('openai:gpt-4o', new Date('2024-06-01'))?.input_per_million, 5);
+    assert.equal(getModelPricing('openai:gpt-4o', new Date('2024-10-01T08:00:00Z'))?.input_per_million, 2.5);
+    assert.equal(getModelPricing('gpt-4o', new Date('2025-06-01'))?.input_per_million, 2.5);
+});
+
+test('usage before the first effective date is unpriced', () => {
+    assert.equal(getModelPricing('openai:gpt-4o', new Date('2024-01-01')), null);
+});
+
+test('dated snapshots match the longest base model', () => {
+    assert.equal(getModelPricing('openai:gpt-4o-mini-2024-07-18', new Date('2025-01-01'))?.model, 'gpt-4o-mini');
+    assert.equal(getModelPricing('openai:gpt-4o-2024-08-06', new Date('2025-01-01'))?.model, 'gpt-4o');
+});
+
+test('unknown models are unpriced', () => {
+    assert.equal(getModelPricing('anthropic:claude-unknown', new Date('2025-01-01')), null);
+});
@@ -0,0 +1,118 @@
+/**
+ * LLM Pricing Registry
+ *
+ * Per-model token rates with effective dates, so cost is computed from data
+ * rather than constants and a run can be re-priced with the rates that were
+ * in force when it happened.
+ *
+ * Sources (LLM_PRICING_SOURCE):
+ * - unset: the bundled llm-pricing.json
+ * - "database": the llm_pricing table
+ *   (provider, model, input_per_million, output_per_million, cached_input_per_million, effective_from)
+ * - anything else: path to a JSON file with the same shape as llm-pricing.json
+ *
+ * The bundled table is active from module load; loadPricing() swaps in the
+ * configured source and keeps the current table if that source fails.
+ *
+ * Models with no entry have no price - callers get null and must report the
+ * usage as unpriced rather than guess.
+ */
+
+import { readFile } from 'fs/promises';
+import { createClient } from '@supabase/supabase-js';
+import { z } from 'zod';
+import { ModelPricingEntrySchema, type ModelPricingEntry } from '@/packages/schemas/careers-scraping';
+import bundledPricing from './llm-pricing.json';
+
+const PricingTableSchema = z.array(ModelPricingEntrySchema);
+
+let activeEntries: ModelPricingEntry[] = PricingTableSchema.parse(bundledPricing);
+let activeSource = 'bundled';
+
+const warnedUnpricedModels = new Set<string>();
+
+/**
+ * Strip the provider prefix from a model spec ("openai:gpt-4o-mini" → "gpt-4o-mini")
+ */
+function bareModelId(model: string): string {
+    return model.includes(':') ? model.slice(model.indexOf(':') + 1) : model;
+}
+
+/**
+ * Replace the active pricing table
+ */
+export function setPricingEntries(entries: ModelPricingEntry[], source = 'custom'): void {
+    activeEntries = PricingTableSchema.parse(entries);
+    activeSource = source;
+}
+
+export function getPricingEntries(): { source: string; entries: ModelPricingEntry[] } {
+    return { source: activeSource, entries: activeEntries };
+}
+
+/**
+ * Load the pricing table from LLM_PRICING_SOURCE (see header).
+ * Call once at task start. Returns the source now in use.
+ */
+export async function loadPricing(source = process.env.LLM_PRICING_SOURCE): Promise<string> {
+    if (!source) {
+        return activeSource;
+    }
+
+    try {
+        if (source === 'database') {
+            const supabase = createClient(
+                process.env.NEXT_PUBLIC_SUPABASE_URL!,
+                process.env.SUPABASE_SERVICE_ROLE_KEY!
+            );
+
+            const { data, error } = await supabase
+                .from('llm_pricing')
+                .select('provider, model, input_per_million, output_per_million, cached_input_per_million, effective_from');
+
+            if (error) throw new Error(error.message);
+            if (!data || data.length === 0) throw new Error('llm_pricing is empty');
+
+            setPricingEntries(data as ModelPricingEntry[], 'database');
+        } else {
+            setPricingEntries(JSON.parse(await readFile(source, 'utf8')), source);
+        }
+    } catch (error) {
+        console.error(`[pricing] Failed to load pricing from ${source} - keeping ${activeSource}:`, error instanceof Error ? error.message : error);
+    }
+
+    return activeSource;
+}
+
+/**
+ * Get the pricing in effect for a model at a point in time, or null (with a warning) if there is none
+ *
+ * Dated snapshot IDs match their base model; the longest base wins, so
+ * gpt-4o-mini-2024-07-18 is priced as gpt-4o-mini, not gpt-4o.
+ *
+ * @example
+ * getModelPricing('openai:gpt-4o-mini', new Date('2025-01-01'))
+ * // => { provider: 'openai', model: 'gpt-4o-mini', input_per_million: 0.15, ... }
+ */
+export function getModelPricing(model: string, at: Date = new Date()): ModelPricingEntry | null {
+    const id = bareModelId(model);
+    const day = at.toISOString().slice(0, 10);
+
+    const candidates = activeEntries.filter(entry => id === entry.model || id.startsWith(`${entry.model}-`));
+    const longestBase = Math.max(0, ...candidates.map(entry => entry.model.length));
+
+    const match = candidates
+        .filter(entry => entry.model.length === longestBase && entry.effective_from.slice(0, 10) <= day)
+        .sort((a, b) => b.effective_from.localeCompare(a.effective_from))[0];
+
+    if (match) {
+        return match;
+    }
+
+    const key = `${id}@${day}`;
+    if (!warnedUnpricedModels.has(key)) {
+        warnedUnpricedModels.add(key);
+        console.warn(`[pricing] No ${activeSource} pricing for "${model}" effective ${day} - its usage will be reported as unpriced`);
+    }
+    return null;
+}
@@ -1,8 +1,7 @@
-import { generateObject } from 'ai';
 import { z } from 'zod';
-import { createOpenAI } from '@ai-sdk/openai';
 import type { ScrapedRole } from '@/packages/schemas/careers-scraping';
 import { TokenUsage } from './cost-calculator';
+import { generateStructured } from './llm-registry';
 
 // Schema for programme suggestion output
 export const ProgrammeSuggestionSchema = z.object({
@@ -46,7 +45,7 @@ export interface SuggestProgrammeInputs {
     firmName?: string;
 }
 
-const PROGRAMME_SUGGESTION_SYSTEM_PROMPT = `You are an expert at categorizing student/graduate job roles into programmes.
+export const PROGRAMME_SUGGESTION_SYSTEM_PROMPT = `You are an expert at categorizing student/graduate job roles into programmes.
 
 A programme has TWO key components:
 1. **Programme name** (suggested_name/normalized_name): What the FIRM calls it (e.g., "Summer Analyst", "Graduate Scheme")
@@ -283,29 +282,22 @@ Example of CORRECT output:
  * Uses a priority system: Expected programmes > Existing programmes > New suggestion
  */
 export async function suggestProgramme(
-    inputs: SuggestProgrammeInputs
+    inputs: SuggestProgrammeInputs,
+    model?: string | null, // Model spec override - see llm-registry
+    systemPrompt: string = PROGRAMME_SUGGESTION_SYSTEM_PROMPT
 ): Promise<ProgrammeSuggestion & { usage: TokenUsage }> {
     try {
-        const openaiProvider = process.env.OPENAI_API_KEY
-            ? createOpenAI({ apiKey: process.env.OPENAI_API_KEY })
-            : createOpenAI();
-
-        const { object, usage } = await generateObject({
-            model: openaiProvider('gpt-4o-mini'),
+        const { object, usage } = await generateStructured({
+            task: 'programme-suggestion',
+            model,
             schema: ProgrammeSuggestionSchema,
             schemaName: 'ProgrammeSuggestion',
             schemaDescription: 'A programme suggestion with matched or new programme details',
-            system: PROGRAMME_SUGGESTION_SYSTEM_PROMPT,
+            system: systemPrompt,
             prompt: buildProgrammeSuggestionPrompt(inputs),
             maxRetries: 3, // Retry up to 3 times on schema validation failures
         });
 
-        // Handle token usage with fallback
-        const usageAny = usage as any;
-        const promptTokens = usageAny.promptTokens ?? usageAny.prompt_tokens ?? usageAny.inputTokens ?? 0;
-        const completionTokens = usageAny.completionTokens ?? usageAny.completion_tokens ?? usageAny.outputTokens ?? 0;
-        const totalTokens = usageAny.totalTokens ?? usageAny.total_tokens ?? 0;
-
         let correctedObject = { ...object };
 
         // CRITICAL FIX: Always regenerate normalized_name using our function
@@ -354,11 +346,7 @@ export async function suggestProgramme(
 
         return {
             ...correctedObject,
-            usage: {
-                promptTokens,
-                completionTokens,
-                totalTokens,
-            },
+            usage,
         };
     } catch (error) {
         console.error('[suggestProgramme] ❌ Schema validation failed after 3 retries');
@@ -0,0 +1,176 @@
+/**
+ * Capture → Fixture
+ *
+ * Turns a LIST snapshot capture (see snapshot-capture) into a replay fixture
+ * directory that loadReplayFixture can run:
+ *
+ * - pages: every listing page, JSON response (listing XHR, ATS API) and role
+ *   page the run saw. DETAIL captures are found under the same capture root by
+ *   role URL - the latest one started after the LIST capture is used.
+ * - llm: each recorded call becomes a `match` entry keyed on the line of the
+ *   prompt that identifies it (role URL, role title, first link). The rest of
+ *   a prompt carries DB state - existing programmes, listing card context -
+ *   that the fixture's in-memory Supabase starts without.
+ * - expected: the roles the live run collected, and a role draft titled as
+ *   extracted for each of them.
+ *
+ * tables is left empty. If the live run skipped roles the firm already
+ * tracks, seed program_roles so the replay makes the same decisions.
+ */
+
+import { copyFile, mkdir, readFile, readdir, writeFile } from 'fs/promises';
+import path from 'path';
+import type { ScrapedRole } from '@/packages/schemas/careers-scraping';
+import type { LlmTask } from '../llm-registry';
+import { captureUrlHash, type CaptureManifest, type CapturedLlmCall } from '../snapshot-capture';
+import { FIXTURE_FILE } from './fixtures';
+import type { MockLlmFixtures } from './mock-llm';
+
+/**
+ * The prompt line each task's recorded response is matched on
+ */
+const PROMPT_MATCH_LINES: Partial<Record<LlmTask, RegExp>> = {
+    'link-classification': /^\{.*\}$/m, // First link in the batch
+    'role-extraction': /^URL: .+$/m,
+    'programme-suggestion': /^Title: ".*"$/m,
+};
+
+interface LoadedCapture {
+    dir: string;
+    manifest: CaptureManifest;
+}
+
+export interface CaptureFixtureResult {
+    dir: string;
+    roles: number;
+    missingDetails: string[]; // Collected roles with no DETAIL capture - replay will find their pages blocked
+}
+
+async function readJson<T>(file: string): Promise<T> {
+    return JSON.parse(await readFile(file, 'utf8')) as T;
+}
+
+async function loadCapture(dir: string): Promise<LoadedCapture> {
+    const manifest = await readJson<CaptureManifest>(path.join(dir, 'capture.json'));
+    if (!manifest.firm || !manifest.responses) {
+        throw new Error(`${dir} was captured before format version 2 - re-capture it to build a fixture`);
+    }
+    return { dir, manifest };
+}
+
+/**
+ * Latest DETAIL capture for a role URL started at or after `since`, or null
+ */
+async function findDetailCapture(captureRoot: string, firmSlug: string, url: string, since: string): Promise<LoadedCapture | null> {
+    const urlDir = path.join(captureRoot, firmSlug, captureUrlHash(url));
+
+    let versions: number[];
+    try {
+        versions = (await readdir(urlDir))
+            .map(name => name.match(/^v(\d+)$/))
+            .filter((match): match is RegExpMatchArray => match !== null)
+            .map(match => Number(match[1]))
+            .sort((a, b) => b - a);
+    } catch {
+        return null;
+    }
+
+    for (const version of versions) {
+        try {
+            const capture = await loadCapture(path.join(urlDir, `v${version}`));
+            if (capture.manifest.kind === 'detail' && capture.manifest.startedAt >= since) return capture;
+        } catch {
+            // Unfinished capture (no manifest) - try the previous version
+        }
+    }
+
+    return null;
+}
+
+function promptMatch(call: CapturedLlmCall): string {
+    const pattern = PROMPT_MATCH_LINES[call.task];
+    return (pattern && call.prompt.match(pattern)?.[0]) || call.prompt;
+}
+
+/**
+ * Build a fixture directory from a LIST capture
+ *
+ * @example
+ * await buildFixtureFromCapture('captures/acme/3f2a9c.../v1', 'utils/scraping/replay/fixtures/acme-listing')
+ * // => { dir: '.../acme-listing', roles: 4, missingDetails: [] }
+ */
+export async function buildFixtureFromCapture(listCaptureDir: string, outDir: string, name?: string): Promise<CaptureFixtureResult> {
+    const list = await loadCapture(listCaptureDir);
+    if (list.manifest.kind !== 'list') {
+        throw new Error(`${listCaptureDir} is a ${list.manifest.kind} capture - build fixtures from a LIST capture`);
+    }
+
+    // <root>/<firm slug>/<url hash>/v<N>
+    const captureRoot = path.resolve(listCaptureDir, '..', '..', '..');
+    const collectedLinks = list.manifest.collectedLinks ?? [];
+
+    const captures: LoadedCapture[] = [list];
+    const roleDrafts: Array<{ url: string; title?: string }> = [];
+    const missingDetails: string[] = [];
+
+    for (const link of collectedLinks) {
+        const detail = await findDetailCapture(captureRoot, list.manifest.firm.slug, link.url, list.manifest.startedAt);
+        if (!detail) {
+            missingDetails.push(link.url);
+            continue;
+        }
+
+        captures.push(detail);
+        const role = await readJson<ScrapedRole>(path.join(detail.dir, 'role.json')).catch(() => null);
+        roleDrafts.push(role ? { url: link.url, title: role.title } : { url: link.url });
+    }
+
+    await mkdir(outDir, { recursive: true });
+
+    const pages: Record<string, { file: string; status?: number; contentType?: string }> = {};
+    const llm: MockLlmFixtures = {};
+
+    for (const [index, capture] of captures.entries()) {
+        const prefix = index === 0 ? 'list' : `detail-${index}`;
+
+        for (const page of capture.manifest.pages) {
+            if (pages[page.url]) continue;
+            const file = `${prefix}-${page.file}`;
+            await copyFile(path.join(capture.dir, page.file), path.join(outDir, file));
+            pages[page.url] = { file };
+        }
+
+        for (const response of capture.manifest.responses) {
+            if (pages[response.url]) continue;
+            const file = `${prefix}-${response.file}`;
+            await copyFile(path.join(capture.dir, response.file), path.join(outDir, file));
+            pages[response.url] = { file, status: response.status, contentType: response.contentType };
+        }
+
+        const calls = await readJson<CapturedLlmCall[]>(path.join(capture.dir, 'llm-calls.json')).catch(() => []);
+        for (const call of calls) {
+            if (call.error || call.response === undefined) continue;
+            (llm[call.task] ??= []).push({ match: promptMatch(call), response: call.response });
+        }
+    }
+
+    const fixture = {
+        name: name ?? `${list.manifest.firm.name} - captured ${list.manifest.startedAt}`,
+        listingUrl: list.manifest.url,
+        firm: list.manifest.firm,
+        scrapeUrlId: `replay-${list.manifest.firm.slug}`,
+        scraperConfig: list.manifest.scraperConfig ? { ...list.manifest.scraperConfig as object, capture: false } : undefined,
+        expectedProgrammes: [],
+        pages,
+        llm,
+        tables: {},
+        expected: {
+            collectedLinks: collectedLinks.map(link => ({ url: link.url })),
+            roleDrafts,
+        },
+    };
+
+    await writeFile(path.join(outDir, FIXTURE_FILE), `${JSON.stringify(fixture, null, 4)}\n`, 'utf8');
+
+    return { dir: outDir, roles: collectedLinks.length, missingDetails };
+}
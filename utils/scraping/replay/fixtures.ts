@@ -0,0 +1,154 @@
+/**
+ * Replay Fixtures
+ *
+ * A fixture is a directory holding fixture.json plus the recorded pages it
+ * references:
+ *
+ * {
+ *   "name": "Acme graduate listing",
+ *   "listingUrl": "https://careers.acme.com/jobs",
+ *   "firm": { "id": "...", "name": "Acme", "slug": "acme" },
+ *   "scraperConfig": { "maxPages": 1 },                  // Optional, parsed with ScraperConfigSchema
+ *   "pages": {                                            // Every URL the browser or fetch may request
+ *     "https://careers.acme.com/jobs": { "file": "listing.html" },
+ *     "https://careers.acme.com/api/jobs": { "json": { "jobs": [] } }
+ *   },
+ *   "llm": { ... },                                       // Recorded responses - see mock-llm
+ *   "tables": { "program_roles": [...] },                 // Seed rows for the in-memory Supabase
+ *   "expected": { "collectedLinks": [...], "roleDrafts": [...], "programmeDrafts": [...] }
+ * }
+ *
+ * Requests for anything not under "pages" fail as if offline.
+ */
+
+import { readFile, readdir } from 'fs/promises';
+import path from 'path';
+import type { RoleAction } from '@/packages/schemas/careers-scraping';
+import type { ExpectedProgramme } from '../programme-suggester';
+import type { MockLlmFixtures } from './mock-llm';
+import type { Row } from './memory-supabase';
+
+export const FIXTURE_FILE = 'fixture.json';
+
+/**
+ * A page as written in fixture.json - exactly one of file/body/json
+ */
+interface FixturePage {
+    file?: string;
+    body?: string;
+    json?: unknown;
+    status?: number;
+    contentType?: string;
+}
+
+export interface RecordedResponse {
+    status: number;
+    contentType: string;
+    body: string;
+}
+
+export interface ReplayExpectations {
+    collectedLinks?: Array<{ url: string; action?: RoleAction }>;
+    roleDrafts?: Array<{ url: string; title?: string; update_type?: RoleAction }>;
+    programmeDrafts?: Array<{ suggested_name: string }>;
+}
+
+export interface ReplayFixture {
+    name: string;
+    dir: string;
+    listingUrl: string;
+    firm: { id: string; name: string; slug: string };
+    scrapeUrlId: string;
+    scraperConfig?: unknown;
+    expectedProgrammes: ExpectedProgramme[];
+    pages: Record<string, RecordedResponse>;
+    llm: MockLlmFixtures;
+    tables: Record<string, Row[]>;
+    expected?: ReplayExpectations;
+}
+
+/**
+ * Canonical form used to look up recorded pages (drops the fragment)
+ */
+function pageKey(url: string): string {
+    try {
+        const parsed = new URL(url);
+        parsed.hash = '';
+        return parsed.href;
+    } catch {
+        return url;
+    }
+}
+
+async function resolvePage(dir: string, url: string, page: FixturePage): Promise<RecordedResponse> {
+    if (page.json !== undefined) {
+        return { status: page.status ?? 200, contentType: page.contentType ?? 'application/json', body: JSON.stringify(page.json) };
+    }
+
+    if (page.file) {
+        const body = await readFile(path.join(dir, page.file), 'utf8');
+        const contentType = page.contentType ?? (page.file.endsWith('.json') ? 'application/json' : 'text/html; charset=utf-8');
+        return { status: page.status ?? 200, contentType, body };
+    }
+
+    if (page.body !== undefined) {
+        return { status: page.status ?? 200, contentType: page.contentType ?? 'text/html; charset=utf-8', body: page.body };
+    }
+
+    throw new Error(`Fixture page ${url} needs one of file, body or json`);
+}
+
+/**
+ * Load a fixture directory, reading every recorded page into memory
+ */
+export async function loadReplayFixture(dir: string): Promise<ReplayFixture> {
+    const raw = JSON.parse(await readFile(path.join(dir, FIXTURE_FILE), 'utf8'));
+
+    if (!raw.listingUrl || !raw.firm?.id) {
+        throw new Error(`${path.join(dir, FIXTURE_FILE)} needs listingUrl and firm.id`);
+    }
+
+    const pages: Record<string, RecordedResponse> = {};
+    for (const [url, page] of Object.entries<FixturePage>(raw.pages ?? {})) {
+        pages[pageKey(url)] = await resolvePage(dir, url, page);
+    }
+
+    return {
+        name: raw.name ?? path.basename(dir),
+        dir,
+        listingUrl: raw.listingUrl,
+        firm: raw.firm,
+        scrapeUrlId: raw.scrapeUrlId ?? 'replay',
+        scraperConfig: raw.scraperConfig,
+        expectedProgrammes: raw.expectedProgrammes ?? [],
+        pages,
+        llm: raw.llm ?? {},
+        tables: raw.tables ?? {},
+        expected: raw.expected,
+    };
+}
+
+/**
+ * Find fixture directories (those containing fixture.json) directly under a root
+ */
+export async function listReplayFixtures(root: string): Promise<string[]> {
+    const entries = await readdir(root, { withFileTypes: true });
+    const dirs: string[] = [];
+
+    for (const entry of entries) {
+        if (!entry.isDirectory()) continue;
+        const files = await readdir(path.join(root, entry.name));
+        if (files.includes(FIXTURE_FILE)) {
+            dirs.push(path.join(root, entry.name));
+        }
+    }
+
+    return dirs.sort();
+}
+
+/**
+ * Look up the recorded response for a URL
+ */
+export function findRecordedResponse(fixture: ReplayFixture, url: string): RecordedResponse | null {
+    return fixture.pages[pageKey(url)] ?? null;
+}
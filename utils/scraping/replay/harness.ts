@@ -0,0 +1,207 @@
+/**
+ * Offline Replay Harness
+ *
+ * Runs a recorded fixture through the real runListPhase → runDetailPhase
+ * pipeline with every external dependency replaced:
+ *
+ * - Browser navigation and XHR/fetch: served from the fixture's recorded
+ *   pages via page.route(); anything else is aborted
+ * - Node fetch (ATS adapters): served from the same pages; anything else rejects
+ * - LLM: MockLlm (recorded responses, deterministic usage)
+ * - Supabase: MemorySupabase seeded from the fixture's tables
+ *
+ * Chromium still runs (locally) - install it once with `npx playwright install chromium`.
+ * Nothing touches the network, so a fixture replays identically on any machine.
+ */
+
+import { ScraperConfigSchema } from '@/packages/schemas/careers-scraping';
+import { runListPhase, type ListPhaseResult } from '../list-phase';
+import { runDetailPhase, type DetailPhaseResult } from '../detail-phase';
+import { setStructuredGenerator } from '../llm-registry';
+import { setPageInterceptor } from '../page-interceptor';
+import { MemorySupabase, installMemorySupabase, type Row } from './memory-supabase';
+import { MockLlm, type MockLlmCall } from './mock-llm';
+import { findRecordedResponse, type ReplayFixture } from './fixtures';
+
+export interface ReplayRun {
+    fixture: ReplayFixture;
+    listResult: ListPhaseResult;
+    detailResults: DetailPhaseResult[];
+    tables: Record<string, Row[]>; // Database state after the run
+    llmCalls: MockLlmCall[];
+    blockedRequests: string[]; // URLs requested that the fixture doesn't record
+}
+
+/**
+ * Serve Node fetch from the fixture - returns a function that restores the real fetch
+ */
+function installOfflineFetch(fixture: ReplayFixture, blockedRequests: string[]): () => void {
+    const originalFetch = globalThis.fetch;
+
+    globalThis.fetch = async (input: string | URL | Request) => {
+        const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+        const recorded = findRecordedResponse(fixture, url);
+
+        if (!recorded) {
+            blockedRequests.push(url);
+            throw new TypeError(`[replay] Offline - no recorded response for ${url}`);
+        }
+
+        return new Response(recorded.body, {
+            status: recorded.status,
+            headers: { 'content-type': recorded.contentType },
+        });
+    };
+
+    return () => {
+        globalThis.fetch = originalFetch;
+    };
+}
+
+/**
+ * Replay a fixture through the LIST and DETAIL phases
+ *
+ * @example
+ * const run = await runReplay(await loadReplayFixture('utils/scraping/replay/fixtures/generic-listing'));
+ * checkReplayExpectations(run)
+ * // => [] when the pipeline still produces the recorded outcome
+ */
+export async function runReplay(fixture: ReplayFixture): Promise<ReplayRun> {
+    const db = new MemorySupabase(fixture.tables);
+    const llm = new MockLlm(fixture.llm);
+    const blockedRequests: string[] = [];
+    const scraperConfig = ScraperConfigSchema.parse(fixture.scraperConfig ?? {});
+
+    const restoreSupabase = installMemorySupabase(db);
+    const restoreFetch = installOfflineFetch(fixture, blockedRequests);
+    setStructuredGenerator(llm.generate);
+    setPageInterceptor(async page => {
+        await page.route('**/*', async route => {
+            const url = route.request().url();
+            const recorded = findRecordedResponse(fixture, url);
+
+            if (!recorded) {
+                blockedRequests.push(url);
+                await route.abort('internetdisconnected');
+                return;
+            }
+
+            await route.fulfill({ status: recorded.status, contentType: recorded.contentType, body: recorded.body });
+        });
+    });
+
+    try {
+        const listResult = await runListPhase({
+            scrapeUrlId: fixture.scrapeUrlId,
+            url: fixture.listingUrl,
+            firmId: fixture.firm.id,
+            firmName: fixture.firm.name,
+            firmSlug: fixture.firm.slug,
+            scraperConfig,
+        });
+
+        const existingProgrammes = db.table('programs')
+            .filter(program => program.firm_id === fixture.firm.id)
+            .map(program => ({
+                id: String(program.id),
+                name: String(program.name),
+                normalized_name: (program.normalized_name as string | null) ?? null,
+                program_type: String(program.program_type),
+            }));
+
+        // Sequential, in listing order, so the run is deterministic
+        const detailResults: DetailPhaseResult[] = [];
+        for (const link of listResult.collectedLinks) {
+            detailResults.push(await runDetailPhase({
+                url: link.url,
+                title: link.title,
+                action: link.action,
+                existingRoleId: link.existingRoleId,
+                firmId: fixture.firm.id,
+                firmName: fixture.firm.name,
+                firmSlug: fixture.firm.slug,
+                scrapeUrlId: fixture.scrapeUrlId,
+                expectedProgrammes: fixture.expectedProgrammes,
+                existingProgrammes,
+                allRolesInScan: listResult.allRolesInScan,
+                scraperConfig,
+                ats: link.ats,
+                listing: link.listing,
+            }));
+        }
+
+        return {
+            fixture,
+            listResult,
+            detailResults,
+            tables: db.tables,
+            llmCalls: llm.calls,
+            blockedRequests: Array.from(new Set(blockedRequests)),
+        };
+    } finally {
+        setPageInterceptor(null);
+        setStructuredGenerator(null);
+        restoreFetch();
+        restoreSupabase();
+    }
+}
+
+/**
+ * Compare a replay against the fixture's expectations - returns one message per mismatch
+ */
+export function checkReplayExpectations(run: ReplayRun): string[] {
+    const expected = run.fixture.expected;
+    if (!expected) {
+        return [];
+    }
+
+    const mismatches: string[] = [];
+
+    if (expected.collectedLinks) {
+        const collected = new Map(run.listResult.collectedLinks.map(link => [link.url, link]));
+
+        for (const link of expected.collectedLinks) {
+            const actual = collected.get(link.url);
+            if (!actual) {
+                mismatches.push(`collectedLinks: missing ${link.url}`);
+            } else if (link.action && actual.action !== link.action) {
+                mismatches.push(`collectedLinks: ${link.url} action ${actual.action}, expected ${link.action}`);
+            }
+        }
+
+        const expectedUrls = new Set(expected.collectedLinks.map(link => link.url));
+        for (const url of collected.keys()) {
+            if (!expectedUrls.has(url)) mismatches.push(`collectedLinks: unexpected ${url}`);
+        }
+    }
+
+    if (expected.roleDrafts) {
+        const drafts = run.tables.role_discovery_drafts ?? [];
+
+        for (const draft of expected.roleDrafts) {
+            const actual = drafts.find(row => row.url === draft.url);
+            const actualTitle = (actual?.scraped_data as { title?: string } | undefined)?.title;
+            if (!actual) {
+                mismatches.push(`roleDrafts: missing ${draft.url}`);
+            } else if (draft.title && actualTitle !== draft.title) {
+                mismatches.push(`roleDrafts: ${draft.url} title "${actualTitle}", expected "${draft.title}"`);
+            } else if (draft.update_type && actual.update_type !== draft.update_type) {
+                mismatches.push(`roleDrafts: ${draft.url} update_type ${actual.update_type}, expected ${draft.update_type}`);
+            }
+        }
+
+        if (drafts.length !== expected.roleDrafts.length) {
+            mismatches.push(`roleDrafts: ${drafts.length} drafts, expected ${expected.roleDrafts.length}`);
+        }
+    }
+
+    if (expected.programmeDrafts) {
+        const actualNames = (run.tables.programme_discovery_drafts ?? []).map(row => String(row.suggested_name)).sort();
+        const expectedNames = expected.programmeDrafts.map(draft => draft.suggested_name).sort();
+        if (JSON.stringify(actualNames) !== JSON.stringify(expectedNames)) {
+            mismatches.push(`programmeDrafts: ${JSON.stringify(actualNames)}, expected ${JSON.stringify(expectedNames)}`);
+        }
+    }
+
+    return mismatches;
+}
@@ -0,0 +1,420 @@
+/**
+ * In-Memory Supabase Double
+ *
+ * Implements the slice of the supabase-js query builder the scraping
+ * pipeline uses, over plain arrays of rows, so the replay harness can run
+ * the LIST/DETAIL phases without a database.
+ *
+ * Supported:
+ * - select: columns, "*", aliases (alias:col), JSON paths (col->key),
+ *   embeds (table(cols) / table!inner(cols)) and { count: 'exact', head: true }
+ * - filters: eq, neq, in, is, gt, gte, lt, lte, match - including embedded
+ *   columns ("programs.firm_id")
+ * - order, limit, single, maybeSingle
+ * - insert, update, upsert (onConflict), delete - each optionally followed by select()
+ *
+ * Embeds resolve by naming convention: a row's `<singular>_id` points at the
+ * embedded table's id (program_roles.program_id → programs), otherwise the
+ * embedded rows point back at this one (programs → program_roles.program_id).
+ */
+
+import { randomUUID } from 'crypto';
+
+export type Row = Record<string, unknown>;
+
+type SelectField =
+    | { kind: 'star' }
+    | { kind: 'column'; name: string; alias: string; path: string[] }
+    | { kind: 'embed'; table: string; alias: string; inner: boolean; fields: SelectField[] };
+
+type Filter = (row: Row) => boolean;
+
+interface QueryResult {
+    data: any;
+    error: { message: string; code?: string } | null;
+    count: number | null;
+    status: number;
+}
+
+/**
+ * Split on commas that aren't inside parentheses
+ */
+function splitTopLevel(select: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let current = '';
+
+    for (const char of select) {
+        if (char === '(') depth++;
+        if (char === ')') depth--;
+        if (char === ',' && depth === 0) {
+            parts.push(current);
+            current = '';
+            continue;
+        }
+        current += char;
+    }
+
+    parts.push(current);
+    return parts.map(part => part.trim()).filter(Boolean);
+}
+
+function parseSelect(select: string): SelectField[] {
+    return splitTopLevel(select).map((token): SelectField => {
+        if (token === '*') {
+            return { kind: 'star' };
+        }
+
+        const embed = token.match(/^(?:(\w+):)?(\w+)(!inner)?\(([\s\S]*)\)$/);
+        if (embed) {
+            const [, alias, table, inner, inside] = embed;
+            return { kind: 'embed', table, alias: alias || table, inner: Boolean(inner), fields: parseSelect(inside) };
+        }
+
+        const column = token.match(/^(?:(\w+):)?(\w+)((?:->>?\w+)*)$/);
+        if (!column) {
+            throw new Error(`[memory-supabase] Unsupported select token "${token}"`);
+        }
+
+        const [, alias, name, pathText] = column;
+        const path = pathText.split(/->>?/).filter(Boolean);
+        return { kind: 'column', name, alias: alias || path[path.length - 1] || name, path };
+    });
+}
+
+function singular(table: string): string {
+    return table.endsWith('s') ? table.slice(0, -1) : table;
+}
+
+function readPath(value: unknown, path: string[]): unknown {
+    return path.reduce<unknown>((current, key) => (
+        current !== null && typeof current === 'object' ? (current as Row)[key] : undefined
+    ), value);
+}
+
+function clone<T>(value: T): T {
+    return value === undefined ? value : structuredClone(value);
+}
+
+/**
+ * Loose equality matching PostgREST text comparison ("1" eq 1, dates as strings)
+ */
+function valuesEqual(a: unknown, b: unknown): boolean {
+    if (a === b) return true;
+    if (a === null || a === undefined || b === null || b === undefined) return false;
+    return String(a) === String(b);
+}
+
+function compare(a: unknown, b: unknown): number {
+    if (typeof a === 'number' && typeof b === 'number') return a - b;
+    return String(a).localeCompare(String(b));
+}
+
+export class MemorySupabase {
+    readonly tables: Record<string, Row[]>;
+
+    constructor(seed: Record<string, Row[]> = {}) {
+        this.tables = clone(seed);
+    }
+
+    table(name: string): Row[] {
+        if (!this.tables[name]) {
+            this.tables[name] = [];
+        }
+        return this.tables[name];
+    }
+
+    from(table: string): MemoryQuery {
+        return new MemoryQuery(this, table);
+    }
+
+    /**
+     * Resolve an embedded table for a row (see header for the naming convention)
+     */
+    resolveEmbed(fromTable: string, row: Row, embedTable: string): Row | Row[] | null {
+        const foreignKey = row[`${singular(embedTable)}_id`];
+        if (foreignKey !== undefined) {
+            return this.table(embedTable).find(candidate => valuesEqual(candidate.id, foreignKey)) ?? null;
+        }
+
+        const backReference = `${singular(fromTable)}_id`;
+        return this.table(embedTable).filter(candidate => valuesEqual(candidate[backReference], row.id));
+    }
+}
+
+type Operation =
+    | { type: 'select' }
+    | { type: 'insert'; rows: Row[] }
+    | { type: 'update'; values: Row }
+    | { type: 'upsert'; rows: Row[]; onConflict: string[] }
+    | { type: 'delete' };
+
+export class MemoryQuery implements PromiseLike<QueryResult> {
+    private operation: Operation = { type: 'select' };
+    private fields: SelectField[] | null = null; // null = no select() (mutations return no data)
+    private filters: Array<{ column: string; test: Filter }> = [];
+    private orderings: Array<{ column: string; ascending: boolean; nullsFirst: boolean }> = [];
+    private rowLimit: number | null = null;
+    private countMode = false;
+    private headOnly = false;
+    private singleMode: 'single' | 'maybeSingle' | null = null;
+
+    constructor(private db: MemorySupabase, private tableName: string) {}
+
+    select(columns = '*', options: { count?: 'exact'; head?: boolean } = {}): this {
+        this.fields = parseSelect(columns);
+        this.countMode = options.count === 'exact';
+        this.headOnly = Boolean(options.head);
+        return this;
+    }
+
+    insert(values: Row | Row[]): this {
+        this.operation = { type: 'insert', rows: Array.isArray(values) ? values : [values] };
+        return this;
+    }
+
+    update(values: Row): this {
+        this.operation = { type: 'update', values };
+        return this;
+    }
+
+    upsert(values: Row | Row[], options: { onConflict?: string } = {}): this {
+        this.operation = {
+            type: 'upsert',
+            rows: Array.isArray(values) ? values : [values],
+            onConflict: (options.onConflict || 'id').split(',').map(column => column.trim()),
+        };
+        return this;
+    }
+
+    delete(): this {
+        this.operation = { type: 'delete' };
+        return this;
+    }
+
+    private addFilter(column: string, test: (value: unknown) => boolean): this {
+        this.filters.push({ column, test: row => test(this.readColumn(row, column)) });
+        return this;
+    }
+
+    eq(column: string, value: unknown): this {
+        return this.addFilter(column, actual => valuesEqual(actual, value));
+    }
+
+    neq(column: string, value: unknown): this {
+        return this.addFilter(column, actual => !valuesEqual(actual, value));
+    }
+
+    in(column: string, values: unknown[]): this {
+        return this.addFilter(column, actual => values.some(value => valuesEqual(actual, value)));
+    }
+
+    is(column: string, value: null | boolean): this {
+        return this.addFilter(column, actual => (value === null ? actual === null || actual === undefined : actual === value));
+    }
+
+    gt(column: string, value: unknown): this {
+        return this.addFilter(column, actual => actual != null && compare(actual, value) > 0);
+    }
+
+    gte(column: string, value: unknown): this {
+        return this.addFilter(column, actual => actual != null && compare(actual, value) >= 0);
+    }
+
+    lt(column: string, value: unknown): this {
+        return this.addFilter(column, actual => actual != null && compare(actual, value) < 0);
+    }
+
+    lte(column: string, value: unknown): this {
+        return this.addFilter(column, actual => actual != null && compare(actual, value) <= 0);
+    }
+
+    match(values: Row): this {
+        for (const [column, value] of Object.entries(values)) {
+            this.eq(column, value);
+        }
+        return this;
+    }
+
+    order(column: string, options: { ascending?: boolean; nullsFirst?: boolean } = {}): this {
+        const ascending = options.ascending ?? true;
+        this.orderings.push({ column, ascending, nullsFirst: options.nullsFirst ?? !ascending });
+        return this;
+    }
+
+    limit(count: number): this {
+        this.rowLimit = count;
+        return this;
+    }
+
+    single(): this {
+        this.singleMode = 'single';
+        return this;
+    }
+
+    maybeSingle(): this {
+        this.singleMode = 'maybeSingle';
+        return this;
+    }
+
+    then<TResult1 = QueryResult, TResult2 = never>(
+        onfulfilled?: ((value: QueryResult) => TResult1 | PromiseLike<TResult1>) | null,
+        onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | null
+    ): PromiseLike<TResult1 | TResult2> {
+        return Promise.resolve().then(() => this.execute()).then(onfulfilled, onrejected);
+    }
+
+    /**
+     * Read a column for filtering/ordering - "programs.firm_id" reads through the embed
+     */
+    private readColumn(row: Row, column: string): unknown {
+        const [head, ...rest] = column.split('.');
+        if (rest.length === 0) {
+            return row[head];
+        }
+
+        const embedded = this.db.resolveEmbed(this.tableName, row, head);
+        return Array.isArray(embedded)
+            ? embedded.map(item => readPath(item, rest)).find(value => value !== undefined)
+            : readPath(embedded, rest);
+    }
+
+    /**
+     * Inner embeds drop rows that have nothing to embed
+     */
+    private passesInnerEmbeds(row: Row): boolean {
+        return (this.fields ?? []).every(field => {
+            if (field.kind !== 'embed' || !field.inner) return true;
+            const embedded = this.db.resolveEmbed(this.tableName, row, field.table);
+            return Array.isArray(embedded) ? embedded.length > 0 : embedded !== null;
+        });
+    }
+
+    private project(row: Row, fields: SelectField[], tableName: string): Row {
+        const projected: Row = {};
+
+        for (const field of fields) {
+            if (field.kind === 'star') {
+                Object.assign(projected, clone(row));
+            } else if (field.kind === 'column') {
+                projected[field.alias] = clone(field.path.length > 0 ? readPath(row[field.name], field.path) : row[field.name]) ?? null;
+            } else {
+                const embedded = this.db.resolveEmbed(tableName, row, field.table);
+                projected[field.alias] = Array.isArray(embedded)
+                    ? embedded.map(item => this.project(item, field.fields, field.table))
+                    : embedded && this.project(embedded, field.fields, field.table);
+            }
+        }
+
+        return projected;
+    }
+
+    private matchingRows(): Row[] {
+        let rows = this.db.table(this.tableName).filter(row =>
+            this.filters.every(filter => filter.test(row)) && this.passesInnerEmbeds(row)
+        );
+
+        if (this.orderings.length > 0) {
+            rows = [...rows].sort((a, b) => {
+                for (const { column, ascending, nullsFirst } of this.orderings) {
+                    const left = this.readColumn(a, column);
+                    const right = this.readColumn(b, column);
+                    if (left == null || right == null) {
+                        if (left == null && right == null) continue;
+                        return (left == null) === nullsFirst ? -1 : 1;
+                    }
+                    const result = compare(left, right);
+                    if (result !== 0) return ascending ? result : -result;
+                }
+                return 0;
+            });
+        }
+
+        return this.rowLimit === null ? rows : rows.slice(0, this.rowLimit);
+    }
+
+    private applyMutation(): Row[] {
+        const table = this.db.table(this.tableName);
+        const now = new Date().toISOString();
+        const operation = this.operation;
+
+        switch (operation.type) {
+            case 'select':
+                return this.matchingRows();
+
+            case 'insert': {
+                const inserted = operation.rows.map(row => ({ id: randomUUID(), created_at: now, ...clone(row) }));
+                table.push(...inserted);
+                return inserted;
+            }
+
+            case 'update': {
+                const updated = this.matchingRows();
+                updated.forEach(row => Object.assign(row, clone(operation.values)));
+                return updated;
+            }
+
+            case 'upsert':
+                return operation.rows.map(values => {
+                    const existing = table.find(row => operation.onConflict.every(column => valuesEqual(row[column], values[column])));
+                    if (existing) {
+                        return Object.assign(existing, clone(values));
+                    }
+                    const inserted = { id: randomUUID(), created_at: now, ...clone(values) };
+                    table.push(inserted);
+                    return inserted;
+                });
+
+            case 'delete': {
+                const deleted = this.matchingRows();
+                this.db.tables[this.tableName] = table.filter(row => !deleted.includes(row));
+                return deleted;
+            }
+        }
+    }
+
+    private execute(): QueryResult {
+        const rows = this.applyMutation();
+        const count = this.countMode ? rows.length : null;
+
+        // Mutations only return rows when select() was chained
+        if (this.headOnly || (this.operation.type !== 'select' && this.fields === null)) {
+            return { data: null, error: null, count, status: 200 };
+        }
+
+        const data = rows.map(row => this.project(row, this.fields ?? [{ kind: 'star' }], this.tableName));
+
+        if (this.singleMode) {
+            if (data.length === 1) {
+                return { data: data[0], error: null, count, status: 200 };
+            }
+            if (data.length === 0 && this.singleMode === 'maybeSingle') {
+                return { data: null, error: null, count, status: 200 };
+            }
+            return {
+                data: null,
+                error: { message: `JSON object requested, multiple (or no) rows returned (${data.length})`, code: 'PGRST116' },
+                count,
+                status: 406,
+            };
+        }
+
+        return { data, error: null, count, status: 200 };
+    }
+}
+
+/**
+ * Make every createClient() call in the pipeline return the double.
+ * The pipeline creates its client inline per call, so the export is swapped
+ * on the shared CommonJS module. Returns a function that restores it.
+ */
+export function installMemorySupabase(db: MemorySupabase): () => void {
+    const supabaseModule = require('@supabase/supabase-js') as { createClient: unknown };
+    const originalCreateClient = supabaseModule.createClient;
+
+    supabaseModule.createClient = () => db;
+
+    return () => {
+        supabaseModule.createClient = originalCreateClient;
+    };
+}
@@ -0,0 +1,73 @@
+/**
+ * Mock LLM
+ *
+ * Deterministic stand-in for the provider calls behind generateStructured,
+ * driven by the responses recorded in a replay fixture:
+ *
+ * "llm": {
+ *   "link-classification": [{ "response": { "jobLinks": [...] } }],
+ *   "role-extraction": [
+ *     { "match": "https://acme.com/jobs/1", "response": { "title": "Graduate Analyst", ... } }
+ *   ],
+ *   "programme-suggestion": [{ "match": "Graduate Analyst", "response": { ... } }]
+ * }
+ *
+ * The first entry for the task whose `match` appears in the prompt (or that
+ * has no `match`) wins. Responses are validated against the call's schema,
+ * like generateObject does. No match is an error, which the pipeline handles
+ * exactly as it would a provider failure.
+ *
+ * Usage is estimated from text length (~4 chars/token) so cost tracking and
+ * budgets behave as they would live.
+ */
+
+import type { LlmTask, StructuredGenerator } from '../llm-registry';
+import { formatModelRef } from '../llm-registry';
+
+export interface MockLlmResponse {
+    match?: string; // Substring of the prompt this response applies to
+    response: unknown;
+}
+
+export type MockLlmFixtures = Partial<Record<LlmTask, MockLlmResponse[]>>;
+
+export interface MockLlmCall {
+    task: LlmTask;
+    model: string;
+    match: string | null; // null = default entry; undefined entry → error
+    error?: string;
+}
+
+function estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+}
+
+export class MockLlm {
+    readonly calls: MockLlmCall[] = [];
+
+    constructor(private fixtures: MockLlmFixtures = {}) {}
+
+    readonly generate: StructuredGenerator = async (ref, options) => {
+        const model = formatModelRef(ref);
+        const entry = (this.fixtures[options.task] ?? []).find(candidate =>
+            !candidate.match || options.prompt.includes(candidate.match)
+        );
+
+        if (!entry) {
+            const error = `[mock-llm] No ${options.task} response matches the prompt`;
+            this.calls.push({ task: options.task, model, match: null, error });
+            throw new Error(error);
+        }
+
+        this.calls.push({ task: options.task, model, match: entry.match ?? null });
+
+        const object = options.schema.parse(entry.response);
+        const inputTokens = estimateTokens(options.system + options.prompt);
+        const outputTokens = estimateTokens(JSON.stringify(object));
+
+        return {
+            object,
+            usage: { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens },
+        };
+    };
+}
@@ -0,0 +1,64 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { ScrapedRole } from '@/packages/schemas/careers-scraping';
+import { diffScrapedRole, isRefreshDue, type StoredRole } from './role-change-detector';
+
+function scrapedRole(overrides: Partial<ScrapedRole> = {}): ScrapedRole {
+    return {
+        title: 'Summer Analyst',
+        role_type: null,
+        suggested_new_role_type: null,
+        program_type: 'summer_internship',
+        location: null,
+        description: null,
+        opening_date: null,
+        deadline: null,
+        is_rolling: null,
+        is_open: null,
+        current_round: null,
+        process: null,
+        requirements: null,
+        cv_required: null,
+        cover_letter_required: null,
+        written_answers_required: null,
+        info_test_prep_url: null,
+        ...overrides,
+    };
+}
+
+function storedRole(fields: Record<string, unknown>): StoredRole {
+    return { id: 'role-1', program_id: 'programme-1', fields: { title: 'Summer Analyst', ...fields } };
+}
+
+test('reports changed fields under their program_roles column', () => {
+    const changes = diffScrapedRole(
+        storedRole({ deadline: '2026-01-10', current_round: null, rolling: false }),
+        scrapedRole({ deadline: '2026-01-24', current_round: 'Assessment centre', is_rolling: true })
+    );
+
+    assert.deepEqual(changes, [
+        { field: 'deadline', previous: '2026-01-10', current: '2026-01-24' },
+        { field: 'rolling', previous: false, current: true },
+        { field: 'current_round', previous: null, current: 'Assessment centre' },
+    ]);
+});
+
+test('a null extraction is "not on the page", never a change', () => {
+    assert.deepEqual(diffScrapedRole(storedRole({ deadline: '2026-01-10', location: 'London' }), scrapedRole()), []);
+});
+
+test('ignores case, whitespace and the time part of dates', () => {
+    const changes = diffScrapedRole(
+        storedRole({ location: 'London', deadline: '2026-01-10T00:00:00+00:00', process: ['Online test', 'Interview'] }),
+        scrapedRole({ location: '  london ', deadline: '2026-01-10', process: ['online test', 'interview '] })
+    );
+
+    assert.deepEqual(changes, []);
+});
+
+test('isRefreshDue', () => {
+    const now = new Date('2026-03-10T12:00:00Z');
+    assert.equal(isRefreshDue(null, 168, now), true);
+    assert.equal(isRefreshDue('2026-03-02T12:00:00Z', 168, now), true);
+    assert.equal(isRefreshDue('2026-03-05T12:00:00Z', 168, now), false);
+});
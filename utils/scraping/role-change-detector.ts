@@ -0,0 +1,140 @@
+/**
+ * Role Change Detector
+ *
+ * Refresh mode for already-tracked roles. classifyRoleAction returns SKIP for
+ * any open role whose URL is known, so deadline / round / status changes on
+ * the detail page are never seen. When scraper_config.refresh is set, the LIST
+ * phase re-queues due SKIP roles as UPDATED, and the DETAIL phase diffs the
+ * fresh extraction against the stored program_roles fields here.
+ *
+ * Only fields the extractor actually found are compared - a null from the LLM
+ * means "not on the page", not "cleared", so it never produces a change.
+ *
+ * Relies on program_roles.last_refreshed_at (timestamptz, nullable).
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import type { ScrapedRole, RoleFieldChange } from '@/packages/schemas/careers-scraping';
+
+/**
+ * ScrapedRole fields that are compared, and the program_roles column each maps to
+ * (mirrors the roleData mapping in approveRoleDraft)
+ */
+export const REFRESHABLE_FIELDS: Array<{ scraped: keyof ScrapedRole; column: string }> = [
+    { scraped: 'title', column: 'title' },
+    { scraped: 'location', column: 'location' },
+    { scraped: 'opening_date', column: 'opening_date' },
+    { scraped: 'deadline', column: 'deadline' },
+    { scraped: 'is_rolling', column: 'rolling' },
+    { scraped: 'is_open', column: 'is_open' },
+    { scraped: 'current_round', column: 'current_round' },
+    { scraped: 'process', column: 'process' },
+    { scraped: 'cv_required', column: 'cv_required' },
+    { scraped: 'cover_letter_required', column: 'cover_letter_required' },
+    { scraped: 'written_answers_required', column: 'written_answers_required' },
+    { scraped: 'info_test_prep_url', column: 'info_test_prep_url' },
+];
+
+export interface StoredRole {
+    id: string;
+    program_id: string;
+    fields: Record<string, unknown>; // Keyed by program_roles column
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Check whether a tracked role is due for a refresh
+ */
+export function isRefreshDue(lastRefreshedAt: string | null, intervalHours: number, now: Date = new Date()): boolean {
+    if (!lastRefreshedAt) return true;
+    return now.getTime() - new Date(lastRefreshedAt).getTime() >= intervalHours * HOUR_MS;
+}
+
+/**
+ * Normalise a value for comparison (trim/case-fold strings, strip time from dates)
+ */
+function normalizeValue(value: unknown): string {
+    if (typeof value === 'string') {
+        const trimmed = value.trim();
+        // Dates are stored as date or timestamptz - compare the date part only
+        const dateMatch = trimmed.match(/^(\d{4}-\d{2}-\d{2})(T|\s|$)/);
+        return dateMatch ? dateMatch[1] : trimmed.toLowerCase();
+    }
+    if (Array.isArray(value)) {
+        return JSON.stringify(value.map(item => (typeof item === 'string' ? item.trim().toLowerCase() : item)));
+    }
+    return JSON.stringify(value ?? null);
+}
+
+/**
+ * Diff a fresh extraction against the stored role
+ *
+ * @example
+ * diffScrapedRole({ fields: { deadline: '2026-01-10', current_round: null, ... } }, { deadline: '2026-01-24', current_round: 'Assessment centre', ... })
+ * // => [{ field: 'deadline', previous: '2026-01-10', current: '2026-01-24' },
+ * //     { field: 'current_round', previous: null, current: 'Assessment centre' }]
+ */
+export function diffScrapedRole(stored: StoredRole, scraped: ScrapedRole): RoleFieldChange[] {
+    const changes: RoleFieldChange[] = [];
+
+    for (const { scraped: key, column } of REFRESHABLE_FIELDS) {
+        const current = scraped[key];
+        if (current === null || current === undefined) continue;
+
+        const previous = stored.fields[column] ?? null;
+        if (normalizeValue(previous) !== normalizeValue(current)) {
+            changes.push({ field: column, previous, current });
+        }
+    }
+
+    return changes;
+}
+
+/**
+ * Load the stored fields for a tracked role
+ */
+export async function loadStoredRole(programRoleId: string): Promise<StoredRole | null> {
+    const supabase = createClient(
+        process.env.NEXT_PUBLIC_SUPABASE_URL!,
+        process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+
+    const columns = REFRESHABLE_FIELDS.map(f => f.column).join(', ');
+    const { data, error } = await supabase
+        .from('program_roles')
+        .select(`id, program_id, ${columns}`)
+        .eq('id', programRoleId)
+        .maybeSingle();
+
+    if (error || !data) {
+        console.error(`Error loading program_role ${programRoleId} for refresh:`, error);
+        return null;
+    }
+
+    const row = data as unknown as Record<string, unknown>;
+    return {
+        id: row.id as string,
+        program_id: row.program_id as string,
+        fields: row,
+    };
+}
+
+/**
+ * Record that a role was refreshed (whether or not anything changed) so it isn't re-extracted until due
+ */
+export async function markRoleRefreshed(programRoleId: string): Promise<void> {
+    const supabase = createClient(
+        process.env.NEXT_PUBLIC_SUPABASE_URL!,
+        process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+
+    const { error } = await supabase
+        .from('program_roles')
+        .update({ last_refreshed_at: new Date().toISOString() })
+        .eq('id', programRoleId);
+
+    if (error) {
+        console.error(`Error marking program_role ${programRoleId} as refreshed:`, error);
+    }
+}
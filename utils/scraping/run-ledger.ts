@@ -0,0 +1,206 @@
+/**
+ * Scrape Run Ledger
+ *
+ * Persistent audit trail for discovery runs. Unlike scrape_urls.runs_history
+ * (capped JSON array of metrics), the ledger keeps every run and every detail
+ * URL it touched, including the logs, so we can answer "why was / wasn't this
+ * role drafted?" weeks after the fact.
+ *
+ * Tables:
+ * - scrape_runs: one row per discovery-flow attempt
+ *   (id, scrape_url_id, firm_id, trigger_run_id, attempt, status, started_at,
+ *    finished_at, budget_usd, metrics, error, logs)
+ *   budget_usd is the LLM spend the run reserved (see resolveRunBudget) - counted
+ *   as its spend by the budget guard while the run is in flight
+ * - scrape_run_items: one row per detail URL extracted in a run
+ *   (id, scrape_run_id, url, title, action, existing_role_id, outcome, error,
+ *    tokens_used, cost_usd, duration_seconds, cache_hit, programme_draft_id, role_draft_id, logs)
+ *
+ * Runs that recorded metrics.llm_usage can be re-priced after the pricing
+ * table changes (repriceScrapeRun).
+ *
+ * Ledger writes are best-effort: a failure is logged, never thrown, so
+ * bookkeeping can't take down a scrape.
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import type { ScrapeMetrics } from '@/packages/schemas/careers-scraping';
+import { repriceUsage } from './cost-calculator';
+import type { CollectedLink } from './list-phase';
+import type { DetailPhaseResult } from './detail-phase';
+
+export type ScrapeRunStatus = 'running' | 'succeeded' | 'failed';
+export type ScrapeRunItemOutcome = 'drafted' | 'unchanged' | 'failed' | 'budget_exceeded';
+
+/**
+ * Open a ledger entry at the start of a discovery run
+ */
+export async function createScrapeRun(data: {
+    scrapeUrlId: string;
+    firmId: string;
+    triggerRunId?: string | null;
+    attempt?: number | null;
+    budgetUsd?: number | null;
+}): Promise<{ id: string } | null> {
+    const supabase = createClient(
+        process.env.NEXT_PUBLIC_SUPABASE_URL!,
+        process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+
+    const { data: inserted, error } = await supabase
+        .from('scrape_runs')
+        .insert({
+            scrape_url_id: data.scrapeUrlId,
+            firm_id: data.firmId,
+            trigger_run_id: data.triggerRunId ?? null,
+            attempt: data.attempt ?? null,
+            budget_usd: data.budgetUsd ?? null,
+            status: 'running' as ScrapeRunStatus,
+            started_at: new Date().toISOString(),
+        })
+        .select('id')
+        .single();
+
+    if (error) {
+        console.error('Error creating scrape run:', error);
+        return null;
+    }
+
+    return inserted;
+}
+
+/**
+ * Close a ledger entry with the final status, metrics and logs
+ */
+export async function completeScrapeRun(data: {
+    scrapeRunId: string;
+    status: Exclude<ScrapeRunStatus, 'running'>;
+    metrics?: ScrapeMetrics | null;
+    error?: string | null;
+    logs: string[];
+}): Promise<void> {
+    const supabase = createClient(
+        process.env.NEXT_PUBLIC_SUPABASE_URL!,
+        process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+
+    const { error } = await supabase
+        .from('scrape_runs')
+        .update({
+            status: data.status,
+            finished_at: new Date().toISOString(),
+            metrics: data.metrics ?? null,
+            error: data.error ?? null,
+            logs: data.logs,
+        })
+        .eq('id', data.scrapeRunId);
+
+    if (error) {
+        console.error('Error completing scrape run:', error);
+    }
+}
+
+/**
+ * Record one ledger item per detail URL processed in a run
+ *
+ * Links are matched to results by URL so each row carries the LIST phase
+ * action alongside the DETAIL phase outcome.
+ */
+export async function saveScrapeRunItems(data: {
+    scrapeRunId: string;
+    collectedLinks: CollectedLink[];
+    detailResults: DetailPhaseResult[];
+}): Promise<void> {
+    if (data.detailResults.length === 0) {
+        return;
+    }
+
+    const supabase = createClient(
+        process.env.NEXT_PUBLIC_SUPABASE_URL!,
+        process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+
+    const linksByUrl = new Map(data.collectedLinks.map(link => [link.url, link]));
+
+    const items = data.detailResults.map(result => {
+        const link = linksByUrl.get(result.url);
+        const outcome: ScrapeRunItemOutcome = !result.success
+            ? (result.stopReason === 'budget_exceeded' ? 'budget_exceeded' : 'failed')
+            : result.roleDraftId ? 'drafted' : 'unchanged'; // Refreshes with no changes create no draft
+
+        return {
+            scrape_run_id: data.scrapeRunId,
+            url: result.url,
+            title: result.title ?? link?.title ?? null,
+            action: link?.action ?? null,
+            existing_role_id: link?.existingRoleId ?? null,
+            outcome,
+            error: result.error ?? null,
+            tokens_used: result.metrics.totalTokensUsed,
+            cost_usd: result.metrics.totalCostUsd,
+            duration_seconds: result.metrics.durationSeconds,
+            cache_hit: (result.metrics.cacheHits ?? 0) > 0,
+            programme_draft_id: result.programmeDraftId ?? null,
+            role_draft_id: result.roleDraftId ?? null,
+            logs: result.logs,
+        };
+    });
+
+    const { error } = await supabase
+        .from('scrape_run_items')
+        .insert(items);
+
+    if (error) {
+        console.error('Error saving scrape run items:', error);
+    }
+}
+
+/**
+ * Recompute a run's LLM cost from its stored usage with the current pricing table
+ *
+ * Pricing is looked up as of the run's started_at unless `at` is given, so
+ * correcting a historical rate and re-pricing reproduces what the run cost.
+ * Returns the new total, or null if the run has no per-model usage to price.
+ */
+export async function repriceScrapeRun(scrapeRunId: string, at?: Date): Promise<{ totalCostUsd: number; unpricedModels: string[] } | null> {
+    const supabase = createClient(
+        process.env.NEXT_PUBLIC_SUPABASE_URL!,
+        process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+
+    const { data: run, error } = await supabase
+        .from('scrape_runs')
+        .select('id, started_at, metrics')
+        .eq('id', scrapeRunId)
+        .maybeSingle();
+
+    if (error || !run) {
+        console.error(`Error loading scrape run ${scrapeRunId} for re-pricing:`, error);
+        return null;
+    }
+
+    const metrics = run.metrics as ScrapeMetrics | null;
+    if (!metrics?.llm_usage || metrics.llm_usage.length === 0) {
+        return null;
+    }
+
+    const llmUsage = repriceUsage(metrics.llm_usage, at ?? new Date(run.started_at));
+    const repriced: ScrapeMetrics = {
+        ...metrics,
+        llm_usage: llmUsage,
+        total_cost_usd: llmUsage.reduce((sum, entry) => sum + (entry.cost_usd ?? 0), 0),
+        unpriced_models: llmUsage.filter(entry => entry.cost_usd === null).map(entry => entry.model),
+    };
+
+    const { error: updateError } = await supabase
+        .from('scrape_runs')
+        .update({ metrics: repriced })
+        .eq('id', scrapeRunId);
+
+    if (updateError) {
+        console.error(`Error saving re-priced metrics for scrape run ${scrapeRunId}:`, updateError);
+        return null;
+    }
+
+    return { totalCostUsd: repriced.total_cost_usd, unpricedModels: repriced.unpriced_models ?? [] };
+}
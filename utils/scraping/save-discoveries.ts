@@ -13,13 +13,12 @@ import type {
 import type {
     ScrapedRole,
     ProgrammeSuggestion,
-    RoleAction
+    RoleAction,
+    RoleFieldChange,
+    ScrapeMetrics
 } from '@/packages/schemas/careers-scraping';
 
-/**
- * Save a programme discovery draft
- */
-export async function saveProgrammeDiscoveryDraft(data: {
+interface ProgrammeDraftData {
     firmId: string;
     sourceUrlId: string;
     suggestedName: string;
@@ -29,7 +28,61 @@ export async function saveProgrammeDiscoveryDraft(data: {
     matchedProgramId?: string | null;
     rolesPreview: ScrapedRole[];
     reasoning: string;
-}): Promise<{ id: string } | null> {
+}
+
+interface RoleDraftData {
+    firmId: string;
+    scrapedRole: ScrapedRole;
+    programmeSuggestion: ProgrammeSuggestion;
+    url: string;
+    updateType: RoleAction;
+    existingRoleId?: string | null;
+    programmeDraftId?: string | null;
+    changedFields?: RoleFieldChange[] | null; // UPDATED only - the fields approval will write
+}
+
+/**
+ * The programme draft row saveProgrammeDiscoveryDraft inserts (no DB access)
+ */
+export function buildProgrammeDiscoveryDraft(data: ProgrammeDraftData): ProgrammeDiscoveryDraftInsert {
+    return {
+        firm_id: data.firmId,
+        source_url_id: data.sourceUrlId === 'manual-test' ? null : data.sourceUrlId,
+        suggested_name: data.suggestedName,
+        normalized_name: data.normalizedName,
+        program_type: data.programType,
+        confidence: data.confidence,
+        matched_existing_program_id: data.matchedProgramId,
+        roles_preview: data.rolesPreview as any,
+        reasoning: data.reasoning,
+        status: 'pending',
+        source: 'careers-scraper',
+    };
+}
+
+/**
+ * The role draft row saveRoleDiscoveryDraft inserts (no DB access)
+ */
+export function buildRoleDiscoveryDraft(data: RoleDraftData): RoleDiscoveryDraftInsert {
+    return {
+        firm_id: data.firmId,
+        programme_discovery_draft_id: data.programmeDraftId,
+        program_id: data.programmeSuggestion.matched_program_id,
+        existing_role_id: data.existingRoleId, // Use program_role id directly
+        update_type: data.updateType === 'SKIP' ? null : data.updateType,
+        scraped_data: data.scrapedRole as any,
+        changed_fields: (data.changedFields ?? null) as any,
+        url: data.url,
+        confidence: data.programmeSuggestion.confidence,
+        status: 'pending' as const,
+        source: 'careers-scraper' as const,
+    };
+}
+
+/**
+ * Save a programme discovery draft
+ */
+export async function saveProgrammeDiscoveryDraft(data: ProgrammeDraftData): Promise<{ id: string } | null> {
     const supabase = createClient(
         process.env.NEXT_PUBLIC_SUPABASE_URL!,
         process.env.SUPABASE_SERVICE_ROLE_KEY!
@@ -48,23 +101,9 @@ export async function saveProgrammeDiscoveryDraft(data: {
         return existingDraft;
     }
 
-    const draft: ProgrammeDiscoveryDraftInsert = {
-        firm_id: data.firmId,
-        source_url_id: data.sourceUrlId === 'manual-test' ? null : data.sourceUrlId,
-        suggested_name: data.suggestedName,
-        normalized_name: data.normalizedName,
-        program_type: data.programType,
-        confidence: data.confidence,
-        matched_existing_program_id: data.matchedProgramId,
-        roles_preview: data.rolesPreview as any,
-        reasoning: data.reasoning,
-        status: 'pending',
-        source: 'careers-scraper',
-    };
-
     const { data: inserted, error } = await supabase
         .from('programme_discovery_drafts')
-        .insert(draft)
+        .insert(buildProgrammeDiscoveryDraft(data))
         .select('id')
         .single();
 
@@ -80,17 +119,9 @@ export async function saveProgrammeDiscoveryDraft(data: {
  * Save a role discovery draft with smart deduplication
  *
  * If an existing draft is found for the same role, it will be updated to pending
- * with fresh data. This handles REOPENING, URL_CHANGED, and NEW_ROLE cases.
+ * with fresh data. This handles REOPENING, URL_CHANGED, CLOSED, UPDATED, and NEW_ROLE cases.
  */
-export async function saveRoleDiscoveryDraft(data: {
-    firmId: string;
-    scrapedRole: ScrapedRole;
-    programmeSuggestion: ProgrammeSuggestion;
-    url: string;
-    updateType: RoleAction;
-    existingRoleId?: string | null;
-    programmeDraftId?: string | null;
-}): Promise<{ id: string } | null> {
+export async function saveRoleDiscoveryDraft(data: RoleDraftData): Promise<{ id: string } | null> {
     const supabase = createClient(
         process.env.NEXT_PUBLIC_SUPABASE_URL!,
         process.env.SUPABASE_SERVICE_ROLE_KEY!
@@ -100,7 +131,7 @@ export async function saveRoleDiscoveryDraft(data: {
     let existingDraft = null;
 
     if (data.existingRoleId) {
-        // For REOPENING and URL_CHANGED: Find by existing_role_id (program_role id)
+        // For REOPENING, URL_CHANGED, CLOSED and UPDATED: Find by existing_role_id (program_role id)
         const { data: found } = await supabase
             .from('role_discovery_drafts')
             .select('id, status')
@@ -125,19 +156,6 @@ export async function saveRoleDiscoveryDraft(data: {
         existingDraft = found;
     }
 
-    const draftData = {
-        firm_id: data.firmId,
-        programme_discovery_draft_id: data.programmeDraftId,
-        program_id: data.programmeSuggestion.matched_program_id,
-        existing_role_id: data.existingRoleId, // Use program_role id directly
-        update_type: data.updateType === 'SKIP' ? null : data.updateType,
-        scraped_data: data.scrapedRole as any,
-        url: data.url,
-        confidence: data.programmeSuggestion.confidence,
-        status: 'pending' as const,
-        source: 'careers-scraper' as const,
-    };
-
     // Step 2: Handle existing drafts
     if (existingDraft) {
         // Skip if draft is already pending (under review)
@@ -155,7 +173,7 @@ export async function saveRoleDiscoveryDraft(data: {
     // Create new draft (either no existing draft, or existing was approved/dismissed)
     const { data: inserted, error } = await supabase
         .from('role_discovery_drafts')
-        .insert(draftData)
+        .insert(buildRoleDiscoveryDraft(data))
         .select('id')
         .single();
 
@@ -167,12 +185,126 @@ export async function saveRoleDiscoveryDraft(data: {
     return inserted;
 }
 
+interface ClosedRoleDraftData {
+    firmId: string;
+    existingRoleId: string;
+    programId: string;
+    title: string;
+    url: string;
+    missedRuns: number;
+}
+
 /**
- * Save a complete discovery (programme + role) in a transaction
+ * Save a CLOSED role discovery draft for a role that has disappeared from its listing
  *
- * This is the main function called by the scraper for each discovered role.
+ * Closures go through the same review queue as every other change: the draft
+ * points at the existing program_role and carries a minimal scraped_data
+ * payload (title + is_open=false) for the admin UI.
  */
-export async function saveDiscovery(data: {
+export async function saveClosedRoleDraft(data: ClosedRoleDraftData): Promise<{ id: string } | null> {
+    return saveRoleDiscoveryDraft(closedRoleDraftData(data));
+}
+
+/**
+ * The CLOSED draft row saveClosedRoleDraft inserts (no DB access) - for dry runs
+ */
+export function buildClosedRoleDraft(data: ClosedRoleDraftData): RoleDiscoveryDraftInsert {
+    return buildRoleDiscoveryDraft(closedRoleDraftData(data));
+}
+
+function closedRoleDraftData(data: ClosedRoleDraftData): RoleDraftData {
+    const scrapedRole: ScrapedRole = {
+        title: data.title,
+        role_type: null,
+        suggested_new_role_type: null,
+        program_type: null,
+        location: null,
+        description: `No longer listed after ${data.missedRuns} consecutive scans`,
+        opening_date: null,
+        deadline: null,
+        is_rolling: null,
+        is_open: false,
+        current_round: null,
+        process: null,
+        requirements: null,
+        cv_required: null,
+        cover_letter_required: null,
+        written_answers_required: null,
+        info_test_prep_url: null,
+    };
+
+    // The role already belongs to a programme, so the "suggestion" is just that match
+    const programmeSuggestion: ProgrammeSuggestion = {
+        matched_program_id: data.programId,
+        suggested_name: null,
+        normalized_name: null,
+        program_type: null,
+        confidence: 'medium',
+        reasoning: `Role missing from listing for ${data.missedRuns} consecutive scans`,
+        is_new: false,
+    };
+
+    return {
+        firmId: data.firmId,
+        scrapedRole,
+        programmeSuggestion,
+        url: data.url,
+        updateType: 'CLOSED',
+        existingRoleId: data.existingRoleId,
+    };
+}
+
+interface UpdatedRoleDraftData {
+    firmId: string;
+    existingRoleId: string;
+    programId: string;
+    scrapedRole: ScrapedRole;
+    url: string;
+    changes: RoleFieldChange[];
+}
+
+/**
+ * Save an UPDATED role discovery draft for a tracked role whose detail page changed
+ *
+ * scraped_data carries the full fresh extraction for context; changed_fields
+ * lists only the fields that differ from program_roles, and approval writes
+ * just those.
+ */
+export async function saveUpdatedRoleDraft(data: UpdatedRoleDraftData): Promise<{ id: string } | null> {
+    return saveRoleDiscoveryDraft(updatedRoleDraftData(data));
+}
+
+/**
+ * The UPDATED draft row saveUpdatedRoleDraft inserts (no DB access) - for dry runs
+ */
+export function buildUpdatedRoleDraft(data: UpdatedRoleDraftData): RoleDiscoveryDraftInsert {
+    return buildRoleDiscoveryDraft(updatedRoleDraftData(data));
+}
+
+function updatedRoleDraftData(data: UpdatedRoleDraftData): RoleDraftData {
+    // The role already belongs to a programme, so the "suggestion" is just that match
+    const programmeSuggestion: ProgrammeSuggestion = {
+        matched_program_id: data.programId,
+        suggested_name: null,
+        normalized_name: null,
+        program_type: null,
+        confidence: 'high',
+        reasoning: `Changed on refresh: ${data.changes.map(change => change.field).join(', ')}`,
+        is_new: false,
+    };
+
+    return {
+        firmId: data.firmId,
+        scrapedRole: data.scrapedRole,
+        programmeSuggestion,
+        url: data.url,
+        updateType: 'UPDATED',
+        existingRoleId: data.existingRoleId,
+        changedFields: data.changes,
+    };
+}
+
+interface DiscoveryData {
     firmId: string;
     sourceUrlId: string;
     scrapedRole: ScrapedRole;
@@ -180,7 +312,69 @@ export async function saveDiscovery(data: {
     url: string;
     updateType: RoleAction;
     existingRoleId?: string | null;
-}): Promise<{
+}
+
+/**
+ * The drafts a discovery would create - what a dry run reports instead of saving
+ */
+export interface DiscoveryDrafts {
+    programme: ProgrammeDiscoveryDraftInsert | null; // Only when the suggestion is a new programme
+    role: RoleDiscoveryDraftInsert;
+}
+
+/**
+ * New-programme draft data for a discovery, or null when it matched an existing programme
+ */
+function discoveryProgrammeDraftData(data: DiscoveryData): ProgrammeDraftData | null {
+    if (!data.programmeSuggestion.is_new || !data.programmeSuggestion.suggested_name) {
+        return null;
+    }
+
+    return {
+        firmId: data.firmId,
+        sourceUrlId: data.sourceUrlId,
+        suggestedName: data.programmeSuggestion.suggested_name,
+        normalizedName: data.programmeSuggestion.normalized_name || data.programmeSuggestion.suggested_name.toLowerCase(),
+        programType: data.programmeSuggestion.program_type || 'summer_internship',
+        confidence: data.programmeSuggestion.confidence,
+        matchedProgramId: null,
+        rolesPreview: [data.scrapedRole],
+        reasoning: data.programmeSuggestion.reasoning,
+    };
+}
+
+/**
+ * Build the drafts saveDiscovery would insert, without touching the DB.
+ * Returns null for SKIP. The role draft has no programme_discovery_draft_id
+ * (that ID only exists once the programme draft is saved), and pending-draft
+ * dedup isn't applied - a real run may reuse an existing draft instead.
+ */
+export function buildDiscoveryDrafts(data: DiscoveryData): DiscoveryDrafts | null {
+    if (data.updateType === 'SKIP') {
+        return null;
+    }
+
+    const programmeDraftData = discoveryProgrammeDraftData(data);
+
+    return {
+        programme: programmeDraftData ? buildProgrammeDiscoveryDraft(programmeDraftData) : null,
+        role: buildRoleDiscoveryDraft({
+            firmId: data.firmId,
+            scrapedRole: data.scrapedRole,
+            programmeSuggestion: data.programmeSuggestion,
+            url: data.url,
+            updateType: data.updateType,
+            existingRoleId: data.existingRoleId,
+        }),
+    };
+}
+
+/**
+ * Save a complete discovery (programme + role) in a transaction
+ *
+ * This is the main function called by the scraper for each discovered role.
+ */
+export async function saveDiscovery(data: DiscoveryData): Promise<{
     programmeDraftId?: string;
     roleDraftId?: string;
 } | null> {
@@ -192,18 +386,9 @@ export async function saveDiscovery(data: {
     let programmeDraftId: string | undefined;
 
     // Step 1: If programme is new, create programme draft first
-    if (data.programmeSuggestion.is_new && data.programmeSuggestion.suggested_name) {
-        const programmeDraft = await saveProgrammeDiscoveryDraft({
-            firmId: data.firmId,
-            sourceUrlId: data.sourceUrlId,
-            suggestedName: data.programmeSuggestion.suggested_name,
-            normalizedName: data.programmeSuggestion.normalized_name || data.programmeSuggestion.suggested_name.toLowerCase(),
-            programType: data.programmeSuggestion.program_type || 'summer_internship',
-            confidence: data.programmeSuggestion.confidence,
-            matchedProgramId: null,
-            rolesPreview: [data.scrapedRole],
-            reasoning: data.programmeSuggestion.reasoning,
-        });
+    const programmeDraftData = discoveryProgrammeDraftData(data);
+    if (programmeDraftData) {
+        const programmeDraft = await saveProgrammeDiscoveryDraft(programmeDraftData);
 
         if (!programmeDraft) {
             console.error('Failed to create programme draft');
@@ -240,16 +425,7 @@ export async function saveDiscovery(data: {
  */
 export async function updateScrapeUrlMetrics(data: {
     scrapeUrlId: string;
-    metrics: {
-        roles_found: number;
-        roles_skipped: number;
-        roles_new: number;
-        roles_url_changed: number;
-        roles_reopened: number;
-        total_tokens_used: number;
-        total_cost_usd: number;
-        duration_seconds: number;
-    };
+    metrics: ScrapeMetrics;
     error?: string | null;
 }): Promise<void> {
     const supabase = createClient(
@@ -260,7 +436,7 @@ export async function updateScrapeUrlMetrics(data: {
     // First, fetch current scrape URL to append to runs_history
     const { data: currentScrapeUrl, error: fetchError } = await supabase
         .from('scrape_urls')
-        .select('runs_history, metrics, last_scraped_at')
+        .select('runs_history, metrics, last_scraped_at, error_count')
         .eq('id', data.scrapeUrlId)
         .single();
 
@@ -288,7 +464,7 @@ export async function updateScrapeUrlMetrics(data: {
 
     if (data.error) {
         update.last_error = data.error;
-        update.error_count = { increment: 1 }; // Increment error count
+        update.error_count = (currentScrapeUrl?.error_count ?? 0) + 1; // Drives the scheduler's backoff
         update.status = 'failed';
     } else {
         update.error_count = 0; // Reset error count on success
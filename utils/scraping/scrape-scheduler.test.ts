@@ -0,0 +1,60 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+    MAX_BACKOFF_HOURS,
+    getScrapeDelayHours,
+    getScheduleSlotKey,
+    isScrapeUrlDue,
+    parseScheduleConfig,
+    type SchedulableScrapeUrl,
+} from './scrape-scheduler';
+
+const NOW = new Date('2026-03-10T12:00:00Z');
+
+function scrapeUrl(overrides: Partial<SchedulableScrapeUrl> = {}): SchedulableScrapeUrl {
+    return {
+        id: 'url-1',
+        status: 'active',
+        last_scraped_at: '2026-03-09T12:00:00Z',
+        error_count: 0,
+        scraper_config: parseScheduleConfig({}),
+        ...overrides,
+    };
+}
+
+function hoursAgo(hours: number): string {
+    return new Date(NOW.getTime() - hours * 60 * 60 * 1000).toISOString();
+}
+
+test('healthy URLs wait one interval', () => {
+    assert.equal(getScrapeDelayHours(scrapeUrl()), 24);
+    assert.equal(getScrapeDelayHours(scrapeUrl({ scraper_config: parseScheduleConfig({ scrapeIntervalHours: 6 }) })), 6);
+});
+
+test('failed URLs back off exponentially, capped', () => {
+    assert.equal(getScrapeDelayHours(scrapeUrl({ status: 'failed', error_count: 1 })), 24);
+    assert.equal(getScrapeDelayHours(scrapeUrl({ status: 'failed', error_count: 3 })), 96);
+    assert.equal(getScrapeDelayHours(scrapeUrl({ status: 'failed', error_count: 20 })), MAX_BACKOFF_HOURS);
+});
+
+test('an invalid scraper_config falls back to the default cadence', () => {
+    assert.equal(parseScheduleConfig({ scrapeIntervalHours: -1 }).scrapeIntervalHours, 24);
+    assert.equal(parseScheduleConfig({ maxPage: 3 }).scrapeIntervalHours, 24);
+    assert.equal(parseScheduleConfig(null).scrapeIntervalHours, 24);
+});
+
+test('isScrapeUrlDue', () => {
+    assert.equal(isScrapeUrlDue(scrapeUrl({ last_scraped_at: null }), NOW), true, 'never scraped');
+    assert.equal(isScrapeUrlDue(scrapeUrl({ last_scraped_at: hoursAgo(25) }), NOW), true, 'interval elapsed');
+    assert.equal(isScrapeUrlDue(scrapeUrl({ last_scraped_at: hoursAgo(23) }), NOW), false, 'interval not elapsed');
+    assert.equal(isScrapeUrlDue(scrapeUrl({ status: 'paused', last_scraped_at: null }), NOW), false, 'paused');
+    assert.equal(isScrapeUrlDue(scrapeUrl({ status: 'failed', error_count: 3, last_scraped_at: hoursAgo(50) }), NOW), false, 'backing off');
+    assert.equal(isScrapeUrlDue(scrapeUrl({ status: 'failed', error_count: 3, last_scraped_at: hoursAgo(97) }), NOW), true, 'backoff elapsed');
+});
+
+test('the schedule slot only moves when a run records last_scraped_at', () => {
+    const inFlight = scrapeUrl({ last_scraped_at: hoursAgo(30) });
+    assert.equal(getScheduleSlotKey(inFlight), getScheduleSlotKey({ ...inFlight }));
+    assert.notEqual(getScheduleSlotKey(inFlight), getScheduleSlotKey(scrapeUrl({ last_scraped_at: hoursAgo(1) })));
+    assert.equal(getScheduleSlotKey(scrapeUrl({ last_scraped_at: null })), 'first-run');
+});
@@ -0,0 +1,148 @@
+/**
+ * Scrape Scheduler
+ *
+ * Decides which scrape_urls are due for a discovery run.
+ *
+ * A URL is due when:
+ * - Its status is schedulable (active, or failed and waiting to retry)
+ * - It has never been scraped, OR its cadence has elapsed since last_scraped_at
+ *
+ * Failing URLs back off exponentially: each consecutive error doubles the
+ * wait (capped), so a broken careers page doesn't burn a browser every tick.
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import { ScraperConfigSchema, DEFAULT_SCRAPER_CONFIG, type ScraperConfig } from '@/packages/schemas/careers-scraping';
+
+/**
+ * Upper bound for the failure backoff (one week)
+ */
+export const MAX_BACKOFF_HOURS = 24 * 7;
+
+/**
+ * Statuses that are picked up by the scheduler. Anything else (e.g. paused) is ignored.
+ */
+export const SCHEDULABLE_STATUSES = ['active', 'failed'] as const;
+
+export type SchedulableStatus = typeof SCHEDULABLE_STATUSES[number];
+
+/**
+ * The scrape_urls columns the scheduler reads - scraper_config is raw JSON until parsed
+ */
+interface ScrapeUrlScheduleRow {
+    id: string;
+    status: string | null;
+    last_scraped_at: string | null;
+    error_count: number | null;
+    scraper_config: unknown;
+}
+
+export interface SchedulableScrapeUrl extends Omit<ScrapeUrlScheduleRow, 'scraper_config'> {
+    scraper_config: ScraperConfig;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Parse a row's scraper_config for scheduling.
+ * An invalid config falls back to the defaults (and so the default cadence) - the run
+ * itself fails fast on it and the error backoff applies.
+ */
+export function parseScheduleConfig(rawConfig: unknown): ScraperConfig {
+    const parsed = ScraperConfigSchema.safeParse(rawConfig ?? {});
+    return parsed.success ? parsed.data : DEFAULT_SCRAPER_CONFIG;
+}
+
+function isSchedulableStatus(status: string | null): status is SchedulableStatus {
+    return SCHEDULABLE_STATUSES.some(schedulable => schedulable === status);
+}
+
+/**
+ * Get the per-URL cadence in hours
+ */
+export function getScrapeIntervalHours(scrapeUrl: SchedulableScrapeUrl): number {
+    return scrapeUrl.scraper_config.scrapeIntervalHours;
+}
+
+/**
+ * Calculate how long to wait after the last run before scraping again.
+ *
+ * Healthy URLs wait exactly one interval. Failed URLs wait
+ * interval × 2^(error_count - 1), capped at MAX_BACKOFF_HOURS.
+ *
+ * @example
+ * // 24h cadence, 3 consecutive failures
+ * getScrapeDelayHours({ status: 'failed', error_count: 3, ... })
+ * // => 96
+ */
+export function getScrapeDelayHours(scrapeUrl: SchedulableScrapeUrl): number {
+    const intervalHours = getScrapeIntervalHours(scrapeUrl);
+    const errorCount = scrapeUrl.error_count ?? 0;
+
+    if (scrapeUrl.status !== 'failed' || errorCount <= 1) {
+        return intervalHours;
+    }
+
+    return Math.min(intervalHours * 2 ** (errorCount - 1), Math.max(MAX_BACKOFF_HOURS, intervalHours));
+}
+
+/**
+ * Get the next time a URL should be scraped (null if it has never been scraped)
+ */
+export function getNextScrapeAt(scrapeUrl: SchedulableScrapeUrl): Date | null {
+    if (!scrapeUrl.last_scraped_at) {
+        return null;
+    }
+
+    const lastScrapedAt = new Date(scrapeUrl.last_scraped_at).getTime();
+    if (isNaN(lastScrapedAt)) {
+        return null;
+    }
+
+    return new Date(lastScrapedAt + getScrapeDelayHours(scrapeUrl) * HOUR_MS);
+}
+
+/**
+ * Key for the URL's current schedule slot - stays the same until a run records
+ * last_scraped_at, so every tick while a run is queued or in flight maps to it
+ */
+export function getScheduleSlotKey(scrapeUrl: SchedulableScrapeUrl): string {
+    return getNextScrapeAt(scrapeUrl)?.toISOString() ?? 'first-run';
+}
+
+/**
+ * Check whether a scrape URL is due for a discovery run
+ */
+export function isScrapeUrlDue(scrapeUrl: SchedulableScrapeUrl, now: Date = new Date()): boolean {
+    if (!isSchedulableStatus(scrapeUrl.status)) {
+        return false;
+    }
+
+    const nextScrapeAt = getNextScrapeAt(scrapeUrl);
+    return nextScrapeAt === null || nextScrapeAt.getTime() <= now.getTime();
+}
+
+/**
+ * Load all scrape URLs that are due for a discovery run
+ */
+export async function loadDueScrapeUrls(now: Date = new Date()): Promise<SchedulableScrapeUrl[]> {
+    const supabase = createClient(
+        process.env.NEXT_PUBLIC_SUPABASE_URL!,
+        process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+
+    const { data: scrapeUrls, error } = await supabase
+        .from('scrape_urls')
+        .select('id, status, last_scraped_at, error_count, scraper_config')
+        .in('status', [...SCHEDULABLE_STATUSES])
+        .order('last_scraped_at', { ascending: true, nullsFirst: true });
+
+    if (error) {
+        throw new Error(`Failed to load scrape URLs: ${error.message}`);
+    }
+
+    const rows: ScrapeUrlScheduleRow[] = scrapeUrls || [];
+    return rows
+        .map(row => ({ ...row, scraper_config: parseScheduleConfig(row.scraper_config) }))
+        .filter(scrapeUrl => isScrapeUrlDue(scrapeUrl, now));
+}
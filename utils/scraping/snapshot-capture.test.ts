@@ -0,0 +1,79 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import type { ScrapedRole } from '@/packages/schemas/careers-scraping';
+import { openSnapshotCapture, recordCapturedLlmCall, recordCapturedResponse, withSnapshotCapture } from './snapshot-capture';
+import { buildFixtureFromCapture } from './replay/capture-fixture';
+import { findRecordedResponse, loadReplayFixture } from './replay/fixtures';
+
+const FIRM = { id: 'firm-1', name: 'Acme', slug: 'acme' };
+const LISTING_URL = 'https://careers.acme.com/jobs';
+const ROLE_URL = 'https://careers.acme.com/jobs/summer-analyst';
+
+test('a LIST capture and its DETAIL captures convert into a loadable replay fixture', async () => {
+    const root = await mkdtemp(path.join(tmpdir(), 'capture-'));
+    const previousRoot = process.env.SCRAPE_CAPTURE_DIR;
+    process.env.SCRAPE_CAPTURE_DIR = root;
+
+    try {
+        const list = await openSnapshotCapture('list', LISTING_URL, FIRM, { maxPages: 1, capture: true });
+        assert.ok(list);
+        await list.savePage(LISTING_URL, '<html>listing</html>');
+        await withSnapshotCapture(list, async () => {
+            recordCapturedResponse({ url: `${LISTING_URL}/api?page=1`, status: 200, contentType: 'application/json', body: '{"jobs":[1]}' });
+            recordCapturedResponse({ url: `${LISTING_URL}/api?page=1`, status: 200, contentType: 'application/json', body: '{"jobs":[2]}' });
+            recordCapturedLlmCall({
+                task: 'link-classification',
+                model: 'openai:gpt-4o-mini',
+                system: 'Classify',
+                prompt: `LINKS TO ANALYZE (one JSON object per line):\n{"url":"${ROLE_URL}"}\n\nReturn only job postings.`,
+                response: { jobLinks: [{ url: ROLE_URL, title: 'Summer Analyst', confidence: 'high' }] },
+            });
+        });
+        list.setCollectedLinks([{ url: ROLE_URL, title: 'Summer Analyst', action: 'NEW_ROLE' }]);
+        await list.close();
+
+        const detail = await openSnapshotCapture('detail', ROLE_URL, FIRM);
+        assert.ok(detail);
+        await detail.savePage(ROLE_URL, '<html>role</html>');
+        await detail.saveRole({ title: 'Summer Analyst 2026' } as ScrapedRole);
+        detail.recordLlmCall({
+            task: 'role-extraction',
+            model: 'openai:gpt-4o-mini',
+            system: 'Extract',
+            prompt: `Extract job role details.\n\nURL: ${ROLE_URL}\n\nPAGE CONTENT:\nrole`,
+            response: { title: 'Summer Analyst 2026' },
+        });
+        detail.recordLlmCall({ task: 'programme-suggestion', model: 'openai:gpt-4o-mini', system: '', prompt: 'Title: "x"', error: 'timeout' });
+        await detail.close();
+
+        const outDir = path.join(root, 'fixture');
+        const result = await buildFixtureFromCapture(list.dir, outDir);
+        assert.deepEqual(result.missingDetails, []);
+
+        const fixture = await loadReplayFixture(outDir);
+        assert.equal(fixture.listingUrl, LISTING_URL);
+        assert.deepEqual(fixture.firm, FIRM);
+        assert.deepEqual(fixture.scraperConfig, { maxPages: 1, capture: false });
+        assert.equal(findRecordedResponse(fixture, LISTING_URL)?.body, '<html>listing</html>');
+        assert.equal(findRecordedResponse(fixture, ROLE_URL)?.body, '<html>role</html>');
+        assert.deepEqual(findRecordedResponse(fixture, `${LISTING_URL}/api?page=1`), {
+            status: 200,
+            contentType: 'application/json',
+            body: '{"jobs":[1]}',
+        });
+        assert.equal(fixture.llm['link-classification']?.[0].match, `{"url":"${ROLE_URL}"}`);
+        assert.equal(fixture.llm['role-extraction']?.[0].match, `URL: ${ROLE_URL}`);
+        assert.equal(fixture.llm['programme-suggestion'], undefined);
+        assert.deepEqual(fixture.expected, {
+            collectedLinks: [{ url: ROLE_URL }],
+            roleDrafts: [{ url: ROLE_URL, title: 'Summer Analyst 2026' }],
+        });
+    } finally {
+        if (previousRoot === undefined) delete process.env.SCRAPE_CAPTURE_DIR;
+        else process.env.SCRAPE_CAPTURE_DIR = previousRoot;
+        await rm(root, { recursive: true, force: true });
+    }
+});
@@ -0,0 +1,304 @@
+/**
+ * Snapshot Capture
+ *
+ * Saves what a real run saw so it can be turned into a replay fixture
+ * (see buildFixtureFromCapture in utils/scraping/replay). Enabled per scrape
+ * with scraper_config.capture.
+ *
+ * Each captured URL gets its own versioned directory - re-capturing never
+ * overwrites an earlier snapshot:
+ *
+ *   <SCRAPE_CAPTURE_DIR or ./captures>/<firm slug>/<url hash>/v<N>/
+ *     capture.json     Manifest: format version, kind (list/detail), URL, firm, scraper_config,
+ *                      pages, JSON responses, LIST collected links, timestamps
+ *     page-<n>.html    HTML of each page processed (listing pages in scan order)
+ *     response-<n>.json  Body of each JSON response the run depended on: XHR/fetch
+ *                      calls the listing page made and ATS API requests
+ *     links-<n>.json   LIST: extractLinksWithContext output for page <n>
+ *     llm-calls.json   Every LLM call: task, model, system, prompt, response/error, usage
+ *     role.json        DETAIL: the final ScrapedRole
+ *
+ * The URL hash is of the normalized URL, so tracking params don't split a
+ * role's history. LLM calls and ATS requests are attributed through
+ * AsyncLocalStorage, which keeps concurrent DETAIL pages apart. Responses are
+ * keyed by URL like replay fixtures are - only the first response per URL is
+ * kept (a paged POST API replays its first page).
+ *
+ * Capture is best-effort: a failed write is logged and the scrape carries on.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { createHash } from 'crypto';
+import { mkdir, readdir, writeFile } from 'fs/promises';
+import path from 'path';
+import type { Page, Response } from 'playwright';
+import type { LinkWithContext, RoleAction, ScrapedRole } from '@/packages/schemas/careers-scraping';
+import type { TokenUsage } from './cost-calculator';
+import type { LlmTask } from './llm-registry';
+import { normalizeUrl } from './url-normalizer';
+
+export const CAPTURE_FORMAT_VERSION = 2;
+
+export type CaptureKind = 'list' | 'detail';
+
+export interface CapturedFirm {
+    id: string;
+    name: string;
+    slug: string;
+}
+
+export interface CapturedResponse {
+    url: string;
+    status: number;
+    contentType: string;
+    body: string;
+}
+
+/**
+ * capture.json
+ */
+export interface CaptureManifest {
+    formatVersion: number;
+    kind: CaptureKind;
+    url: string;
+    firm: CapturedFirm;
+    scraperConfig?: unknown;
+    startedAt: string;
+    finishedAt: string;
+    pages: Array<{ file: string; url: string }>;
+    responses: Array<{ file: string; url: string; status: number; contentType: string }>;
+    collectedLinks?: Array<{ url: string; title: string; action: RoleAction }>; // LIST only
+    llmCalls: number;
+}
+
+export interface CapturedLlmCall {
+    task: LlmTask;
+    model: string;
+    system: string;
+    prompt: string;
+    response?: unknown;
+    usage?: TokenUsage;
+    error?: string;
+}
+
+const activeCapture = new AsyncLocalStorage<SnapshotCapture>();
+const activeResponseBuffer = new AsyncLocalStorage<CapturedResponse[]>();
+
+/**
+ * Short stable key for a URL's capture directory
+ */
+export function captureUrlHash(url: string): string {
+    return createHash('sha256').update(normalizeUrl(url)).digest('hex').slice(0, 16);
+}
+
+function captureRoot(): string {
+    return path.resolve(process.env.SCRAPE_CAPTURE_DIR || 'captures');
+}
+
+async function writeJson(file: string, value: unknown): Promise<void> {
+    await writeFile(file, `${JSON.stringify(value, null, 2)}\n`, 'utf8');
+}
+
+/**
+ * One capture directory - collect as the run goes, then close() to write the manifest
+ */
+export class SnapshotCapture {
+    private pages: Array<{ file: string; url: string }> = [];
+    private responses: CaptureManifest['responses'] = [];
+    private pendingResponses = new Set<Promise<void>>();
+    private collectedLinks?: CaptureManifest['collectedLinks'];
+    private llmCalls: CapturedLlmCall[] = [];
+    private readonly startedAt = new Date().toISOString();
+
+    constructor(
+        readonly dir: string,
+        readonly kind: CaptureKind,
+        readonly url: string,
+        readonly firm: CapturedFirm,
+        readonly scraperConfig?: unknown
+    ) {}
+
+    /**
+     * Save a page's HTML - returns its 1-based index for pairing with saveLinks
+     */
+    async savePage(url: string, html: string): Promise<number> {
+        const index = this.pages.length + 1;
+        const file = `page-${index}.html`;
+        this.pages.push({ file, url });
+        await this.write(file, () => writeFile(path.join(this.dir, file), html, 'utf8'));
+        return index;
+    }
+
+    async saveLinks(pageIndex: number, links: LinkWithContext[]): Promise<void> {
+        const file = `links-${pageIndex}.json`;
+        await this.write(file, () => writeJson(path.join(this.dir, file), links));
+    }
+
+    /**
+     * Save a JSON response body - later responses for an already-recorded URL are dropped
+     */
+    async saveResponse(response: CapturedResponse): Promise<void> {
+        if (this.responses.some(recorded => recorded.url === response.url)) return;
+
+        const file = `response-${this.responses.length + 1}.json`;
+        this.responses.push({ file, url: response.url, status: response.status, contentType: response.contentType });
+        await this.write(file, () => writeFile(path.join(this.dir, file), response.body, 'utf8'));
+    }
+
+    /**
+     * saveResponse without awaiting it - close() waits for the write
+     */
+    recordResponse(response: CapturedResponse): void {
+        this.trackPending(this.saveResponse(response));
+    }
+
+    /**
+     * Record the page's JSON XHR/fetch responses - attach before navigation, like JsonHarvester
+     */
+    attach(page: Page): void {
+        page.on('response', (response: Response) => this.trackPending(this.saveBrowserResponse(response)));
+    }
+
+    private trackPending(write: Promise<void>): void {
+        const task = write.finally(() => this.pendingResponses.delete(task));
+        this.pendingResponses.add(task);
+    }
+
+    private async saveBrowserResponse(response: Response): Promise<void> {
+        try {
+            const resourceType = response.request().resourceType();
+            if (resourceType !== 'xhr' && resourceType !== 'fetch') return;
+
+            const contentType = response.headers()['content-type'] || '';
+            if (!contentType.includes('json')) return;
+
+            await this.saveResponse({ url: response.url(), status: response.status(), contentType, body: await response.text() });
+        } catch {
+            // Body unavailable (redirect, page closed) - nothing to record
+        }
+    }
+
+    /**
+     * LIST: the roles the scan collected - the replay fixture's expected outcome
+     */
+    setCollectedLinks(links: Array<{ url: string; title: string; action: RoleAction }>): void {
+        this.collectedLinks = links.map(({ url, title, action }) => ({ url, title, action }));
+    }
+
+    async saveRole(role: ScrapedRole): Promise<void> {
+        await this.write('role.json', () => writeJson(path.join(this.dir, 'role.json'), role));
+    }
+
+    recordLlmCall(call: CapturedLlmCall): void {
+        this.llmCalls.push(call);
+    }
+
+    /**
+     * Run fn with this capture active, so LLM calls made inside it are recorded here
+     */
+    run<T>(fn: () => Promise<T>): Promise<T> {
+        return activeCapture.run(this, fn);
+    }
+
+    /**
+     * Wait for in-flight response writes, then write llm-calls.json and the manifest
+     */
+    async close(): Promise<void> {
+        await Promise.all(Array.from(this.pendingResponses));
+
+        const manifest: CaptureManifest = {
+            formatVersion: CAPTURE_FORMAT_VERSION,
+            kind: this.kind,
+            url: this.url,
+            firm: this.firm,
+            scraperConfig: this.scraperConfig,
+            startedAt: this.startedAt,
+            finishedAt: new Date().toISOString(),
+            pages: this.pages,
+            responses: this.responses,
+            collectedLinks: this.collectedLinks,
+            llmCalls: this.llmCalls.length,
+        };
+
+        await this.write('llm-calls.json', () => writeJson(path.join(this.dir, 'llm-calls.json'), this.llmCalls));
+        await this.write('capture.json', () => writeJson(path.join(this.dir, 'capture.json'), manifest));
+    }
+
+    private async write(file: string, fn: () => Promise<void>): Promise<void> {
+        try {
+            await fn();
+        } catch (error) {
+            console.error(`[capture] Failed to write ${path.join(this.dir, file)}:`, error instanceof Error ? error.message : error);
+        }
+    }
+}
+
+/**
+ * Create the next version directory for a URL, or null (logged) if it can't be created
+ *
+ * @example
+ * await openSnapshotCapture('detail', 'https://careers.acme.com/jobs/123?utm_source=x', { id, name: 'Acme', slug: 'acme' })
+ * // => SnapshotCapture writing to captures/acme/3f2a9c.../v1 (v2 on the next capture)
+ */
+export async function openSnapshotCapture(
+    kind: CaptureKind,
+    url: string,
+    firm: CapturedFirm,
+    scraperConfig?: unknown
+): Promise<SnapshotCapture | null> {
+    const urlDir = path.join(captureRoot(), firm.slug, captureUrlHash(url));
+
+    try {
+        await mkdir(urlDir, { recursive: true });
+        const versions = (await readdir(urlDir))
+            .map(name => name.match(/^v(\d+)$/))
+            .filter((match): match is RegExpMatchArray => match !== null)
+            .map(match => Number(match[1]));
+        const dir = path.join(urlDir, `v${Math.max(0, ...versions) + 1}`);
+        await mkdir(dir);
+
+        return new SnapshotCapture(dir, kind, url, firm, scraperConfig);
+    } catch (error) {
+        console.error(`[capture] Failed to create capture directory under ${urlDir}:`, error instanceof Error ? error.message : error);
+        return null;
+    }
+}
+
+/**
+ * Run fn inside a capture, or directly when capture is off
+ */
+export function withSnapshotCapture<T>(capture: SnapshotCapture | null, fn: () => Promise<T>): Promise<T> {
+    return capture ? capture.run(fn) : fn();
+}
+
+/**
+ * Record an LLM call on the active capture (no-op outside one) - called by generateStructured
+ */
+export function recordCapturedLlmCall(call: CapturedLlmCall): void {
+    activeCapture.getStore()?.recordLlmCall(call);
+}
+
+/**
+ * Record a JSON API response on the active capture and response buffer (no-op outside both) - called by the ATS fetchJson
+ */
+export function recordCapturedResponse(response: CapturedResponse): void {
+    activeResponseBuffer.getStore()?.push(response);
+    activeCapture.getStore()?.recordResponse(response);
+}
+
+/**
+ * Run fn and collect the responses recorded inside it - for requests made before
+ * the capture they belong to is opened (the DETAIL phase's ATS fetch)
+ */
+export async function bufferCapturedResponses<T>(fn: () => Promise<T>): Promise<{ value: T; responses: CapturedResponse[] }> {
+    const responses: CapturedResponse[] = [];
+    const value = await activeResponseBuffer.run(responses, fn);
+    return { value, responses };
+}
+
+/**
+ * Save the final role on the active capture (no-op outside one)
+ */
+export async function captureScrapedRole(role: ScrapedRole): Promise<void> {
+    await activeCapture.getStore()?.saveRole(role);
+}